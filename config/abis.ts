@@ -3,17 +3,20 @@ import { ethers } from 'ethers';
 // Import external ABIs
 import cacheManagerABI from '../abis/external/cacheManager.abi.json';
 import arbWasmCacheABI from '../abis/external/arbWasmCache.abi.json';
+import arbWasmABI from '../abis/external/arbWasm.abi.json';
 
 // External Contract ABIs Registry
 export const ExternalABIs = {
   CacheManager: cacheManagerABI.abi,
   ArbWasmCache: arbWasmCacheABI.abi,
+  ArbWasm: arbWasmABI.abi,
 };
 
 // Contract Interface Registry for external contracts
 export const ExternalInterfaces = {
   CacheManager: () => new ethers.Interface(ExternalABIs.CacheManager),
   ArbWasmCache: () => new ethers.Interface(ExternalABIs.ArbWasmCache),
+  ArbWasm: () => new ethers.Interface(ExternalABIs.ArbWasm),
 };
 
 // Utility function to get external contract instance
@@ -31,7 +34,7 @@ export function getExternalContractInstance(
 }
 
 // Export ABIs for backward compatibility
-export { cacheManagerABI, arbWasmCacheABI };
+export { cacheManagerABI, arbWasmCacheABI, arbWasmABI };
 
 // Note: For our own contracts (CacheManagerAutomation, BiddingEscrow),
 // use the types generated by Hardhat in build/typechain-types/
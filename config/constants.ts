@@ -51,6 +51,20 @@ export const DEFAULT_CONFIG = {
   upgradeDelay: 86400, // 24 hours in seconds
 };
 
+// Off-chain keeper defaults
+export const DEFAULT_KEEPER_CONFIG = {
+  bidIntervalSeconds: 300, // 5 minutes between bidding rounds
+  activationIntervalSeconds: 3600, // Programs expire on a days scale
+  activationGasBudget: 20000000, // ~6 activations at ~3.3M gas each
+  bidCooldownSeconds: 600, // Leave a (user, contract) pair alone after an attempt
+  metricsPort: 9464, // Local Prometheus /metrics endpoint (0 disables it)
+  alertIntervalSeconds: 60, // How often BidError/ActivationError logs are read
+  alertMaxPerMinute: 10, // Webhook rate limit; extra alerts are dropped and counted
+  alertDedupSeconds: 3600, // Identical alerts are muted for this long
+  replaceAfterSeconds: 120, // Re-broadcast unmined transactions with higher fees
+  feeBumpPercent: 20, // Nodes require at least +10% to accept a replacement
+};
+
 // Gas limits for different operations
 export const GAS_LIMITS = {
   deployment: 3000000,
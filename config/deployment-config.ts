@@ -3,8 +3,22 @@ import {
   ARB_WASM_CACHE_ADDRESSES,
   ARB_WASM_ADDRESSES,
   DEFAULT_CONFIG,
+  DEFAULT_KEEPER_CONFIG,
 } from './constants';
 
+export interface KeeperConfig {
+  bidIntervalSeconds: number;
+  activationIntervalSeconds: number;
+  activationGasBudget: number;
+  bidCooldownSeconds: number;
+  metricsPort: number;
+  alertIntervalSeconds: number;
+  alertMaxPerMinute: number;
+  alertDedupSeconds: number;
+  replaceAfterSeconds: number;
+  feeBumpPercent: number;
+}
+
 export interface DeploymentConfig {
   cacheManagerAddress: string;
   arbWasmCacheAddress: string;
@@ -13,6 +27,7 @@ export interface DeploymentConfig {
   maxUserFunds: string;
   upgradeDelay: number;
   verify: boolean;
+  keeper: KeeperConfig;
 }
 
 export const deploymentConfigs: Record<string, DeploymentConfig> = {
@@ -24,6 +39,7 @@ export const deploymentConfigs: Record<string, DeploymentConfig> = {
     maxUserFunds: DEFAULT_CONFIG.maxUserFunds,
     upgradeDelay: DEFAULT_CONFIG.upgradeDelay,
     verify: true,
+    keeper: DEFAULT_KEEPER_CONFIG,
   },
   arbitrumSepolia: {
     cacheManagerAddress: CACHE_MANAGER_ADDRESSES.arbitrumSepolia,
@@ -33,6 +49,7 @@ export const deploymentConfigs: Record<string, DeploymentConfig> = {
     maxUserFunds: DEFAULT_CONFIG.maxUserFunds,
     upgradeDelay: DEFAULT_CONFIG.upgradeDelay,
     verify: true,
+    keeper: DEFAULT_KEEPER_CONFIG,
   },
   localArb: {
     cacheManagerAddress: CACHE_MANAGER_ADDRESSES.localArb,
@@ -42,6 +59,12 @@ export const deploymentConfigs: Record<string, DeploymentConfig> = {
     maxUserFunds: DEFAULT_CONFIG.maxUserFunds,
     upgradeDelay: 0, // No delay for local testing
     verify: false,
+    keeper: {
+      ...DEFAULT_KEEPER_CONFIG,
+      bidIntervalSeconds: 30, // Faster rounds for local testing
+      activationIntervalSeconds: 30,
+      bidCooldownSeconds: 30,
+    },
   },
   superposition: {
     cacheManagerAddress: CACHE_MANAGER_ADDRESSES.superposition,
@@ -51,6 +74,7 @@ export const deploymentConfigs: Record<string, DeploymentConfig> = {
     maxUserFunds: DEFAULT_CONFIG.maxUserFunds,
     upgradeDelay: DEFAULT_CONFIG.upgradeDelay,
     verify: true,
+    keeper: DEFAULT_KEEPER_CONFIG,
   },
   hardhat: {
     cacheManagerAddress: '0x1234567890123456789012345678901234567890',
@@ -60,6 +84,12 @@ export const deploymentConfigs: Record<string, DeploymentConfig> = {
     maxUserFunds: DEFAULT_CONFIG.maxUserFunds,
     upgradeDelay: 0,
     verify: false,
+    keeper: {
+      ...DEFAULT_KEEPER_CONFIG,
+      bidIntervalSeconds: 5,
+      activationIntervalSeconds: 5,
+      bidCooldownSeconds: 5,
+    },
   },
 };
 
@@ -26,6 +26,10 @@ contract CacheManagerAutomation is
     /// has expired in recent Nitro versions. Treated as "proceed to activate".
     bytes4 private constant PROGRAM_EXPIRED_SELECTOR = 0xc9b12e52;
 
+    /// @dev Nitro's Stylus discriminant: every deployed Stylus program's code
+    /// starts with these three bytes, followed by a dictionary byte.
+    uint24 private constant STYLUS_PREFIX = 0xeff000;
+
     // ------------------------------------------------------------------------
     // Configuration state variables (modifiable by owner)
     // ------------------------------------------------------------------------
@@ -217,7 +221,8 @@ contract CacheManagerAutomation is
         bool _autoActivate,
         uint256 _maxActivationCost
     ) external payable {
-        if (_contract == address(0)) revert InvalidAddress(); // TODO allow on only stylus contracts
+        if (_contract == address(0)) revert InvalidAddress();
+        if (!_isStylusProgram(_contract)) revert NotStylusProgram();
         if (_maxBid < minMaxBidAmount) revert InvalidBid();
         if (_autoActivate && _maxActivationCost == 0)
             revert InvalidActivationCost();
@@ -504,6 +509,20 @@ contract CacheManagerAutomation is
     // Contract internal functions
     // ------------------------------------------------------------------------
 
+    /// @notice Whether `_target` holds Stylus program code
+    /// @dev EOAs and EVM contracts can't be cached, so registering them would
+    /// only waste bid and activation attempts. Copies just the prefix bytes.
+    function _isStylusProgram(address _target) internal view returns (bool) {
+        if (_target.code.length < 4) return false;
+        uint24 prefix;
+        assembly {
+            let ptr := mload(0x40)
+            extcodecopy(_target, ptr, 0, 3)
+            prefix := shr(232, mload(ptr))
+        }
+        return prefix == STYLUS_PREFIX;
+    }
+
     /// @dev Calculate bid amount using simplified decay-aware logic
     /// @param userMaxBid User's maximum willing bid amount
     /// @param bidIndex Index for uniqueness
@@ -173,6 +173,7 @@ interface ICacheManagerAutomation {
     error TooManyActivations();
     error InvalidActivationCost();
     error UnauthorizedSender();
+    error NotStylusProgram();
 
     // Functions
     function insertContract(
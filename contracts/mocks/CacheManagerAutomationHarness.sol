@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.30;
+
+import {CacheManagerAutomation} from '../core/CacheManagerAutomation.sol';
+
+/// @dev Exposes internal CacheManagerAutomation helpers for testing.
+contract CacheManagerAutomationHarness is CacheManagerAutomation {
+    constructor(
+        address _cacheManager,
+        address _arbWasmCache,
+        address _arbWasm
+    ) CacheManagerAutomation(_cacheManager, _arbWasmCache, _arbWasm) {}
+
+    function calculateBidAmount(
+        uint256 userMaxBid,
+        uint256 bidIndex,
+        uint192 minBid
+    ) external view returns (uint192) {
+        return _calculateBidAmount(userMaxBid, bidIndex, minBid);
+    }
+}
@@ -4,10 +4,19 @@ pragma solidity 0.8.30;
 import {ICacheManager} from '../interfaces/IExternalContracts.sol';
 
 contract MockCacheManager is ICacheManager {
+    struct Entry {
+        bytes32 code;
+        uint64 size;
+        uint192 bid;
+    }
+
     uint192 public minBid;
     uint64 public _cacheSize;
     uint64 public _queueSize;
     uint64 public _decay;
+    bool public shouldRevert;
+    bool public isPaused;
+    Entry[] internal entries;
 
     function setMinBid(uint192 _b) external {
         minBid = _b;
@@ -19,11 +28,36 @@ contract MockCacheManager is ICacheManager {
         _decay = d;
     }
 
+    function setShouldRevert(bool _r) external {
+        shouldRevert = _r;
+    }
+
+    function setPaused(bool _p) external {
+        isPaused = _p;
+    }
+
+    /// @dev Entries are returned in insertion order, so add them by bid.
+    function addEntry(bytes32 code, uint64 size, uint192 bid) external {
+        entries.push(Entry(code, size, bid));
+    }
+
+    function getSmallestEntries(
+        uint256 k
+    ) external view returns (Entry[] memory result) {
+        uint256 n = k < entries.length ? k : entries.length;
+        result = new Entry[](n);
+        for (uint256 i = 0; i < n; i++) {
+            result[i] = entries[i];
+        }
+    }
+
     function getMinBid(address) external view override returns (uint192) {
         return minBid;
     }
 
-    function placeBid(address) external payable override {}
+    function placeBid(address) external payable override {
+        if (shouldRevert) revert('placeBid revert');
+    }
 
     function cacheSize() external view override returns (uint64) {
         return _cacheSize;
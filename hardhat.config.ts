@@ -4,6 +4,9 @@ import '@nomicfoundation/hardhat-ignition-ethers';
 import '@openzeppelin/hardhat-upgrades';
 import { networks } from './config/networks';
 import { ignition } from './config/ignition';
+import './tasks/admin';
+import './tasks/cma';
+import './tasks/dev';
 
 const config: HardhatUserConfig = {
   networks,
@@ -0,0 +1,53 @@
+import hre from 'hardhat';
+import { CacheManagerAutomation__factory } from '../../build/typechain-types';
+import { IndexerApiServer } from '../../src/indexer/api';
+import { CmaIndexer } from '../../src/indexer/indexer';
+import { IndexerStore } from '../../src/indexer/store';
+
+// Indexes CMA and BiddingEscrow events into SQLite until interrupted, and
+// serves them over HTTP when INDEXER_API_PORT is set.
+async function main() {
+  const networkName = hre.network.name;
+  const cmaAddress = process.env.CMA_ADDRESS;
+  if (!cmaAddress) {
+    throw new Error('CMA_ADDRESS environment variable not set');
+  }
+
+  const dbPath = process.env.INDEXER_DB_PATH || `indexer-${networkName}.db`;
+  const store = await IndexerStore.open(dbPath);
+  const indexer = new CmaIndexer({
+    cma: CacheManagerAutomation__factory.connect(
+      cmaAddress,
+      hre.ethers.provider
+    ),
+    store,
+    fromBlock: Number(process.env.INDEXER_FROM_BLOCK || 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 0),
+  });
+  console.log(`📚 Indexing ${cmaAddress} on network: ${networkName}`);
+  indexer.start();
+
+  // A connection of its own, so reads never see a batch mid-transaction.
+  let api: { server: IndexerApiServer; store: IndexerStore } | undefined;
+  if (process.env.INDEXER_API_PORT) {
+    const apiStore = await IndexerStore.open(dbPath);
+    const server = new IndexerApiServer({
+      store: apiStore,
+      port: Number(process.env.INDEXER_API_PORT),
+    });
+    const port = await server.start();
+    console.log(`🌐 Indexer API on http://127.0.0.1:${port}`);
+    api = { server, store: apiStore };
+  }
+
+  process.once('SIGINT', () => {
+    console.log('\n🛑 Stopping indexer...');
+    void indexer.stop().then(() => store.close());
+    void api?.server.stop().then(() => api?.store.close());
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
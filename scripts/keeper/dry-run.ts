@@ -0,0 +1,109 @@
+import hre from 'hardhat';
+import { getDeploymentConfig } from '../../config/deployment-config';
+import {
+  CacheManagerAutomation__factory,
+  IArbWasmCache__factory,
+  ICacheManager__factory,
+} from '../../build/typechain-types';
+import {
+  BiddingKeeper,
+  buildBidBatches,
+} from '../../src/keeper/bidding-keeper';
+import { BidExplainer } from '../../src/keeper/bid-explainer';
+import { cacheUtilization } from '../../src/sdk/pricing';
+
+// Explains what the next bidding round would do without sending a transaction.
+async function main() {
+  const networkName = hre.network.name;
+  const config = getDeploymentConfig(networkName);
+
+  const cmaAddress = process.env.CMA_ADDRESS;
+  if (!cmaAddress) {
+    throw new Error('CMA_ADDRESS environment variable not set');
+  }
+
+  const provider = hre.ethers.provider;
+  const cma = CacheManagerAutomation__factory.connect(cmaAddress, provider);
+  const arbWasmCache = IArbWasmCache__factory.connect(
+    config.arbWasmCacheAddress,
+    provider
+  );
+  const cacheManager = ICacheManager__factory.connect(
+    config.cacheManagerAddress,
+    provider
+  );
+
+  console.log(`🔍 Bidding dry-run on network: ${networkName}`);
+  console.log(`   CMA: ${cmaAddress}`);
+
+  const keeper = new BiddingKeeper({
+    cma,
+    arbWasmCache,
+    intervalSeconds: config.keeper.bidIntervalSeconds,
+  });
+  const explainer = new BidExplainer({ cma, arbWasmCache, cacheManager });
+
+  const { requests, excluded } = await keeper.collectBidRequests();
+  const batches = buildBidBatches(requests, await cma.maxBidsPerIteration());
+  const market = await explainer.loadMarket();
+  const decisions = await explainer.explainBatches(batches);
+
+  const utilization =
+    market.cacheSize && market.queueSize !== undefined
+      ? `${cacheUtilization(market.cacheSize, market.queueSize)}%`
+      : 'unknown';
+  console.log('\n📊 Market:');
+  console.log(
+    `   Utilization: ${utilization} (threshold ${market.cacheThreshold}%)`
+  );
+  console.log(`   Decay: ${market.decay ?? 'unknown'}`);
+  console.log(`   Horizon: ${market.horizonSeconds}s`);
+  console.log(`   Bid increment: ${market.bidIncrement}`);
+
+  const batchSize = batches[0]?.length || 1;
+  console.log(
+    `\n📋 ${decisions.length} requests in ${batches.length} batches:`
+  );
+  console.table(
+    decisions.map((d, i) => ({
+      batch: Math.floor(i / batchSize) + 1,
+      index: d.bidIndex,
+      user: d.user,
+      contract: d.contractAddress,
+      decision: d.shouldBid ? 'BID' : 'SKIP',
+      'bid (ETH)': hre.ethers.formatEther(d.bidAmount),
+      'minBid (ETH)':
+        d.minBid !== undefined ? hre.ethers.formatEther(d.minBid) : '-',
+      reason: d.reason ?? '',
+    }))
+  );
+
+  if (excluded.length > 0) {
+    console.log(
+      `\n🚫 ${excluded.length} registrations the keeper would not send:`
+    );
+    console.table(
+      excluded.map((e) => ({
+        user: e.user,
+        contract: e.contractAddress,
+        reason: e.reason,
+        'shared with': e.sharedWith
+          ? `${e.sharedWith.user} / ${e.sharedWith.contractAddress}`
+          : '',
+      }))
+    );
+  }
+
+  const bids = decisions.filter((d) => d.shouldBid);
+  const total = bids.reduce((sum, d) => sum + d.bidAmount, 0n);
+  console.log(
+    `\n✅ ${bids.length} bids would be placed for ${hre.ethers.formatEther(
+      total
+    )} ETH in total. No transaction was sent.`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
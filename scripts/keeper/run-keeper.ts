@@ -0,0 +1,55 @@
+import hre from 'hardhat';
+import { getDeploymentConfig } from '../../config/deployment-config';
+import { MetricsServer } from '../../src/keeper/metrics';
+import {
+  NetworkKeeper,
+  parseMetricsPort,
+  parseWebhookUrls,
+} from '../../src/keeper/network-keeper';
+
+async function main() {
+  const networkName = hre.network.name;
+  const config = getDeploymentConfig(networkName);
+
+  const cmaAddress = process.env.CMA_ADDRESS;
+  if (!cmaAddress) {
+    throw new Error('CMA_ADDRESS environment variable not set');
+  }
+
+  const [operator] = await hre.ethers.getSigners();
+  const keeper = new NetworkKeeper({
+    network: networkName,
+    config,
+    signer: operator,
+    cmaAddress,
+    dbPath: process.env.KEEPER_DB_PATH || `keeper-${networkName}.db`,
+    alertWebhooks: parseWebhookUrls(process.env.KEEPER_ALERT_WEBHOOKS),
+  });
+  await keeper.start();
+
+  const metricsPort = parseMetricsPort(
+    process.env.KEEPER_METRICS_PORT,
+    config.keeper.metricsPort
+  );
+  const metricsServer = new MetricsServer({
+    port: metricsPort,
+    targets: [keeper.metricsTarget()],
+  });
+  if (metricsPort > 0) {
+    const port = await metricsServer.start();
+    console.log(`📈 Metrics: http://127.0.0.1:${port}/metrics`);
+  }
+
+  const shutdown = () => {
+    console.log('\n🛑 Stopping keeper...');
+    void keeper.stop();
+    void metricsServer.stop();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
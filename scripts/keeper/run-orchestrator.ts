@@ -0,0 +1,61 @@
+import { DEFAULT_KEEPER_CONFIG } from '../../config/constants';
+import { MetricsServer } from '../../src/keeper/metrics';
+import {
+  connectNetwork,
+  parseMetricsPort,
+  parseWebhookUrls,
+} from '../../src/keeper/network-keeper';
+import { KeeperOrchestrator } from '../../src/keeper/orchestrator';
+
+/**
+ * Runs the keeper on several networks from one process.
+ *
+ * Usage: npm run keeper:multi -- arbitrumOne arbitrumSepolia superposition
+ * (or set KEEPER_NETWORKS=arbitrumOne,arbitrumSepolia)
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const names = (
+    args.length > 0 ? args : (process.env.KEEPER_NETWORKS ?? '').split(',')
+  )
+    .map((name) => name.trim())
+    .filter((name) => name !== '');
+  if (names.length === 0) {
+    throw new Error('Pass network names as arguments or set KEEPER_NETWORKS');
+  }
+
+  const metricsPort = parseMetricsPort(
+    process.env.KEEPER_METRICS_PORT,
+    DEFAULT_KEEPER_CONFIG.metricsPort
+  );
+  const metricsServer = new MetricsServer({ port: metricsPort });
+  const alertWebhooks = parseWebhookUrls(process.env.KEEPER_ALERT_WEBHOOKS);
+
+  const orchestrator = new KeeperOrchestrator({
+    networks: names.map((name) => ({
+      name,
+      connect: () => connectNetwork(name, { alertWebhooks }),
+    })),
+    onStarted: (_, keeper) => metricsServer.addTarget(keeper.metricsTarget()),
+  });
+
+  console.log(`🌐 Starting keepers on: ${names.join(', ')}`);
+  orchestrator.start();
+  if (metricsPort > 0) {
+    const port = await metricsServer.start();
+    console.log(`📈 Metrics: http://127.0.0.1:${port}/metrics`);
+  }
+
+  const shutdown = () => {
+    console.log('\n🛑 Stopping keepers...');
+    void orchestrator.stop();
+    void metricsServer.stop();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
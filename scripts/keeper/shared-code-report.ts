@@ -0,0 +1,78 @@
+import hre from 'hardhat';
+import {
+  BiddingEscrow__factory,
+  CacheManagerAutomation__factory,
+} from '../../build/typechain-types';
+import {
+  biddingPower,
+  findSharedCode,
+  selectBestFunded,
+} from '../../src/keeper/shared-code';
+import { fetchRegistrations } from '../../src/sdk/registrations';
+
+// Lists registrations whose programs share code, and which one the keeper bids with.
+async function main() {
+  const cmaAddress = process.env.CMA_ADDRESS;
+  if (!cmaAddress) {
+    throw new Error('CMA_ADDRESS environment variable not set');
+  }
+
+  const provider = hre.ethers.provider;
+  const cma = CacheManagerAutomation__factory.connect(cmaAddress, provider);
+  const escrow = BiddingEscrow__factory.connect(await cma.escrow(), provider);
+
+  console.log(`🔍 Shared code report on network: ${hre.network.name}`);
+  console.log(`   CMA: ${cmaAddress}`);
+
+  const registrations = await fetchRegistrations(cma);
+  const groups = await findSharedCode(provider, registrations);
+  if (groups.length === 0) {
+    console.log(
+      `\n✅ None of the ${registrations.length} registrations share code.`
+    );
+    return;
+  }
+
+  const balances = new Map<string, bigint>();
+  for (const { codehash, registrations: members } of groups) {
+    const funded = [];
+    for (const registration of members) {
+      if (!balances.has(registration.user)) {
+        balances.set(
+          registration.user,
+          await escrow.depositsOf(registration.user)
+        );
+      }
+      funded.push({
+        ...registration,
+        balance: balances.get(registration.user)!,
+      });
+    }
+    const enabled = funded.filter((r) => r.enabled);
+    const bidder = enabled.length > 0 ? selectBestFunded(enabled) : undefined;
+
+    console.log(`\n🧬 ${codehash} (${members.length} registrations):`);
+    console.table(
+      funded.map((r) => ({
+        user: r.user,
+        contract: r.contractAddress,
+        enabled: r.enabled,
+        'maxBid (ETH)': hre.ethers.formatEther(r.maxBid),
+        'balance (ETH)': hre.ethers.formatEther(r.balance),
+        'power (ETH)': hre.ethers.formatEther(biddingPower(r)),
+        bids: r === bidder ? '✔' : '',
+      }))
+    );
+  }
+
+  const shared = groups.reduce((sum, g) => sum + g.registrations.length, 0);
+  console.log(
+    `\n⚠️ ${shared} registrations in ${groups.length} groups share code; ` +
+      'the keeper sends one bid per group.'
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
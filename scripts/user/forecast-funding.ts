@@ -0,0 +1,91 @@
+import hre from 'hardhat';
+import { CacheManagerAutomation__factory } from '../../build/typechain-types';
+import {
+  ForecastScenario,
+  forecastFunding,
+  loadForecastInput,
+  parseActivationCosts,
+} from '../../src/sdk/forecast';
+
+// Projects a user's escrow spend and recommends a fundBalance top-up.
+async function main() {
+  const cmaAddress = process.env.CMA_ADDRESS;
+  if (!cmaAddress) {
+    throw new Error('CMA_ADDRESS environment variable not set');
+  }
+  const days = Number(process.env.FORECAST_DAYS || 30);
+  const user =
+    process.env.FORECAST_USER ||
+    (await (await hre.ethers.getSigners())[0].getAddress());
+
+  const cma = CacheManagerAutomation__factory.connect(
+    cmaAddress,
+    hre.ethers.provider
+  );
+  const forecast = forecastFunding(
+    await loadForecastInput(cma, user, {
+      days,
+      activationCosts: parseActivationCosts(
+        process.env.FORECAST_ACTIVATION_COSTS
+      ),
+    })
+  );
+  const eth = (wei: bigint) => hre.ethers.formatEther(wei);
+
+  console.log(`🔮 Funding forecast on network: ${hre.network.name}`);
+  console.log(`   CMA: ${cmaAddress}`);
+  console.log(`   User: ${user}`);
+  console.log(`   Window: ${days} days`);
+  console.log(`   Balance: ${eth(forecast.balance)} ETH`);
+
+  if (forecast.contracts.length === 0) {
+    console.log('\n📭 No contracts registered.');
+    return;
+  }
+
+  const scenarios: ForecastScenario[] = ['low', 'expected', 'high'];
+  console.log('\n📊 Projected spend (ETH):');
+  console.table(
+    forecast.contracts.map(({ contractAddress, scenarios: spend }) => ({
+      contract: contractAddress,
+      ...Object.fromEntries(
+        scenarios.map((scenario) => [scenario, eth(spend[scenario].total)])
+      ),
+    }))
+  );
+  console.table(
+    scenarios.map((scenario) => {
+      const spend = forecast.scenarios[scenario];
+      return {
+        scenario,
+        bids: spend.bidCount.toString(),
+        'bids (ETH)': eth(spend.bids),
+        activations: spend.activationCount.toString(),
+        'activations (ETH)': eth(spend.activations),
+        'total (ETH)': eth(spend.total),
+      };
+    })
+  );
+
+  if (forecast.recommendedTopUp === 0n && forecast.shortfall === 0n) {
+    console.log('\n✅ The balance covers the expected spend.');
+    return;
+  }
+  console.log(
+    `\n💰 Recommended top-up: ${eth(
+      forecast.recommendedTopUp
+    )} ETH (fundBalance)`
+  );
+  if (forecast.cappedByMaxUserFunds) {
+    console.log(
+      `⚠️  maxUserFunds leaves ${eth(
+        forecast.shortfall
+      )} ETH of the expected spend uncovered; top up again later.`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
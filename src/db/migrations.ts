@@ -0,0 +1,157 @@
+/**
+ * Schema migrations, applied in order by `openDatabase`. The keeper and the
+ * indexer keep separate database files, so each has its own list and its own
+ * `user_version` count.
+ *
+ * Append new entries; never edit one that has shipped. Amounts are stored as
+ * decimal TEXT since they don't fit SQLite integers.
+ */
+
+/** Keeper state (`KeeperStateStore`). */
+export const KEEPER_MIGRATIONS: string[] = [
+  // 1: registrations and bid attempts
+  `
+  CREATE TABLE keeper_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE registrations (
+    user TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    max_bid TEXT NOT NULL,
+    enabled INTEGER NOT NULL,
+    auto_activate INTEGER NOT NULL,
+    max_activation_cost TEXT NOT NULL,
+    PRIMARY KEY (user, contract_address)
+  );
+
+  CREATE TABLE bid_attempts (
+    user TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    attempted_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    bid_amount TEXT,
+    next_check_at INTEGER NOT NULL,
+    PRIMARY KEY (user, contract_address)
+  );
+  `,
+];
+
+/** Indexed CMA and escrow events (`IndexerStore`). */
+export const INDEXER_MIGRATIONS: string[] = [
+  // 1: event tables
+  `
+  CREATE TABLE indexer_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE indexed_blocks (
+    block_number INTEGER PRIMARY KEY,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE contract_events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    event TEXT NOT NULL,
+    user TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    max_bid TEXT,
+    auto_activate INTEGER,
+    max_activation_cost TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX contract_events_user ON contract_events (user);
+  CREATE INDEX contract_events_contract ON contract_events (contract_address);
+
+  CREATE TABLE bids (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    user TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    bid_amount TEXT NOT NULL,
+    max_bid TEXT,
+    user_balance TEXT,
+    reason TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX bids_user ON bids (user);
+  CREATE INDEX bids_contract ON bids (contract_address);
+
+  CREATE TABLE activations (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    user TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    version INTEGER,
+    data_fee TEXT,
+    spent TEXT,
+    refund TEXT,
+    user_balance TEXT,
+    value TEXT,
+    reason TEXT,
+    revert_data TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX activations_user ON activations (user);
+  CREATE INDEX activations_contract ON activations (contract_address);
+
+  CREATE TABLE balance_updates (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    user TEXT NOT NULL,
+    new_balance TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX balance_updates_user ON balance_updates (user);
+
+  CREATE TABLE parameter_updates (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    parameter TEXT NOT NULL,
+    old_value TEXT NOT NULL,
+    new_value TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE escrow_transfers (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    payee TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX escrow_transfers_payee ON escrow_transfers (payee);
+  `,
+  // 2: CacheManager state at the end of each indexer round
+  `
+  CREATE TABLE market_snapshots (
+    block_number INTEGER PRIMARY KEY,
+    cache_size TEXT NOT NULL,
+    queue_size TEXT NOT NULL,
+    decay TEXT NOT NULL
+  );
+  `,
+  // 3: snapshot timestamps, so snapshots don't depend on indexed_blocks
+  `
+  ALTER TABLE market_snapshots ADD COLUMN timestamp INTEGER NOT NULL DEFAULT 0;
+  UPDATE market_snapshots SET timestamp = COALESCE((
+    SELECT b.timestamp FROM indexed_blocks b
+    WHERE b.block_number = market_snapshots.block_number
+  ), 0);
+  `,
+];
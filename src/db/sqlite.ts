@@ -0,0 +1,41 @@
+import { open, Database } from 'sqlite';
+import sqlite3 from 'sqlite3';
+
+export type { Database };
+
+/**
+ * Opens (or creates) the off-chain SQLite database and brings its schema up
+ * to date.
+ *
+ * @description Migrations are applied in order inside a transaction each, and
+ * the number applied is kept in `PRAGMA user_version`, so opening an existing
+ * file only runs the migrations it hasn't seen yet.
+ *
+ * @param filename Database file, or `:memory:` for a throwaway database
+ * @param migrations The schema of this kind of file, e.g. `KEEPER_MIGRATIONS`
+ * @returns The open database
+ */
+export async function openDatabase(
+  filename: string,
+  migrations: string[]
+): Promise<Database> {
+  const db = await open({ filename, driver: sqlite3.Database });
+  await db.exec('PRAGMA journal_mode = WAL');
+
+  const { user_version: version } = (await db.get<{ user_version: number }>(
+    'PRAGMA user_version'
+  ))!;
+  for (let i = version; i < migrations.length; i++) {
+    await db.exec('BEGIN');
+    try {
+      await db.exec(migrations[i]);
+      await db.exec(`PRAGMA user_version = ${i + 1}`);
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  return db;
+}
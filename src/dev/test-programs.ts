@@ -0,0 +1,267 @@
+import { randomBytes } from 'crypto';
+import zlib from 'zlib';
+import { ethers } from 'ethers';
+import { getExternalContractInstance } from '../../config/abis';
+import { describeDecodedError, revertDecoder } from '../sdk/revert-decoder';
+
+/** Nitro's Stylus discriminant plus the "no dictionary" byte. */
+const STYLUS_HEADER = '0xeff00000';
+
+/** Bytes of the constructor prelude `stylusInitCode` prepends. */
+const PRELUDE_LENGTH = 12;
+
+/**
+ * Builds a minimal Stylus WASM module whose `user_entrypoint` returns 0.
+ *
+ * @description The entrypoint pushes and drops `nonce` first, so every nonce
+ * yields different code, and so a different codehash for the cache.
+ *
+ * @param nonce Any 64-bit value
+ * @returns The raw (uncompressed) WASM binary
+ */
+export function buildTestProgramWasm(nonce: bigint): Uint8Array {
+  const name = (text: string) => [text.length, ...Buffer.from(text)];
+  const section = (id: number, content: number[]) => [
+    id,
+    ...unsignedLeb128(content.length),
+    ...content,
+  ];
+  // locals: none; i64.const nonce; drop; i32.const 0; end
+  const body = [0x00, 0x42, ...signedLeb128(nonce), 0x1a, 0x41, 0x00, 0x0b];
+
+  return Uint8Array.from([
+    ...[0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00],
+    // (type (func (param i32) (result i32)))
+    ...section(0x01, [0x01, 0x60, 0x01, 0x7f, 0x01, 0x7f]),
+    ...section(0x03, [0x01, 0x00]),
+    // (memory 1)
+    ...section(0x05, [0x01, 0x00, 0x01]),
+    ...section(0x07, [
+      0x02,
+      ...name('memory'),
+      0x02,
+      0x00,
+      ...name('user_entrypoint'),
+      0x00,
+      0x00,
+    ]),
+    ...section(0x0a, [0x01, ...unsignedLeb128(body.length), ...body]),
+  ]);
+}
+
+/**
+ * Wraps a WASM module into deployable init code, as `cargo stylus deploy`
+ * does: a constructor returning `0xEFF000`, a dictionary byte and the
+ * brotli-compressed module.
+ */
+export function stylusInitCode(wasm: Uint8Array): string {
+  const runtime = ethers.concat([STYLUS_HEADER, zlib.brotliCompressSync(wasm)]);
+  const length = ethers.dataLength(runtime);
+  if (length > 0xffff) throw new Error('Program too large for the prelude');
+  // PUSH2 length DUP1 PUSH1 12 PUSH1 0 CODECOPY PUSH1 0 RETURN
+  const prelude = ethers.concat([
+    '0x61',
+    ethers.toBeHex(length, 2),
+    '0x8060',
+    ethers.toBeHex(PRELUDE_LENGTH, 1),
+    '0x6000396000f3',
+  ]);
+  return ethers.concat([prelude, runtime]);
+}
+
+export interface DeployTestProgramsOptions {
+  count: number;
+  arbWasmAddress: string;
+  /** Ceiling for each activation's data fee; defaults to 0.01 ETH. */
+  maxActivationFee?: bigint;
+}
+
+export interface DeployedTestProgram {
+  address: string;
+  codehash: string;
+  deployTransactionHash: string;
+  activationTransactionHash: string;
+  /** Stylus version the program was activated with. */
+  version: bigint;
+  dataFee: bigint;
+}
+
+/**
+ * Deploys and activates `count` test programs with distinct code.
+ *
+ * @description Each program is deployed with a CREATE transaction, then
+ * activated through ArbWasm for the data fee a static call quotes. Needs an
+ * Arbitrum node: other chains reject new code starting with `0xEF` (EIP-3541).
+ *
+ * @param signer Funded account paying for deployments and activations
+ * @returns The programs, in deployment order
+ */
+export async function deployTestPrograms(
+  signer: ethers.Signer,
+  options: DeployTestProgramsOptions
+): Promise<DeployedTestProgram[]> {
+  const arbWasm = getExternalContractInstance(
+    'ArbWasm',
+    options.arbWasmAddress,
+    signer
+  );
+  const maxActivationFee =
+    options.maxActivationFee ?? ethers.parseEther('0.01');
+  const programs: DeployedTestProgram[] = [];
+
+  for (let i = 0; i < options.count; i++) {
+    const nonce = BigInt.asIntN(64, BigInt(ethers.hexlify(randomBytes(8))));
+    const deployment = await signer.sendTransaction({
+      data: stylusInitCode(buildTestProgramWasm(nonce)),
+    });
+    const deployed = await deployment.wait();
+    if (!deployed?.contractAddress) {
+      throw new Error(`Deployment ${deployment.hash} created no contract`);
+    }
+    const address = deployed.contractAddress;
+
+    const [version, dataFee]: [bigint, bigint] =
+      await arbWasm.activateProgram.staticCall(address, {
+        value: maxActivationFee,
+      });
+    if (dataFee > maxActivationFee) {
+      throw new Error(
+        `Activating ${address} costs ${dataFee}, above ${maxActivationFee}`
+      );
+    }
+    const activation = await (
+      await arbWasm.activateProgram(address, { value: dataFee })
+    ).wait();
+
+    programs.push({
+      address,
+      codehash: ethers.keccak256(await signer.provider!.getCode(address)),
+      deployTransactionHash: deployment.hash,
+      activationTransactionHash: activation.hash,
+      version,
+      dataFee,
+    });
+  }
+  return programs;
+}
+
+export interface PlaceCacheManagerBidsOptions {
+  cacheManagerAddress: string;
+  arbWasmCacheAddress: string;
+  /** Bids are drawn uniformly from [minBid, maxBid]. */
+  minBid: bigint;
+  maxBid: bigint;
+}
+
+export type CacheManagerBidStatus = 'placed' | 'cached' | 'no-code' | 'failed';
+
+export interface CacheManagerBidResult {
+  contractAddress: string;
+  status: CacheManagerBidStatus;
+  codehash?: string;
+  bid?: bigint;
+  transactionHash?: string;
+  /** Decoded revert reason when `status` is `failed`. */
+  error?: string;
+}
+
+/**
+ * Bids for programs directly on the CacheManager, bypassing the CMA.
+ *
+ * @description Programs without code and programs whose codehash is already
+ * cached (`placeBid` would revert with `AlreadyCached`) are skipped. A
+ * failing bid is recorded and the next program is tried.
+ *
+ * @param signer Account paying the bids
+ * @param contracts Program addresses
+ * @returns One result per program, in input order
+ */
+export async function placeCacheManagerBids(
+  signer: ethers.Signer,
+  contracts: string[],
+  options: PlaceCacheManagerBidsOptions
+): Promise<CacheManagerBidResult[]> {
+  if (options.maxBid < options.minBid) {
+    throw new Error('maxBid must not be below minBid');
+  }
+  const provider = signer.provider!;
+  const cacheManager = getExternalContractInstance(
+    'CacheManager',
+    options.cacheManagerAddress,
+    signer
+  );
+  const arbWasmCache = getExternalContractInstance(
+    'ArbWasmCache',
+    options.arbWasmCacheAddress,
+    provider
+  );
+  const results: CacheManagerBidResult[] = [];
+
+  for (const contractAddress of contracts) {
+    const code = await provider.getCode(contractAddress);
+    if (code === '0x') {
+      results.push({ contractAddress, status: 'no-code' });
+      continue;
+    }
+    const codehash = ethers.keccak256(code);
+    if (await arbWasmCache.codehashIsCached(codehash)) {
+      results.push({ contractAddress, codehash, status: 'cached' });
+      continue;
+    }
+
+    const range = options.maxBid - options.minBid + 1n;
+    const bid =
+      options.minBid + (BigInt(ethers.hexlify(randomBytes(32))) % range);
+    try {
+      const receipt = await (
+        await cacheManager.placeBid(contractAddress, { value: bid })
+      ).wait();
+      results.push({
+        contractAddress,
+        codehash,
+        status: 'placed',
+        bid,
+        transactionHash: receipt.hash,
+      });
+    } catch (error) {
+      const decoded = revertDecoder.decodeError(error);
+      results.push({
+        contractAddress,
+        codehash,
+        status: 'failed',
+        bid,
+        error: decoded
+          ? describeDecodedError(decoded)
+          : error instanceof Error
+          ? error.message
+          : String(error),
+      });
+    }
+  }
+  return results;
+}
+
+function unsignedLeb128(value: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value !== 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (value !== 0);
+  return bytes;
+}
+
+function signedLeb128(value: bigint): number[] {
+  const bytes: number[] = [];
+  for (;;) {
+    const byte = Number(value & 0x7fn);
+    value >>= 7n;
+    const signBit = (byte & 0x40) !== 0;
+    if ((value === 0n && !signBit) || (value === -1n && signBit)) {
+      bytes.push(byte);
+      return bytes;
+    }
+    bytes.push(byte | 0x80);
+  }
+}
@@ -0,0 +1,318 @@
+import http from 'http';
+import { ethers } from 'ethers';
+import { Logger } from '../keeper/types';
+import { buildStatement } from './statement';
+import { IndexedContractEvent, IndexerStore, Page } from './store';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1_000;
+
+/** One page of a route's results, in chain order. */
+export interface ApiPage<T> {
+  items: T[];
+  offset: number;
+  limit: number;
+  /** Offset of the next page; `null` on the last one. */
+  nextOffset: number | null;
+  /** Block the index reaches, so clients can tell how fresh the data is. */
+  lastIndexedBlock: number | null;
+}
+
+/**
+ * A registration rebuilt from its events. `enabled` isn't emitted by the
+ * CMA, so it isn't known here.
+ */
+export interface IndexedRegistration {
+  user: string;
+  contractAddress: string;
+  maxBid: bigint;
+  autoActivate?: boolean;
+  maxActivationCost?: bigint;
+  /** Block of the `ContractAdded` event. */
+  addedBlock: number;
+  /** Block of the latest change. */
+  updatedBlock: number;
+}
+
+export interface IndexerApiServerOptions {
+  store: IndexerStore;
+  port: number;
+  /** Defaults to loopback; the API is meant for local dashboards. */
+  host?: string;
+  logger?: Logger;
+}
+
+/** Query parameters every route accepts. */
+interface Query extends Required<Page> {
+  fromBlock?: number;
+  toBlock?: number;
+  params: URLSearchParams;
+}
+
+type Route = (
+  query: Query,
+  address: string | undefined
+) => Promise<Omit<ApiPage<unknown>, 'lastIndexedBlock'>>;
+
+class BadRequestError extends Error {}
+
+/**
+ * Serves the indexed CMA data as read-only JSON routes.
+ *
+ * @description Routes:
+ * - `GET /users/:address/contracts`: current registrations, rebuilt from the
+ *   registration events up to `toBlock`
+ * - `GET /users/:address/balance-history`: escrow ledger entries with the
+ *   running balance (see `buildStatement`)
+ * - `GET /contracts/:address/bids`: `BidPlaced` and `BidError` events
+ * - `GET /activations`: activation events, optionally `?user=` / `?contract=`
+ * - `GET /params/history`: owner parameter changes
+ * - `GET /market/snapshots`: CacheManager size, queue and decay per round
+ *
+ * Every route takes `fromBlock`/`toBlock` (inclusive) and `limit`/`offset`
+ * and answers with an `ApiPage`. Amounts are decimal wei strings. Bad
+ * parameters get a 400 with `{ error }`.
+ */
+export class IndexerApiServer {
+  private readonly options: IndexerApiServerOptions;
+  private readonly store: IndexerStore;
+  private readonly logger: Logger;
+  private readonly routes: [RegExp, Route][];
+  private server?: http.Server;
+
+  constructor(options: IndexerApiServerOptions) {
+    this.options = options;
+    this.store = options.store;
+    this.logger = options.logger ?? console;
+    this.routes = [
+      [/^\/users\/([^/]+)\/contracts$/, (q, a) => this.userContracts(q, a!)],
+      [
+        /^\/users\/([^/]+)\/balance-history$/,
+        (q, a) => this.balanceHistory(q, a!),
+      ],
+      [/^\/contracts\/([^/]+)\/bids$/, (q, a) => this.contractBids(q, a!)],
+      [/^\/activations$/, (q) => this.activations(q)],
+      [/^\/params\/history$/, (q) => this.parameterHistory(q)],
+      [/^\/market\/snapshots$/, (q) => this.marketSnapshots(q)],
+    ];
+  }
+
+  /** Starts listening; resolves with the bound port (useful with port 0). */
+  start(): Promise<number> {
+    const server = http.createServer((request, response) => {
+      this.handle(request)
+        .then(({ status, body }) => {
+          response
+            .writeHead(status, {
+              'Content-Type': 'application/json; charset=utf-8',
+              'Access-Control-Allow-Origin': '*',
+            })
+            .end(
+              JSON.stringify(body, (_key, value) =>
+                typeof value === 'bigint' ? value.toString() : value
+              )
+            );
+        })
+        .catch((error) => {
+          this.logger.error('❌ Indexer API request failed:', error);
+          response.writeHead(500).end();
+        });
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host ?? '127.0.0.1', () => {
+        resolve((server.address() as { port: number }).port);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private async handle(
+    request: http.IncomingMessage
+  ): Promise<{ status: number; body: unknown }> {
+    if (request.method !== 'GET') {
+      return { status: 405, body: { error: 'Only GET is supported' } };
+    }
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    for (const [pattern, route] of this.routes) {
+      const match = pattern.exec(url.pathname);
+      if (!match) continue;
+      try {
+        const address =
+          match[1] === undefined
+            ? undefined
+            : parseAddress(decodeURIComponent(match[1]));
+        const page = await route(parseQuery(url.searchParams), address);
+        const lastIndexedBlock =
+          (await this.store.getLastIndexedBlock()) ?? null;
+        return { status: 200, body: { ...page, lastIndexedBlock } };
+      } catch (error) {
+        if (!(error instanceof BadRequestError)) throw error;
+        return { status: 400, body: { error: error.message } };
+      }
+    }
+    return { status: 404, body: { error: `No route for ${url.pathname}` } };
+  }
+
+  private async userContracts(query: Query, user: string) {
+    const events = await this.store.getContractEvents({
+      user,
+      toBlock: query.toBlock,
+    });
+    const registrations = [...foldRegistrations(events).values()].filter(
+      ({ updatedBlock }) => updatedBlock >= (query.fromBlock ?? 0)
+    );
+    return slicePage(registrations, query);
+  }
+
+  private async balanceHistory(query: Query, user: string) {
+    const lastIndexed = await this.store.getLastIndexedBlock();
+    const fromBlock = query.fromBlock ?? 0;
+    const toBlock = Math.min(query.toBlock ?? Infinity, lastIndexed ?? -1);
+    if (fromBlock > toBlock) return slicePage([], query);
+    const statement = await buildStatement(this.store, user, {
+      fromBlock,
+      toBlock,
+    });
+    return slicePage(statement.entries, query);
+  }
+
+  private async contractBids(query: Query, contractAddress: string) {
+    return fetchPage(query, (page) =>
+      this.store.getBids({ ...blockRange(query), ...page, contractAddress })
+    );
+  }
+
+  private async activations(query: Query) {
+    const user = optionalAddress(query.params, 'user');
+    const contractAddress = optionalAddress(query.params, 'contract');
+    return fetchPage(query, (page) =>
+      this.store.getActivations({
+        ...blockRange(query),
+        ...page,
+        user,
+        contractAddress,
+      })
+    );
+  }
+
+  private async parameterHistory(query: Query) {
+    return fetchPage(query, (page) =>
+      this.store.getParameterUpdates({ ...blockRange(query), ...page })
+    );
+  }
+
+  private async marketSnapshots(query: Query) {
+    return fetchPage(query, (page) =>
+      this.store.getMarketSnapshots({ ...blockRange(query), ...page })
+    );
+  }
+}
+
+/** Current registrations per contract, dropping removed ones. */
+function foldRegistrations(
+  events: IndexedContractEvent[]
+): Map<string, IndexedRegistration> {
+  const registrations = new Map<string, IndexedRegistration>();
+  for (const event of events) {
+    const current = registrations.get(event.contractAddress);
+    switch (event.event) {
+      case 'ContractAdded':
+        registrations.set(event.contractAddress, {
+          user: event.user,
+          contractAddress: event.contractAddress,
+          maxBid: event.maxBid!,
+          addedBlock: event.blockNumber,
+          updatedBlock: event.blockNumber,
+        });
+        continue;
+      case 'ContractRemoved':
+        registrations.delete(event.contractAddress);
+        continue;
+    }
+    if (!current) continue;
+    current.updatedBlock = event.blockNumber;
+    if (event.maxBid !== undefined) current.maxBid = event.maxBid;
+    if (event.autoActivate !== undefined) {
+      current.autoActivate = event.autoActivate;
+    }
+    if (event.maxActivationCost !== undefined) {
+      current.maxActivationCost = event.maxActivationCost;
+    }
+  }
+  return registrations;
+}
+
+/** Reads one more row than the page holds to know whether another follows. */
+async function fetchPage<T>(
+  query: Query,
+  read: (page: Required<Page>) => Promise<T[]>
+) {
+  const rows = await read({ limit: query.limit + 1, offset: query.offset });
+  return toPage(rows, query);
+}
+
+function slicePage<T>(items: T[], query: Query) {
+  return toPage(
+    items.slice(query.offset, query.offset + query.limit + 1),
+    query
+  );
+}
+
+function toPage<T>(rows: T[], { limit, offset }: Query) {
+  return {
+    items: rows.slice(0, limit),
+    offset,
+    limit,
+    nextOffset: rows.length > limit ? offset + limit : null,
+  };
+}
+
+function blockRange({ fromBlock, toBlock }: Query) {
+  return { fromBlock, toBlock };
+}
+
+function parseQuery(params: URLSearchParams): Query {
+  const integer = (name: string, min = 0, max = Number.MAX_SAFE_INTEGER) => {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    if (!/^\d+$/.test(value) || Number(value) < min || Number(value) > max) {
+      throw new BadRequestError(
+        `${name} must be an integer between ${min} and ${max}`
+      );
+    }
+    return Number(value);
+  };
+  return {
+    fromBlock: integer('fromBlock'),
+    toBlock: integer('toBlock'),
+    limit: integer('limit', 1, MAX_LIMIT) ?? DEFAULT_LIMIT,
+    offset: integer('offset') ?? 0,
+    params,
+  };
+}
+
+function parseAddress(value: string): string {
+  if (!ethers.isAddress(value)) {
+    throw new BadRequestError(`${value} is not an address`);
+  }
+  return ethers.getAddress(value);
+}
+
+function optionalAddress(
+  params: URLSearchParams,
+  name: string
+): string | undefined {
+  const value = params.get(name);
+  return value === null ? undefined : parseAddress(value);
+}
@@ -0,0 +1,380 @@
+import { ethers } from 'ethers';
+import {
+  CacheManagerAutomation,
+  ICacheManager,
+  ICacheManager__factory,
+} from '../../build/typechain-types';
+import { PollingService } from '../keeper/polling-service';
+import { Logger } from '../keeper/types';
+import { DecodedEvent, EventDecoder } from '../sdk/event-decoder';
+import {
+  PARAMETER_NAMES,
+  ParameterName,
+  updateEventName,
+} from '../sdk/parameters';
+import {
+  EventLocation,
+  IndexedBatch,
+  IndexedBlock,
+  IndexedMarketSnapshot,
+  IndexerStore,
+} from './store';
+
+const DEFAULT_MAX_BLOCK_RANGE = 2_000;
+const DEFAULT_REORG_DEPTH = 128;
+const DEFAULT_INTERVAL_SECONDS = 15;
+
+const PARAMETER_EVENTS = new Map<string, ParameterName>(
+  PARAMETER_NAMES.map((name) => [updateEventName(name), name])
+);
+
+export interface CmaIndexerOptions {
+  cma: CacheManagerAutomation;
+  store: IndexerStore;
+  /** First block to index into an empty store, e.g. the CMA deployment block. */
+  fromBlock?: number;
+  /** Largest block range requested from `eth_getLogs` at once. */
+  maxBlockRange?: number;
+  /** Blocks left unindexed behind the head. */
+  confirmations?: number;
+  /** Stored blocks the reorg check walks back through before giving up. */
+  reorgDepth?: number;
+  intervalSeconds?: number;
+  logger?: Logger;
+}
+
+export interface IndexRoundResult {
+  /** Block the store was rolled back to after a reorg, if there was one. */
+  rolledBackTo?: number;
+  /** Range indexed this round; `fromBlock > toBlock` when already caught up. */
+  fromBlock: number;
+  toBlock: number;
+  /** Logs read from both contracts, including kinds that aren't indexed. */
+  events: number;
+}
+
+/**
+ * Indexes CacheManagerAutomation and BiddingEscrow events into SQLite.
+ *
+ * @description Each round first checks that the newest indexed block is still
+ * canonical; if not, it walks back through the stored block hashes to the
+ * last common block and rolls the store back to it. It then reads logs of
+ * both contracts in `maxBlockRange` chunks up to the head (minus
+ * `confirmations`), storing each chunk with its checkpoint in one
+ * transaction, so a restart resumes after the last stored chunk. The last
+ * chunk of a round also stores a snapshot of the CacheManager's size, queue
+ * and decay at its final block.
+ */
+export class CmaIndexer extends PollingService {
+  protected readonly name = 'Indexer';
+  private readonly cma: CacheManagerAutomation;
+  private readonly store: IndexerStore;
+  private readonly fromBlock: number;
+  private readonly maxBlockRange: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+
+  constructor(options: CmaIndexerOptions) {
+    super(options.intervalSeconds ?? DEFAULT_INTERVAL_SECONDS, options.logger);
+    this.cma = options.cma;
+    this.store = options.store;
+    this.fromBlock = options.fromBlock ?? 0;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    this.confirmations = options.confirmations ?? 0;
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  }
+
+  async runOnce(): Promise<IndexRoundResult> {
+    const provider = this.getProvider();
+    const cmaAddress = await this.cma.getAddress();
+    const storedCma = await this.store.getCmaAddress();
+    if (storedCma === undefined) {
+      await this.store.start(cmaAddress, this.fromBlock);
+    } else if (storedCma.toLowerCase() !== cmaAddress.toLowerCase()) {
+      throw new Error(
+        `The database indexes ${storedCma}, not ${cmaAddress}; use another file`
+      );
+    }
+
+    const rolledBackTo = await this.rollbackReorg(provider);
+    const fromBlock = (await this.store.getLastIndexedBlock())! + 1;
+    const head = (await provider.getBlockNumber()) - this.confirmations;
+    const [escrow, cacheManagerAddress] = await Promise.all([
+      this.cma.escrow(),
+      this.cma.cacheManager(),
+    ]);
+    const cacheManager = ICacheManager__factory.connect(
+      cacheManagerAddress,
+      provider
+    );
+    const decoder = new EventDecoder({
+      CacheManagerAutomation: cmaAddress,
+      BiddingEscrow: escrow,
+    });
+
+    let events = 0;
+    for (let from = fromBlock; from <= head; from += this.maxBlockRange) {
+      const to = Math.min(from + this.maxBlockRange - 1, head);
+      const logs = await provider.getLogs({
+        address: [cmaAddress, escrow],
+        fromBlock: from,
+        toBlock: to,
+      });
+      const batch = await this.decodeBatch(provider, decoder, logs, to);
+      if (to === head) {
+        const block = batch.blocks.find(
+          ({ blockNumber }) => blockNumber === to
+        )!;
+        batch.marketSnapshot = await this.readMarket(cacheManager, block);
+      }
+      await this.store.storeBatch(batch, to);
+      events += logs.length;
+    }
+
+    if (head >= fromBlock) {
+      this.logger.log(
+        `📚 Indexed blocks ${fromBlock}-${head} (${events} events)`
+      );
+    }
+    return { rolledBackTo, fromBlock, toBlock: head, events };
+  }
+
+  /**
+   * Rolls the store back to the newest indexed block still on the chain.
+   *
+   * @returns That block, when a reorg was found
+   */
+  private async rollbackReorg(
+    provider: ethers.Provider
+  ): Promise<number | undefined> {
+    const recent = await this.store.getRecentBlocks(this.reorgDepth);
+    for (const [i, block] of recent.entries()) {
+      const current = await provider.getBlock(block.blockNumber);
+      if (current?.hash !== block.blockHash) continue;
+      if (i === 0) return undefined;
+
+      this.logger.warn(
+        `⚠️ Reorg: rolling back to block ${block.blockNumber} (${i} indexed blocks replaced)`
+      );
+      await this.store.rollbackTo(block.blockNumber);
+      return block.blockNumber;
+    }
+    if (recent.length === 0) return undefined;
+    throw new Error(
+      `None of the last ${recent.length} indexed blocks is canonical any more; re-index into an empty database`
+    );
+  }
+
+  /** CacheManager state at `block`; a failing read skips the snapshot. */
+  private async readMarket(
+    cacheManager: ICacheManager,
+    block: IndexedBlock
+  ): Promise<IndexedMarketSnapshot | undefined> {
+    const overrides = { blockTag: block.blockNumber };
+    try {
+      const [cacheSize, queueSize, decay] = await Promise.all([
+        cacheManager.cacheSize(overrides),
+        cacheManager.queueSize(overrides),
+        cacheManager.decay(overrides),
+      ]);
+      return {
+        blockNumber: block.blockNumber,
+        timestamp: block.timestamp,
+        cacheSize,
+        queueSize,
+        decay,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Could not snapshot the market at block ${block.blockNumber}:`,
+        error
+      );
+      return undefined;
+    }
+  }
+
+  private async decodeBatch(
+    provider: ethers.Provider,
+    decoder: EventDecoder,
+    logs: ethers.Log[],
+    toBlock: number
+  ): Promise<IndexedBatch> {
+    const blocks = new Map<number, IndexedBlock>();
+    for (const number of new Set([
+      ...logs.map((log) => log.blockNumber),
+      toBlock,
+    ])) {
+      const block = await provider.getBlock(number);
+      if (!block?.hash) throw new Error(`Block ${number} not found`);
+      blocks.set(number, {
+        blockNumber: number,
+        blockHash: block.hash,
+        timestamp: block.timestamp,
+      });
+    }
+
+    const batch: IndexedBatch = {
+      blocks: [...blocks.values()],
+      contractEvents: [],
+      bids: [],
+      activations: [],
+      balanceUpdates: [],
+      parameterUpdates: [],
+      escrowTransfers: [],
+    };
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber)!;
+      // The range moved under us; the next round's reorg check sorts it out.
+      if (log.blockHash !== block.blockHash) {
+        throw new Error(`Block ${log.blockNumber} changed while indexing`);
+      }
+      addEvent(batch, decoder.decodeLog(log), block.timestamp);
+    }
+    return batch;
+  }
+
+  private getProvider(): ethers.Provider {
+    const provider = this.cma.runner?.provider;
+    if (!provider) {
+      throw new Error('CacheManagerAutomation must be connected to a provider');
+    }
+    return provider;
+  }
+}
+
+/** Files a decoded event under its table; events not indexed are dropped. */
+function addEvent(
+  batch: IndexedBatch,
+  event: DecodedEvent,
+  timestamp: number
+): void {
+  const at: EventLocation = {
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    txHash: event.transactionHash,
+    timestamp,
+  };
+
+  if (event.contract === 'BiddingEscrow') {
+    if (event.name === 'Deposited' || event.name === 'Withdrawn') {
+      batch.escrowTransfers.push({
+        ...at,
+        payee: event.args.payee,
+        kind: event.name === 'Deposited' ? 'deposit' : 'withdrawal',
+        amount: event.args.weiAmount,
+      });
+    }
+    return;
+  }
+  if (event.contract !== 'CacheManagerAutomation') return;
+
+  switch (event.name) {
+    case 'ContractAdded':
+    case 'ContractUpdated':
+      batch.contractEvents.push({
+        ...at,
+        event: event.name,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        maxBid: event.args.maxBid,
+      });
+      return;
+    case 'ContractRemoved':
+      batch.contractEvents.push({
+        ...at,
+        event: event.name,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+      });
+      return;
+    case 'ContractAutoActivateUpdated':
+      batch.contractEvents.push({
+        ...at,
+        event: event.name,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        autoActivate: event.args.autoActivate,
+      });
+      return;
+    case 'ContractMaxActivationCostUpdated':
+      batch.contractEvents.push({
+        ...at,
+        event: event.name,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        maxActivationCost: event.args.maxActivationCost,
+      });
+      return;
+    case 'BidPlaced':
+      batch.bids.push({
+        ...at,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        outcome: 'placed',
+        bidAmount: event.args.bidAmount,
+        maxBid: event.args.maxBid,
+        userBalance: event.args.userBalance,
+      });
+      return;
+    case 'BidError':
+      batch.bids.push({
+        ...at,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        outcome: 'error',
+        bidAmount: event.args.bid,
+        reason: event.args.reason,
+      });
+      return;
+    case 'ActivationPerformed':
+      batch.activations.push({
+        ...at,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        outcome: 'performed',
+        version: Number(event.args.version),
+        dataFee: event.args.dataFee,
+        spent: event.args.spent,
+        refund: event.args.refund,
+        userBalance: event.args.userBalance,
+      });
+      return;
+    case 'ActivationError':
+      batch.activations.push({
+        ...at,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        outcome: 'error',
+        value: event.args.value,
+        reason: event.args.reason,
+      });
+      return;
+    case 'ActivationRevertData':
+      batch.activations.push({
+        ...at,
+        user: event.args.user,
+        contractAddress: event.args.contractAddress,
+        outcome: 'revert-data',
+        revertData: event.args.data,
+      });
+      return;
+    case 'BalanceUpdated':
+      batch.balanceUpdates.push({
+        ...at,
+        user: event.args.user,
+        newBalance: event.args.newBalance,
+      });
+      return;
+  }
+
+  const parameter = PARAMETER_EVENTS.get(event.name);
+  if (parameter) {
+    const args = event.args as { oldValue: bigint; newValue: bigint };
+    batch.parameterUpdates.push({
+      ...at,
+      parameter,
+      oldValue: args.oldValue,
+      newValue: args.newValue,
+    });
+  }
+}
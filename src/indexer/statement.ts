@@ -0,0 +1,268 @@
+import { ethers } from 'ethers';
+import type { BiddingEscrow } from '../../build/typechain-types';
+import { EventLocation, IndexerStore } from './store';
+
+/**
+ * What moved a user's escrow balance. Refunds are the parts of a bid or an
+ * activation pull the CMA deposited back (failed `placeBid`, activation
+ * refunds and failed activations).
+ */
+export type LedgerEntryKind =
+  | 'deposit'
+  | 'bid'
+  | 'bid-refund'
+  | 'activation'
+  | 'activation-refund'
+  | 'withdrawal';
+
+export interface LedgerEntry extends EventLocation {
+  kind: LedgerEntryKind;
+  /** Signed change of the escrow balance, in wei. */
+  amount: bigint;
+  /** Balance after the entry. */
+  balance: bigint;
+  /** Program the bid or activation was for. */
+  contractAddress?: string;
+}
+
+/** Net amounts over the statement range, all non-negative in practice. */
+export interface StatementTotals {
+  deposits: bigint;
+  /** Bid pulls minus bid refunds. */
+  bids: bigint;
+  /** Activation pulls minus refunds: what ArbWasm kept. */
+  activations: bigint;
+  withdrawals: bigint;
+}
+
+export interface StatementReconciliation {
+  /** `escrow.depositsOf(user)` at the closing block. */
+  onChainBalance: bigint;
+  /** On-chain minus ledger closing balance. */
+  difference: bigint;
+  balanced: boolean;
+}
+
+export interface Statement {
+  user: string;
+  /** Inclusive block range. */
+  fromBlock: number;
+  toBlock: number;
+  openingBalance: bigint;
+  closingBalance: bigint;
+  totals: StatementTotals;
+  entries: LedgerEntry[];
+  reconciliation?: StatementReconciliation;
+}
+
+export interface StatementRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+/**
+ * Rebuilds a user's escrow ledger from the indexed events.
+ *
+ * @description Every escrow `Deposited`/`Withdrawn` of the user is an entry.
+ * It is labelled by the next CMA event for the user in the same transaction:
+ * `BidPlaced`/`BidError` make it a bid pull or refund,
+ * `ActivationPerformed`/`ActivationError` an activation pull or refund, and
+ * `BalanceUpdated` (from `fundBalance` or `insertContract`) a deposit. A
+ * `Withdrawn` followed by none of them is `withdrawBalance`. Zero-value
+ * transfers are left out. The opening balance sums every indexed transfer
+ * before `fromBlock`, so the index must start at or before the user's first
+ * deposit for the statement to reconcile.
+ *
+ * @throws If the index doesn't reach `toBlock` yet
+ */
+export async function buildStatement(
+  store: IndexerStore,
+  user: string,
+  range: StatementRange
+): Promise<Statement> {
+  const lastIndexed = await store.getLastIndexedBlock();
+  if (lastIndexed === undefined || lastIndexed < range.toBlock) {
+    throw new Error(
+      `The index only reaches block ${
+        lastIndexed ?? 'none'
+      }; run the indexer up to ${range.toBlock} first`
+    );
+  }
+  user = ethers.getAddress(user);
+  const filter = { user, toBlock: range.toBlock };
+  const [transfers, bids, activations, balanceUpdates] = await Promise.all([
+    store.getEscrowTransfers(filter),
+    store.getBids(filter),
+    store.getActivations(filter),
+    store.getBalanceUpdates(filter),
+  ]);
+
+  // Events that explain a transfer, per transaction, in log order.
+  const markers = new Map<
+    string,
+    {
+      logIndex: number;
+      kind: 'bid' | 'activation' | 'deposit';
+      contractAddress?: string;
+    }[]
+  >();
+  const mark = (
+    at: EventLocation,
+    kind: 'bid' | 'activation' | 'deposit',
+    contractAddress?: string
+  ) => {
+    const list = markers.get(at.txHash) ?? [];
+    list.push({ logIndex: at.logIndex, kind, contractAddress });
+    markers.set(at.txHash, list);
+  };
+  for (const bid of bids) mark(bid, 'bid', bid.contractAddress);
+  for (const activation of activations) {
+    if (activation.outcome !== 'revert-data') {
+      mark(activation, 'activation', activation.contractAddress);
+    }
+  }
+  for (const update of balanceUpdates) mark(update, 'deposit');
+  for (const list of markers.values()) {
+    list.sort((a, b) => a.logIndex - b.logIndex);
+  }
+
+  let balance = 0n;
+  let openingBalance = 0n;
+  const entries: LedgerEntry[] = [];
+  const totals: StatementTotals = {
+    deposits: 0n,
+    bids: 0n,
+    activations: 0n,
+    withdrawals: 0n,
+  };
+  for (const transfer of transfers) {
+    if (transfer.amount === 0n) continue;
+    const credit = transfer.kind === 'deposit';
+    const amount = credit ? transfer.amount : -transfer.amount;
+    balance += amount;
+    if (transfer.blockNumber < range.fromBlock) {
+      openingBalance = balance;
+      continue;
+    }
+
+    const marker = markers
+      .get(transfer.txHash)
+      ?.find(({ logIndex }) => logIndex > transfer.logIndex);
+    const kind: LedgerEntryKind =
+      marker?.kind === 'bid'
+        ? credit
+          ? 'bid-refund'
+          : 'bid'
+        : marker?.kind === 'activation'
+        ? credit
+          ? 'activation-refund'
+          : 'activation'
+        : credit
+        ? 'deposit'
+        : 'withdrawal';
+    if (kind === 'deposit') totals.deposits += amount;
+    else if (kind === 'withdrawal') totals.withdrawals -= amount;
+    else if (kind.startsWith('bid')) totals.bids -= amount;
+    else totals.activations -= amount;
+
+    entries.push({
+      blockNumber: transfer.blockNumber,
+      logIndex: transfer.logIndex,
+      txHash: transfer.txHash,
+      timestamp: transfer.timestamp,
+      kind,
+      amount,
+      balance,
+      contractAddress: marker?.contractAddress,
+    });
+  }
+
+  return {
+    user,
+    fromBlock: range.fromBlock,
+    toBlock: range.toBlock,
+    openingBalance,
+    closingBalance: balance,
+    totals,
+    entries,
+  };
+}
+
+/**
+ * Compares the ledger's closing balance with the escrow at the closing block.
+ *
+ * @param escrow BiddingEscrow connected to a node that serves `toBlock`
+ */
+export async function reconcileStatement(
+  statement: Statement,
+  escrow: Pick<BiddingEscrow, 'depositsOf'>
+): Promise<Statement> {
+  const onChainBalance = await escrow.depositsOf(statement.user, {
+    blockTag: statement.toBlock,
+  });
+  const difference = onChainBalance - statement.closingBalance;
+  return {
+    ...statement,
+    reconciliation: { onChainBalance, difference, balanced: difference === 0n },
+  };
+}
+
+/**
+ * Last block mined strictly before `timestamp`, by binary search.
+ *
+ * @returns -1 when even block 0 isn't earlier
+ */
+export async function findLastBlockBefore(
+  provider: ethers.Provider,
+  timestamp: number
+): Promise<number> {
+  let low = -1;
+  let high = await provider.getBlockNumber();
+  const timestampOf = async (number: number) => {
+    const block = await provider.getBlock(number);
+    if (!block) throw new Error(`Block ${number} not found`);
+    return block.timestamp;
+  };
+  if ((await timestampOf(high)) < timestamp) return high;
+  // Invariant: block `low` is before `timestamp` (or -1), `high` is not.
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await timestampOf(middle)) < timestamp) low = middle;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Renders a statement as CSV: an opening row, one row per entry and a
+ * closing row. Amounts are in ETH.
+ */
+export function statementToCsv(statement: Statement): string {
+  const eth = ethers.formatEther;
+  const rows = [
+    'block,timestamp,tx_hash,kind,contract,amount_eth,balance_eth',
+    `${statement.fromBlock},,,opening,,,${eth(statement.openingBalance)}`,
+    ...statement.entries.map((entry) =>
+      [
+        entry.blockNumber,
+        new Date(entry.timestamp * 1000).toISOString(),
+        entry.txHash,
+        entry.kind,
+        entry.contractAddress ?? '',
+        eth(entry.amount),
+        eth(entry.balance),
+      ].join(',')
+    ),
+    `${statement.toBlock},,,closing,,,${eth(statement.closingBalance)}`,
+  ];
+  return `${rows.join('\n')}\n`;
+}
+
+/** Renders a statement as JSON, amounts as decimal wei strings. */
+export function statementToJson(statement: Statement): string {
+  return JSON.stringify(
+    statement,
+    (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+    2
+  );
+}
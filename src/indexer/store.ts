@@ -0,0 +1,613 @@
+import { ethers } from 'ethers';
+import { Database, openDatabase } from '../db/sqlite';
+import { INDEXER_MIGRATIONS } from '../db/migrations';
+import type { ParameterName } from '../sdk/parameters';
+
+/** Where an indexed event was emitted. */
+export interface EventLocation {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  /** Unix seconds of the block. */
+  timestamp: number;
+}
+
+export type ContractEventName =
+  | 'ContractAdded'
+  | 'ContractUpdated'
+  | 'ContractRemoved'
+  | 'ContractAutoActivateUpdated'
+  | 'ContractMaxActivationCostUpdated';
+
+/** A registration change; only the fields its event carries are set. */
+export interface IndexedContractEvent extends EventLocation {
+  event: ContractEventName;
+  user: string;
+  contractAddress: string;
+  maxBid?: bigint;
+  autoActivate?: boolean;
+  maxActivationCost?: bigint;
+}
+
+/** A `BidPlaced` (`placed`) or `BidError` (`error`) event. */
+export interface IndexedBid extends EventLocation {
+  user: string;
+  contractAddress: string;
+  outcome: 'placed' | 'error';
+  bidAmount: bigint;
+  maxBid?: bigint;
+  userBalance?: bigint;
+  reason?: string;
+}
+
+/**
+ * An `ActivationPerformed` (`performed`), `ActivationError` (`error`) or
+ * `ActivationRevertData` (`revert-data`) event.
+ */
+export interface IndexedActivation extends EventLocation {
+  user: string;
+  contractAddress: string;
+  outcome: 'performed' | 'error' | 'revert-data';
+  version?: number;
+  dataFee?: bigint;
+  spent?: bigint;
+  refund?: bigint;
+  userBalance?: bigint;
+  /** Amount pulled from the escrow for a failed activation. */
+  value?: bigint;
+  reason?: string;
+  revertData?: string;
+}
+
+export interface IndexedBalanceUpdate extends EventLocation {
+  user: string;
+  newBalance: bigint;
+}
+
+/** One of the owner's `*Updated(oldValue, newValue)` events. */
+export interface IndexedParameterUpdate extends EventLocation {
+  parameter: ParameterName;
+  oldValue: bigint;
+  newValue: bigint;
+}
+
+/** A BiddingEscrow `Deposited` or `Withdrawn` event. */
+export interface IndexedEscrowTransfer extends EventLocation {
+  payee: string;
+  kind: 'deposit' | 'withdrawal';
+  amount: bigint;
+}
+
+/** CacheManager state read at the end of an indexer round. */
+export interface IndexedMarketSnapshot {
+  blockNumber: number;
+  /** Unix seconds of the block. */
+  timestamp: number;
+  cacheSize: bigint;
+  queueSize: bigint;
+  decay: bigint;
+}
+
+export interface IndexedBlock {
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+}
+
+/** Everything decoded from one `eth_getLogs` range. */
+export interface IndexedBatch {
+  /** Blocks holding the events, plus the range's last block. */
+  blocks: IndexedBlock[];
+  contractEvents: IndexedContractEvent[];
+  bids: IndexedBid[];
+  activations: IndexedActivation[];
+  balanceUpdates: IndexedBalanceUpdate[];
+  parameterUpdates: IndexedParameterUpdate[];
+  escrowTransfers: IndexedEscrowTransfer[];
+  /** Market state at the range's last block, when it could be read. */
+  marketSnapshot?: IndexedMarketSnapshot;
+}
+
+/** Narrows event queries; block bounds are inclusive. */
+export interface EventFilter extends Page {
+  user?: string;
+  contractAddress?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/** A window into results in chain order; unbounded by default. */
+export interface Page {
+  limit?: number;
+  offset?: number;
+}
+
+interface LocationRow {
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  timestamp: number;
+}
+
+interface ContractEventRow extends LocationRow {
+  event: ContractEventName;
+  user: string;
+  contract_address: string;
+  max_bid: string | null;
+  auto_activate: number | null;
+  max_activation_cost: string | null;
+}
+
+interface BidRow extends LocationRow {
+  user: string;
+  contract_address: string;
+  outcome: IndexedBid['outcome'];
+  bid_amount: string;
+  max_bid: string | null;
+  user_balance: string | null;
+  reason: string | null;
+}
+
+interface ActivationRow extends LocationRow {
+  user: string;
+  contract_address: string;
+  outcome: IndexedActivation['outcome'];
+  version: number | null;
+  data_fee: string | null;
+  spent: string | null;
+  refund: string | null;
+  user_balance: string | null;
+  value: string | null;
+  reason: string | null;
+  revert_data: string | null;
+}
+
+interface BalanceUpdateRow extends LocationRow {
+  user: string;
+  new_balance: string;
+}
+
+interface ParameterUpdateRow extends LocationRow {
+  parameter: ParameterName;
+  old_value: string;
+  new_value: string;
+}
+
+interface MarketSnapshotRow {
+  block_number: number;
+  timestamp: number;
+  cache_size: string;
+  queue_size: string;
+  decay: string;
+}
+
+interface EscrowTransferRow extends LocationRow {
+  payee: string;
+  kind: IndexedEscrowTransfer['kind'];
+  amount: string;
+}
+
+const EVENT_TABLES = [
+  'contract_events',
+  'bids',
+  'activations',
+  'balance_updates',
+  'parameter_updates',
+  'escrow_transfers',
+];
+
+const LAST_INDEXED_BLOCK = 'last_indexed_block';
+const CMA_ADDRESS = 'cma_address';
+
+/**
+ * The indexer's SQLite tables: one per event family, plus the hashes of the
+ * indexed blocks the reorg check compares against the chain.
+ *
+ * @description Addresses are stored checksummed and amounts as decimal TEXT.
+ * Every batch is written in one transaction together with the checkpoint, so
+ * a crash never leaves half a range indexed.
+ */
+export class IndexerStore {
+  private readonly db: Database;
+
+  private constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * Opens the store, creating and migrating the database if needed.
+   *
+   * @param filename Database file, or `:memory:`
+   */
+  static async open(filename: string): Promise<IndexerStore> {
+    return new IndexerStore(await openDatabase(filename, INDEXER_MIGRATIONS));
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+
+  /** CMA the indexed events belong to, if indexing has started. */
+  async getCmaAddress(): Promise<string | undefined> {
+    return this.getMeta(CMA_ADDRESS);
+  }
+
+  /** Last block whose events are all stored, if indexing has started. */
+  async getLastIndexedBlock(): Promise<number | undefined> {
+    const value = await this.getMeta(LAST_INDEXED_BLOCK);
+    return value === undefined ? undefined : Number(value);
+  }
+
+  /**
+   * Binds an empty store to a CMA.
+   *
+   * @param fromBlock First block to index, e.g. the CMA's deployment block
+   */
+  async start(cmaAddress: string, fromBlock: number): Promise<void> {
+    await this.transaction(async () => {
+      await this.setMeta(CMA_ADDRESS, cmaAddress);
+      await this.setMeta(LAST_INDEXED_BLOCK, String(fromBlock - 1));
+    });
+  }
+
+  /** The most recent indexed blocks, newest first. */
+  async getRecentBlocks(limit: number): Promise<IndexedBlock[]> {
+    const rows = await this.db.all<
+      { block_number: number; block_hash: string; timestamp: number }[]
+    >('SELECT * FROM indexed_blocks ORDER BY block_number DESC LIMIT ?', limit);
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      timestamp: row.timestamp,
+    }));
+  }
+
+  /** Stores a batch and moves the checkpoint to `toBlock`. */
+  async storeBatch(batch: IndexedBatch, toBlock: number): Promise<void> {
+    await this.transaction(async () => {
+      for (const block of batch.blocks) {
+        await this.db.run(
+          `INSERT OR REPLACE INTO indexed_blocks (block_number, block_hash, timestamp)
+           VALUES (?, ?, ?)`,
+          block.blockNumber,
+          block.blockHash,
+          block.timestamp
+        );
+      }
+      for (const event of batch.contractEvents) {
+        await this.insert('contract_events', event, {
+          event: event.event,
+          user: event.user,
+          contract_address: event.contractAddress,
+          max_bid: event.maxBid,
+          auto_activate:
+            event.autoActivate === undefined
+              ? undefined
+              : Number(event.autoActivate),
+          max_activation_cost: event.maxActivationCost,
+        });
+      }
+      for (const bid of batch.bids) {
+        await this.insert('bids', bid, {
+          user: bid.user,
+          contract_address: bid.contractAddress,
+          outcome: bid.outcome,
+          bid_amount: bid.bidAmount,
+          max_bid: bid.maxBid,
+          user_balance: bid.userBalance,
+          reason: bid.reason,
+        });
+      }
+      for (const activation of batch.activations) {
+        await this.insert('activations', activation, {
+          user: activation.user,
+          contract_address: activation.contractAddress,
+          outcome: activation.outcome,
+          version: activation.version,
+          data_fee: activation.dataFee,
+          spent: activation.spent,
+          refund: activation.refund,
+          user_balance: activation.userBalance,
+          value: activation.value,
+          reason: activation.reason,
+          revert_data: activation.revertData,
+        });
+      }
+      for (const update of batch.balanceUpdates) {
+        await this.insert('balance_updates', update, {
+          user: update.user,
+          new_balance: update.newBalance,
+        });
+      }
+      for (const update of batch.parameterUpdates) {
+        await this.insert('parameter_updates', update, {
+          parameter: update.parameter,
+          old_value: update.oldValue,
+          new_value: update.newValue,
+        });
+      }
+      for (const transfer of batch.escrowTransfers) {
+        await this.insert('escrow_transfers', transfer, {
+          payee: transfer.payee,
+          kind: transfer.kind,
+          amount: transfer.amount,
+        });
+      }
+      if (batch.marketSnapshot) {
+        const snapshot = batch.marketSnapshot;
+        await this.db.run(
+          `INSERT OR REPLACE INTO market_snapshots (block_number, timestamp, cache_size, queue_size, decay)
+           VALUES (?, ?, ?, ?, ?)`,
+          snapshot.blockNumber,
+          snapshot.timestamp,
+          snapshot.cacheSize.toString(),
+          snapshot.queueSize.toString(),
+          snapshot.decay.toString()
+        );
+      }
+      await this.setMeta(LAST_INDEXED_BLOCK, String(toBlock));
+    });
+  }
+
+  /**
+   * Forgets everything indexed after `block`, e.g. blocks a reorg replaced.
+   */
+  async rollbackTo(block: number): Promise<void> {
+    await this.transaction(async () => {
+      for (const table of [
+        ...EVENT_TABLES,
+        'market_snapshots',
+        'indexed_blocks',
+      ]) {
+        await this.db.run(`DELETE FROM ${table} WHERE block_number > ?`, block);
+      }
+      await this.setMeta(LAST_INDEXED_BLOCK, String(block));
+    });
+  }
+
+  /** Registration changes, in chain order. */
+  async getContractEvents(
+    filter: EventFilter = {}
+  ): Promise<IndexedContractEvent[]> {
+    const rows = await this.select<ContractEventRow>(
+      'contract_events',
+      filter,
+      'user'
+    );
+    return rows.map((row) => ({
+      ...location(row),
+      event: row.event,
+      user: row.user,
+      contractAddress: row.contract_address,
+      maxBid: optionalBigInt(row.max_bid),
+      autoActivate:
+        row.auto_activate === null ? undefined : row.auto_activate === 1,
+      maxActivationCost: optionalBigInt(row.max_activation_cost),
+    }));
+  }
+
+  /** `BidPlaced` and `BidError` events, in chain order. */
+  async getBids(filter: EventFilter = {}): Promise<IndexedBid[]> {
+    const rows = await this.select<BidRow>('bids', filter, 'user');
+    return rows.map((row) => ({
+      ...location(row),
+      user: row.user,
+      contractAddress: row.contract_address,
+      outcome: row.outcome,
+      bidAmount: BigInt(row.bid_amount),
+      maxBid: optionalBigInt(row.max_bid),
+      userBalance: optionalBigInt(row.user_balance),
+      reason: row.reason ?? undefined,
+    }));
+  }
+
+  /** Activation events, in chain order. */
+  async getActivations(filter: EventFilter = {}): Promise<IndexedActivation[]> {
+    const rows = await this.select<ActivationRow>(
+      'activations',
+      filter,
+      'user'
+    );
+    return rows.map((row) => ({
+      ...location(row),
+      user: row.user,
+      contractAddress: row.contract_address,
+      outcome: row.outcome,
+      version: row.version ?? undefined,
+      dataFee: optionalBigInt(row.data_fee),
+      spent: optionalBigInt(row.spent),
+      refund: optionalBigInt(row.refund),
+      userBalance: optionalBigInt(row.user_balance),
+      value: optionalBigInt(row.value),
+      reason: row.reason ?? undefined,
+      revertData: row.revert_data ?? undefined,
+    }));
+  }
+
+  /** `BalanceUpdated` events, in chain order. */
+  async getBalanceUpdates(
+    filter: EventFilter = {}
+  ): Promise<IndexedBalanceUpdate[]> {
+    const rows = await this.select<BalanceUpdateRow>(
+      'balance_updates',
+      filter,
+      'user'
+    );
+    return rows.map((row) => ({
+      ...location(row),
+      user: row.user,
+      newBalance: BigInt(row.new_balance),
+    }));
+  }
+
+  /** Owner parameter changes, in chain order. */
+  async getParameterUpdates(
+    filter: Omit<EventFilter, 'user' | 'contractAddress'> = {}
+  ): Promise<IndexedParameterUpdate[]> {
+    const rows = await this.select<ParameterUpdateRow>(
+      'parameter_updates',
+      filter
+    );
+    return rows.map((row) => ({
+      ...location(row),
+      parameter: row.parameter,
+      oldValue: BigInt(row.old_value),
+      newValue: BigInt(row.new_value),
+    }));
+  }
+
+  /** Escrow deposits and withdrawals; `user` filters on the payee. */
+  async getEscrowTransfers(
+    filter: Omit<EventFilter, 'contractAddress'> = {}
+  ): Promise<IndexedEscrowTransfer[]> {
+    const rows = await this.select<EscrowTransferRow>(
+      'escrow_transfers',
+      filter,
+      'payee'
+    );
+    return rows.map((row) => ({
+      ...location(row),
+      payee: row.payee,
+      kind: row.kind,
+      amount: BigInt(row.amount),
+    }));
+  }
+
+  /** Market snapshots, oldest first. */
+  async getMarketSnapshots(
+    filter: Omit<EventFilter, 'user' | 'contractAddress'> = {}
+  ): Promise<IndexedMarketSnapshot[]> {
+    const rows = await this.select<MarketSnapshotRow>(
+      'market_snapshots',
+      filter
+    );
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      cacheSize: BigInt(row.cache_size),
+      queueSize: BigInt(row.queue_size),
+      decay: BigInt(row.decay),
+    }));
+  }
+
+  /** Every address the escrow credited or debited, sorted. */
+  async getEscrowPayees(): Promise<string[]> {
+    const rows = await this.db.all<{ payee: string }[]>(
+      'SELECT DISTINCT payee FROM escrow_transfers ORDER BY payee'
+    );
+    return rows.map(({ payee }) => payee);
+  }
+
+  private async insert(
+    table: string,
+    at: EventLocation,
+    columns: Record<string, string | number | bigint | undefined>
+  ): Promise<void> {
+    const names = [
+      'block_number',
+      'log_index',
+      'tx_hash',
+      ...Object.keys(columns),
+    ];
+    const values = [
+      at.blockNumber,
+      at.logIndex,
+      at.txHash,
+      ...Object.values(columns).map((value) =>
+        value === undefined
+          ? null
+          : typeof value === 'bigint'
+          ? value.toString()
+          : value
+      ),
+    ];
+    await this.db.run(
+      `INSERT OR REPLACE INTO ${table} (${names.join(', ')})
+       VALUES (${names.map(() => '?').join(', ')})`,
+      ...values
+    );
+  }
+
+  private async select<Row>(
+    table: string,
+    filter: EventFilter,
+    userColumn?: string
+  ): Promise<Row[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.user !== undefined && userColumn) {
+      conditions.push(`${userColumn} = ?`);
+      params.push(ethers.getAddress(filter.user));
+    }
+    if (filter.contractAddress !== undefined && userColumn === 'user') {
+      conditions.push('contract_address = ?');
+      params.push(ethers.getAddress(filter.contractAddress));
+    }
+    if (filter.fromBlock !== undefined) {
+      conditions.push('e.block_number >= ?');
+      params.push(filter.fromBlock);
+    }
+    if (filter.toBlock !== undefined) {
+      conditions.push('e.block_number <= ?');
+      params.push(filter.toBlock);
+    }
+    // Snapshots are one per block, carry their own timestamp and have no log
+    // index; events take the timestamp of their block.
+    const snapshots = table === 'market_snapshots';
+    const source = snapshots
+      ? `SELECT e.* FROM ${table} e`
+      : `SELECT e.*, b.timestamp FROM ${table} e
+         JOIN indexed_blocks b ON b.block_number = e.block_number`;
+    const order = snapshots ? 'e.block_number' : 'e.block_number, e.log_index';
+    return this.db.all<Row[]>(
+      `${source}
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY ${order}
+       LIMIT ? OFFSET ?`,
+      ...params,
+      // SQLite reads a negative limit as none.
+      filter.limit ?? -1,
+      filter.offset ?? 0
+    );
+  }
+
+  private async getMeta(key: string): Promise<string | undefined> {
+    const row = await this.db.get<{ value: string }>(
+      'SELECT value FROM indexer_meta WHERE key = ?',
+      key
+    );
+    return row?.value;
+  }
+
+  private async setMeta(key: string, value: string): Promise<void> {
+    await this.db.run(
+      'INSERT OR REPLACE INTO indexer_meta (key, value) VALUES (?, ?)',
+      key,
+      value
+    );
+  }
+
+  private async transaction(body: () => Promise<void>): Promise<void> {
+    await this.db.exec('BEGIN');
+    try {
+      await body();
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+function location(row: LocationRow): EventLocation {
+  return {
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    txHash: row.tx_hash,
+    timestamp: row.timestamp,
+  };
+}
+
+function optionalBigInt(value: string | null): bigint | undefined {
+  return value === null ? undefined : BigInt(value);
+}
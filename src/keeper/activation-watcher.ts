@@ -0,0 +1,226 @@
+import {
+  BiddingEscrow__factory,
+  type CacheManagerAutomation,
+} from '../../build/typechain-types';
+import { ArbWasmReader, checkProgramExpiry } from '../sdk/expiry';
+import { fetchRegistrations, Registration } from '../sdk/registrations';
+import { KeeperMetrics } from './metrics';
+import { PollingService } from './polling-service';
+import { RegistrationSync } from './registration-sync';
+import {
+  createTransactionManager,
+  TransactionManager,
+} from './transaction-manager';
+import { Logger, UserContractPair } from './types';
+
+/** Approximate gas cost of a single `activateProgram` call (see CMA constructor). */
+export const ACTIVATION_GAS_ESTIMATE = 3_300_000n;
+
+export interface ActivationWatcherOptions {
+  cma: CacheManagerAutomation;
+  arbWasm: ArbWasmReader;
+  intervalSeconds: number;
+  /** Gas the watcher is willing to spend in a single placeActivations tx. */
+  gasBudget: bigint;
+  /** Shared sender; defaults to one built on the CMA's signer. */
+  transactions?: TransactionManager;
+  /** Incremental registration source; defaults to a full walk every round. */
+  registrations?: RegistrationSync;
+  metrics?: KeeperMetrics;
+  logger?: Logger;
+}
+
+export interface ActivationRoundResult {
+  tracked: number;
+  expired: number;
+  underfunded: number;
+  batches: number;
+  failedBatches: number;
+  activationsPerformed: number;
+  activationErrors: number;
+}
+
+/**
+ * Computes how many activations fit in one `placeActivations` call.
+ *
+ * @param maxActivationsPerIteration The contract's `maxActivationsPerIteration`
+ * @param gasBudget Gas available for a single transaction
+ * @returns The batch size honouring both limits
+ */
+export function activationBatchSize(
+  maxActivationsPerIteration: bigint,
+  gasBudget: bigint
+): number {
+  const byGas = gasBudget / ACTIVATION_GAS_ESTIMATE;
+  if (byGas === 0n) {
+    throw new Error(
+      `Gas budget ${gasBudget} is below a single activation (${ACTIVATION_GAS_ESTIMATE})`
+    );
+  }
+  return Number(
+    byGas < maxActivationsPerIteration ? byGas : maxActivationsPerIteration
+  );
+}
+
+/**
+ * Off-chain driver for `CacheManagerAutomation.placeActivations`.
+ *
+ * @description Tracks every `autoActivate` registration, polls ArbWasm for
+ * expiry and submits the expired ones in batches sized to both
+ * `maxActivationsPerIteration` and the configured gas budget. Registrations
+ * whose escrow can't cover `maxActivationCost` are left out, since the
+ * contract would skip them anyway.
+ */
+export class ActivationWatcher extends PollingService {
+  protected readonly name = 'Activation';
+  private readonly cma: CacheManagerAutomation;
+  private readonly arbWasm: ArbWasmReader;
+  private readonly gasBudget: bigint;
+  private transactions?: TransactionManager;
+  private readonly registrations?: RegistrationSync;
+  private readonly metrics?: KeeperMetrics;
+  private tracked: Registration[] = [];
+
+  constructor(options: ActivationWatcherOptions) {
+    super(options.intervalSeconds, options.logger);
+    this.cma = options.cma;
+    this.arbWasm = options.arbWasm;
+    this.gasBudget = options.gasBudget;
+    this.transactions = options.transactions;
+    this.registrations = options.registrations;
+    this.metrics = options.metrics;
+  }
+
+  /** autoActivate registrations seen in the last round. */
+  get trackedRegistrations(): readonly Registration[] {
+    return this.tracked;
+  }
+
+  /**
+   * Collects the activation requests the watcher would send this round.
+   *
+   * @returns Expired, funded registrations (one per program address) and the
+   * number of expired ones skipped for lack of escrow balance
+   */
+  async collectActivationRequests(): Promise<{
+    requests: UserContractPair[];
+    expired: number;
+    underfunded: number;
+  }> {
+    const registrations = this.registrations
+      ? await this.registrations.sync()
+      : await fetchRegistrations(this.cma);
+    this.tracked = registrations.filter((r) => r.autoActivate);
+
+    const escrow = BiddingEscrow__factory.connect(
+      await this.cma.escrow(),
+      this.cma.runner
+    );
+    const balances = new Map<string, bigint>();
+    const expiryByProgram = new Map<string, boolean>();
+    const requested = new Set<string>();
+
+    const requests: UserContractPair[] = [];
+    let expired = 0;
+    let underfunded = 0;
+
+    for (const { user, contractAddress, maxActivationCost } of this.tracked) {
+      let isExpired = expiryByProgram.get(contractAddress);
+      if (isExpired === undefined) {
+        ({ expired: isExpired } = await checkProgramExpiry(
+          this.arbWasm,
+          contractAddress
+        ));
+        expiryByProgram.set(contractAddress, isExpired);
+      }
+      if (!isExpired) continue;
+      expired++;
+
+      // One activation reactivates the program for every registration.
+      if (requested.has(contractAddress)) continue;
+
+      let balance = balances.get(user);
+      if (balance === undefined) {
+        balance = await escrow.depositsOf(user);
+        balances.set(user, balance);
+      }
+      if (maxActivationCost > balance) {
+        underfunded++;
+        continue;
+      }
+
+      requested.add(contractAddress);
+      requests.push({ user, contractAddress });
+    }
+
+    return { requests, expired, underfunded };
+  }
+
+  /** Runs a single activation round: poll expiry, batch and submit. */
+  async runOnce(): Promise<ActivationRoundResult> {
+    const { requests, expired, underfunded } =
+      await this.collectActivationRequests();
+    const batchSize = activationBatchSize(
+      await this.cma.maxActivationsPerIteration(),
+      this.gasBudget
+    );
+
+    const batches: UserContractPair[][] = [];
+    for (let i = 0; i < requests.length; i += batchSize) {
+      batches.push(requests.slice(i, i + batchSize));
+    }
+
+    const result: ActivationRoundResult = {
+      tracked: this.tracked.length,
+      expired,
+      underfunded,
+      batches: batches.length,
+      failedBatches: 0,
+      activationsPerformed: 0,
+      activationErrors: 0,
+    };
+
+    for (const [index, batch] of batches.entries()) {
+      try {
+        this.transactions ??= createTransactionManager(this.cma, this.logger);
+        const startedAt = Date.now();
+        const receipt = await this.transactions.send({
+          to: await this.cma.getAddress(),
+          data: this.cma.interface.encodeFunctionData('placeActivations', [
+            batch,
+          ]),
+        });
+        this.metrics?.recordBatch('activations', receipt, startedAt);
+        for (const log of receipt.logs) {
+          const parsed = this.cma.interface.parseLog(log);
+          if (parsed?.name === 'ActivationPerformed') {
+            result.activationsPerformed++;
+            this.metrics?.activationsPerformed.inc();
+          }
+          if (parsed?.name === 'ActivationError') {
+            result.activationErrors++;
+            this.metrics?.activationErrors.inc();
+          }
+        }
+        this.logger.log(
+          `⚡ Activation batch ${index + 1}/${batches.length} (${
+            batch.length
+          } requests) mined in tx ${receipt.hash}`
+        );
+      } catch (error) {
+        result.failedBatches++;
+        this.metrics?.failedBatches.inc(1, { kind: 'activations' });
+        this.logger.error(
+          `❌ Activation batch ${index + 1}/${batches.length} failed:`,
+          error
+        );
+      }
+    }
+
+    this.logger.log(
+      `✅ Activation round done: ${result.tracked} tracked, ${result.expired} expired, ` +
+        `${result.activationsPerformed} activated, ${result.activationErrors} errors`
+    );
+    return result;
+  }
+}
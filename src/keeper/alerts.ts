@@ -0,0 +1,261 @@
+import { ethers } from 'ethers';
+import type { CacheManagerAutomation } from '../../build/typechain-types';
+import { revertDecoder } from '../sdk/revert-decoder';
+import { PollingService } from './polling-service';
+import { Logger } from './types';
+
+export type AlertKind = 'BidError' | 'ActivationError';
+
+/** JSON body posted to the webhooks for every failure. */
+export interface Alert {
+  kind: AlertKind;
+  network?: string;
+  user: string;
+  contract: string;
+  /** Bid or activation value in wei, as a decimal string. */
+  amount: string;
+  /** The event's `reason` string. */
+  reason: string;
+  /** For activations: the ArbWasm error decoded from `ActivationRevertData`. */
+  decodedReason?: string;
+  revertData?: string;
+  txHash: string;
+  blockNumber: number;
+  /** Alerts dropped by the rate limit since the previous delivered one. */
+  suppressed?: number;
+}
+
+export interface WebhookNotifierOptions {
+  urls: string[];
+  /** Alerts delivered per rolling minute; the rest are dropped and counted. */
+  maxPerMinute?: number;
+  /** How long an identical (kind, user, contract, reason) alert is muted. */
+  dedupSeconds?: number;
+  timeoutMs?: number;
+  logger?: Logger;
+  /** Clock in milliseconds, for tests. */
+  now?: () => number;
+}
+
+export type NotifyResult = 'sent' | 'duplicate' | 'rate limited';
+
+const DEFAULT_MAX_PER_MINUTE = 10;
+const DEFAULT_DEDUP_SECONDS = 3600;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Posts alerts as JSON to a set of webhook URLs.
+ *
+ * @description A failure that keeps happening (a user without funds, a
+ * program that can't be activated) fires on every round, so identical alerts
+ * are muted for `dedupSeconds`. On top of that at most `maxPerMinute` alerts
+ * go out per rolling minute; the number dropped is reported in the next one
+ * delivered. A failing URL is logged and doesn't affect the others.
+ */
+export class WebhookNotifier {
+  private readonly urls: string[];
+  private readonly maxPerMinute: number;
+  private readonly dedupMs: number;
+  private readonly timeoutMs: number;
+  private readonly logger: Logger;
+  private readonly now: () => number;
+  private readonly lastSeen = new Map<string, number>();
+  private sentAt: number[] = [];
+  private suppressed = 0;
+
+  constructor(options: WebhookNotifierOptions) {
+    this.urls = options.urls;
+    this.maxPerMinute = options.maxPerMinute ?? DEFAULT_MAX_PER_MINUTE;
+    this.dedupMs = (options.dedupSeconds ?? DEFAULT_DEDUP_SECONDS) * 1000;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.logger = options.logger ?? console;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Delivers an alert unless it is a duplicate or over the rate limit.
+   *
+   * @returns What happened to the alert
+   */
+  async notify(alert: Alert): Promise<NotifyResult> {
+    const now = this.now();
+    const key = [
+      alert.network,
+      alert.kind,
+      alert.user,
+      alert.contract,
+      alert.decodedReason ?? alert.reason,
+    ]
+      .join(':')
+      .toLowerCase();
+
+    const seen = this.lastSeen.get(key);
+    if (seen !== undefined && now - seen < this.dedupMs) return 'duplicate';
+
+    this.sentAt = this.sentAt.filter((at) => now - at < 60_000);
+    if (this.sentAt.length >= this.maxPerMinute) {
+      this.suppressed++;
+      return 'rate limited';
+    }
+
+    this.lastSeen.set(key, now);
+    this.sentAt.push(now);
+    const body = this.suppressed
+      ? { ...alert, suppressed: this.suppressed }
+      : alert;
+    this.suppressed = 0;
+    await Promise.all(this.urls.map((url) => this.post(url, body)));
+    return 'sent';
+  }
+
+  private async post(url: string, alert: Alert): Promise<void> {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(alert),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not deliver alert to ${url}:`, error);
+    }
+  }
+}
+
+export interface FailureAlerterOptions {
+  cma: CacheManagerAutomation;
+  notifier: WebhookNotifier;
+  intervalSeconds: number;
+  /** Added to every alert, for processes watching several networks. */
+  network?: string;
+  /** First block to read; defaults to the block after the current head. */
+  fromBlock?: number;
+  /** Largest block range requested from `eth_getLogs` at once. */
+  maxBlockRange?: number;
+  logger?: Logger;
+}
+
+const DEFAULT_MAX_BLOCK_RANGE = 10_000;
+
+const ALERT_EVENTS = [
+  'BidError',
+  'ActivationError',
+  'ActivationRevertData',
+] as const;
+
+/**
+ * Watches the CMA for `BidError` and `ActivationError` and sends an alert for
+ * each one.
+ *
+ * @description Events are read with `eth_getLogs` from the last processed
+ * block, so nothing is missed between rounds or when the RPC briefly fails.
+ * An `ActivationError` is joined with the `ActivationRevertData` emitted right
+ * after it, whose payload is decoded into `decodedReason`.
+ */
+export class FailureAlerter extends PollingService {
+  protected readonly name = 'Alerting';
+  private readonly cma: CacheManagerAutomation;
+  private readonly notifier: WebhookNotifier;
+  private readonly network?: string;
+  private readonly maxBlockRange: number;
+  private nextBlock?: number;
+
+  constructor(options: FailureAlerterOptions) {
+    super(options.intervalSeconds, options.logger);
+    this.cma = options.cma;
+    this.notifier = options.notifier;
+    this.network = options.network;
+    this.nextBlock = options.fromBlock;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+  }
+
+  /**
+   * Reads the failures emitted since the last round and notifies them.
+   *
+   * @returns The alerts built this round, delivered or not
+   */
+  async runOnce(): Promise<Alert[]> {
+    const provider = this.cma.runner?.provider;
+    if (!provider) {
+      throw new Error('CacheManagerAutomation must be connected to a provider');
+    }
+    const head = await provider.getBlockNumber();
+    this.nextBlock ??= head + 1;
+
+    const alerts: Alert[] = [];
+    while (this.nextBlock <= head) {
+      const to = Math.min(this.nextBlock + this.maxBlockRange - 1, head);
+      const chunk = await this.readAlerts(provider, this.nextBlock, to);
+      for (const alert of chunk) {
+        const result = await this.notifier.notify(alert);
+        if (result === 'sent') {
+          this.logger.log(
+            `🚨 ${alert.kind} for ${alert.contract} (${
+              alert.decodedReason ?? alert.reason
+            }) reported`
+          );
+        }
+      }
+      alerts.push(...chunk);
+      this.nextBlock = to + 1;
+    }
+    return alerts;
+  }
+
+  private async readAlerts(
+    provider: ethers.Provider,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Alert[]> {
+    const logs = await provider.getLogs({
+      address: await this.cma.getAddress(),
+      fromBlock,
+      toBlock,
+      topics: [
+        ALERT_EVENTS.map((name) => this.cma.interface.getEvent(name).topicHash),
+      ],
+    });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const revertData = new Map<string, string>();
+    for (const log of logs) {
+      const parsed = this.cma.interface.parseLog(log);
+      if (parsed?.name === 'ActivationRevertData') {
+        // Emitted right after the ActivationError it belongs to.
+        revertData.set(
+          `${log.transactionHash}:${log.index - 1}`,
+          parsed.args.data
+        );
+      }
+    }
+
+    const alerts: Alert[] = [];
+    for (const log of logs) {
+      const parsed = this.cma.interface.parseLog(log);
+      if (parsed?.name !== 'BidError' && parsed?.name !== 'ActivationError') {
+        continue;
+      }
+      // Both events are (user, contractAddress, amount, reason).
+      const [user, contract, amount, reason] = parsed.args;
+      const data = revertData.get(`${log.transactionHash}:${log.index}`);
+      alerts.push({
+        kind: parsed.name,
+        ...(this.network && { network: this.network }),
+        user,
+        contract,
+        amount: amount.toString(),
+        reason,
+        ...(data !== undefined && {
+          decodedReason: revertDecoder.describe(data),
+          revertData: data,
+        }),
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+      });
+    }
+    return alerts;
+  }
+}
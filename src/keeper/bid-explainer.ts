@@ -0,0 +1,234 @@
+import { ethers } from 'ethers';
+import {
+  BiddingEscrow__factory,
+  type CacheManagerAutomation,
+  type IArbWasmCache,
+  type ICacheManager,
+} from '../../build/typechain-types';
+import { calculateBidAmount } from '../sdk/pricing';
+import { fetchRegistrations, Registration } from '../sdk/registrations';
+import { UserContractPair } from './types';
+
+/** The slice of CacheManager the explainer reads from. */
+export type CacheManagerReader = Pick<
+  ICacheManager,
+  'getMinBid' | 'cacheSize' | 'queueSize' | 'decay'
+>;
+
+/** Market and CMA parameters `_calculateBidAmount` depends on. */
+export interface MarketSnapshot {
+  /** undefined when the call reverted (the contract then treats utilization as 0). */
+  cacheSize?: bigint;
+  queueSize?: bigint;
+  /** undefined when the call reverted (the contract then uses a decay of 0). */
+  decay?: bigint;
+  cacheThreshold: bigint;
+  horizonSeconds: bigint;
+  bidIncrement: bigint;
+}
+
+export type BidSkipReason =
+  | 'invalid address'
+  | 'already cached'
+  | 'not registered'
+  | 'disabled'
+  | 'below min bid'
+  | 'insufficient balance';
+
+export interface BidDecision extends UserContractPair {
+  bidIndex: number;
+  shouldBid: boolean;
+  /** Amount `placeBids` would bid; 0 when skipped. */
+  bidAmount: bigint;
+  minBid?: bigint;
+  maxBid?: bigint;
+  balance?: bigint;
+  reason?: BidSkipReason;
+}
+
+/**
+ * Explains, without sending anything, what `placeBids` would do with each
+ * request.
+ *
+ * @description Re-implements the checks of `_shouldBid` in the same order:
+ * zero address, cached codehash, registration lookup, enabled flag, bid
+ * calculation, minBid and escrow balance. Each placed bid is withdrawn from
+ * the escrow before the next request is checked, so a user's balance is
+ * tracked across the requests of a round.
+ */
+export class BidExplainer {
+  private readonly cma: CacheManagerAutomation;
+  private readonly arbWasmCache: IArbWasmCache;
+  private readonly cacheManager: CacheManagerReader;
+
+  constructor(options: {
+    cma: CacheManagerAutomation;
+    arbWasmCache: IArbWasmCache;
+    cacheManager: CacheManagerReader;
+  }) {
+    this.cma = options.cma;
+    this.arbWasmCache = options.arbWasmCache;
+    this.cacheManager = options.cacheManager;
+  }
+
+  /** Reads the market snapshot the way `_calculateBidAmount` does. */
+  async loadMarket(): Promise<MarketSnapshot> {
+    const optional = (call: Promise<bigint>) =>
+      call.catch((): bigint | undefined => undefined);
+
+    const [cacheSize, queueSize, decay] = await Promise.all([
+      optional(this.cacheManager.cacheSize()),
+      optional(this.cacheManager.queueSize()),
+      optional(this.cacheManager.decay()),
+    ]);
+    const [cacheThreshold, horizonSeconds, bidIncrement] = await Promise.all([
+      this.cma.cacheThreshold(),
+      this.cma.horizonSeconds(),
+      this.cma.bidIncrement(),
+    ]);
+
+    return {
+      cacheSize,
+      queueSize,
+      decay,
+      cacheThreshold,
+      horizonSeconds,
+      bidIncrement,
+    };
+  }
+
+  /**
+   * Explains every request of every batch, using each request's position in
+   * its batch as the bid index, exactly like `placeBids`.
+   *
+   * @param batches Batches as they would be submitted
+   * @returns One decision per request, in submission order
+   */
+  async explainBatches(batches: UserContractPair[][]): Promise<BidDecision[]> {
+    const market = await this.loadMarket();
+    const registrations = await fetchRegistrations(this.cma);
+
+    const balances = new Map<string, bigint>();
+    const decisions: BidDecision[] = [];
+    for (const batch of batches) {
+      for (const [bidIndex, request] of batch.entries()) {
+        decisions.push(
+          await this.explain(request, bidIndex, market, registrations, balances)
+        );
+      }
+    }
+    return decisions;
+  }
+
+  /**
+   * Explains a single request.
+   *
+   * @param request The (user, contract) pair
+   * @param bidIndex Position of the request inside its batch
+   * @param market Market snapshot from `loadMarket`
+   * @param registrations Current registrations from `fetchRegistrations`
+   * @param balances Escrow balances by lowercased user, read on first use and
+   * debited by each predicted bid; share it across the requests of a round
+   */
+  async explain(
+    request: UserContractPair,
+    bidIndex: number,
+    market: MarketSnapshot,
+    registrations: Registration[],
+    balances = new Map<string, bigint>()
+  ): Promise<BidDecision> {
+    const { user, contractAddress } = request;
+    const skip = (
+      reason: BidSkipReason,
+      details: Partial<BidDecision> = {}
+    ): BidDecision => ({
+      user,
+      contractAddress,
+      bidIndex,
+      shouldBid: false,
+      bidAmount: 0n,
+      reason,
+      ...details,
+    });
+
+    if (user === ethers.ZeroAddress || contractAddress === ethers.ZeroAddress)
+      return skip('invalid address');
+
+    const provider = this.cma.runner?.provider;
+    if (!provider) {
+      throw new Error('CacheManagerAutomation must be connected to a provider');
+    }
+    const codehash = await extcodehash(provider, contractAddress);
+    if (await this.arbWasmCache.codehashIsCached(codehash))
+      return skip('already cached');
+
+    const registration = registrations.find(
+      (r) =>
+        r.user.toLowerCase() === user.toLowerCase() &&
+        r.contractAddress.toLowerCase() === contractAddress.toLowerCase()
+    );
+    if (!registration) return skip('not registered');
+
+    const maxBid = registration.maxBid;
+    if (!registration.enabled) return skip('disabled', { maxBid });
+
+    const minBid = await this.cacheManager.getMinBid(contractAddress);
+    // A reverting cacheSize/queueSize/decay call counts as 0 on-chain.
+    const cacheKnown =
+      market.cacheSize !== undefined && market.queueSize !== undefined;
+    const bidAmount = calculateBidAmount({
+      maxBid,
+      bidIndex: BigInt(bidIndex),
+      minBid,
+      cacheSize: cacheKnown ? market.cacheSize! : 0n,
+      queueSize: cacheKnown ? market.queueSize! : 0n,
+      decay: market.decay ?? 0n,
+      cacheThreshold: market.cacheThreshold,
+      horizonSeconds: market.horizonSeconds,
+      bidIncrement: market.bidIncrement,
+    });
+    if (bidAmount < minBid) return skip('below min bid', { maxBid, minBid });
+
+    let balance: bigint | undefined;
+    if (bidAmount > 0n) {
+      const escrow = BiddingEscrow__factory.connect(
+        await this.cma.escrow(),
+        this.cma.runner
+      );
+      const key = user.toLowerCase();
+      balance = balances.get(key) ?? (await escrow.depositsOf(user));
+      if (bidAmount > balance)
+        return skip('insufficient balance', { maxBid, minBid, balance });
+      balances.set(key, balance - bidAmount);
+    }
+
+    return {
+      user,
+      contractAddress,
+      bidIndex,
+      shouldBid: true,
+      bidAmount,
+      minBid,
+      maxBid,
+      balance,
+    };
+  }
+}
+
+/**
+ * `address.codehash` as the EVM computes it (EIP-1052): 0 for an account that
+ * doesn't exist, the hash of empty code for one that has no code but a
+ * balance or nonce.
+ */
+async function extcodehash(
+  provider: ethers.Provider,
+  address: string
+): Promise<string> {
+  const code = await provider.getCode(address);
+  if (code !== '0x') return ethers.keccak256(code);
+  const [balance, nonce] = await Promise.all([
+    provider.getBalance(address),
+    provider.getTransactionCount(address),
+  ]);
+  return balance > 0n || nonce > 0 ? ethers.keccak256('0x') : ethers.ZeroHash;
+}
@@ -0,0 +1,345 @@
+import { ethers } from 'ethers';
+import {
+  BiddingEscrow__factory,
+  type BiddingEscrow,
+  type CacheManagerAutomation,
+  type IArbWasmCache,
+} from '../../build/typechain-types';
+import { fetchRegistrations, Registration } from '../sdk/registrations';
+import { KeeperMetrics } from './metrics';
+import { PollingService } from './polling-service';
+import { RegistrationSync } from './registration-sync';
+import { selectBestFunded } from './shared-code';
+import {
+  BidAttempt,
+  BidOutcome,
+  KeeperStateStore,
+  pairKey,
+} from './state-store';
+import {
+  createTransactionManager,
+  TransactionManager,
+} from './transaction-manager';
+import { Logger, UserContractPair } from './types';
+
+export interface BiddingKeeperOptions {
+  cma: CacheManagerAutomation;
+  arbWasmCache: IArbWasmCache;
+  intervalSeconds: number;
+  /** Shared sender; defaults to one built on the CMA's signer. */
+  transactions?: TransactionManager;
+  /** Incremental registration source; defaults to a full walk every round. */
+  registrations?: RegistrationSync;
+  /** Where bid attempts are recorded so a restart doesn't resubmit them. */
+  state?: KeeperStateStore;
+  /** How long a pair is left alone after an attempt (defaults to the interval). */
+  bidCooldownSeconds?: number;
+  metrics?: KeeperMetrics;
+  logger?: Logger;
+}
+
+/** A registration the keeper chose not to send, and why. */
+export interface ExcludedPair extends UserContractPair {
+  reason:
+    | 'disabled'
+    | 'recently attempted'
+    | 'no code'
+    | 'already cached'
+    | 'shared code';
+  /** For 'shared code': the registration bidding for the same codehash. */
+  sharedWith?: UserContractPair;
+}
+
+export interface BidCandidates {
+  requests: UserContractPair[];
+  excluded: ExcludedPair[];
+}
+
+export interface BidRoundResult {
+  requested: number;
+  excluded: number;
+  batches: number;
+  failedBatches: number;
+  bidsPlaced: number;
+  bidErrors: number;
+}
+
+/**
+ * Splits bid requests into batches that `placeBids` accepts.
+ *
+ * @param requests Requests to send, in submission order
+ * @param maxBidsPerIteration The contract's `maxBidsPerIteration`
+ * @returns Batches of at most `maxBidsPerIteration` requests
+ */
+export function buildBidBatches(
+  requests: UserContractPair[],
+  maxBidsPerIteration: bigint
+): UserContractPair[][] {
+  const size = Number(maxBidsPerIteration);
+  if (size <= 0) {
+    throw new Error('maxBidsPerIteration must be greater than 0');
+  }
+
+  const batches: UserContractPair[][] = [];
+  for (let i = 0; i < requests.length; i += size) {
+    batches.push(requests.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Off-chain driver for `CacheManagerAutomation.placeBids`.
+ *
+ * @description On every round the keeper walks all registrations, drops the
+ * ones the contract would skip anyway (disabled, no code, already cached) and
+ * submits the rest in batches capped at `maxBidsPerIteration`. The contract
+ * still re-validates every request in `_shouldBid`; the filtering here only
+ * saves gas on requests that can't result in a bid.
+ *
+ * Programs with identical code share one cache entry, but the cached flag
+ * only flips once the block is mined, so every registration of that code
+ * would pay a bid in the same batch. Only the best-funded one is sent.
+ */
+export class BiddingKeeper extends PollingService {
+  protected readonly name = 'Bidding';
+  private readonly cma: CacheManagerAutomation;
+  private readonly arbWasmCache: IArbWasmCache;
+  private transactions?: TransactionManager;
+  private readonly registrations?: RegistrationSync;
+  private readonly state?: KeeperStateStore;
+  private readonly bidCooldownSeconds: number;
+  private readonly metrics?: KeeperMetrics;
+
+  constructor(options: BiddingKeeperOptions) {
+    super(options.intervalSeconds, options.logger);
+    this.cma = options.cma;
+    this.arbWasmCache = options.arbWasmCache;
+    this.transactions = options.transactions;
+    this.registrations = options.registrations;
+    this.state = options.state;
+    this.bidCooldownSeconds =
+      options.bidCooldownSeconds ?? options.intervalSeconds;
+    this.metrics = options.metrics;
+  }
+
+  /**
+   * Collects the bid requests the keeper would send this round.
+   *
+   * @returns Requests to submit, plus the registrations that were filtered out
+   */
+  async collectBidRequests(): Promise<BidCandidates> {
+    const provider = this.getProvider();
+    const registrations: Registration[] = this.registrations
+      ? await this.registrations.sync()
+      : await fetchRegistrations(this.cma);
+    const attempts = (await this.state?.loadBidAttempts()) ?? new Map();
+    const now = Math.floor(Date.now() / 1000);
+
+    const candidates: { registration: Registration; codehash: string }[] = [];
+    const excluded: ExcludedPair[] = [];
+    // Several registrations can share a codehash; only query the cache once.
+    const cachedByCodehash = new Map<string, boolean>();
+
+    for (const registration of registrations) {
+      const { user, contractAddress, enabled } = registration;
+      if (!enabled) {
+        excluded.push({ user, contractAddress, reason: 'disabled' });
+        continue;
+      }
+
+      const attempt = attempts.get(pairKey({ user, contractAddress }));
+      if (attempt && attempt.nextCheckAt > now) {
+        excluded.push({ user, contractAddress, reason: 'recently attempted' });
+        continue;
+      }
+
+      const code = await provider.getCode(contractAddress);
+      if (code === '0x') {
+        excluded.push({ user, contractAddress, reason: 'no code' });
+        continue;
+      }
+
+      const codehash = ethers.keccak256(code);
+      let cached = cachedByCodehash.get(codehash);
+      if (cached === undefined) {
+        cached = await this.arbWasmCache.codehashIsCached(codehash);
+        cachedByCodehash.set(codehash, cached);
+      }
+      if (cached) {
+        excluded.push({ user, contractAddress, reason: 'already cached' });
+        continue;
+      }
+
+      candidates.push({ registration, codehash });
+    }
+
+    const kept = await this.dedupeByCodehash(candidates, excluded);
+    const requests = candidates
+      .filter(({ registration }) => kept.has(registration))
+      .map(({ registration: { user, contractAddress } }) => ({
+        user,
+        contractAddress,
+      }));
+    return { requests, excluded };
+  }
+
+  /**
+   * Keeps one registration per codehash, the best funded, and reports the
+   * others as excluded.
+   *
+   * @returns The registrations to send
+   */
+  private async dedupeByCodehash(
+    candidates: { registration: Registration; codehash: string }[],
+    excluded: ExcludedPair[]
+  ): Promise<Set<Registration>> {
+    const groups = new Map<string, Registration[]>();
+    for (const { registration, codehash } of candidates) {
+      groups.set(codehash, [...(groups.get(codehash) ?? []), registration]);
+    }
+
+    const kept = new Set<Registration>();
+    const balances = new Map<string, bigint>();
+    let escrow: BiddingEscrow | undefined;
+
+    for (const group of groups.values()) {
+      if (group.length === 1) {
+        kept.add(group[0]);
+        continue;
+      }
+
+      escrow ??= BiddingEscrow__factory.connect(
+        await this.cma.escrow(),
+        this.cma.runner
+      );
+      const funded = [];
+      for (const registration of group) {
+        let balance = balances.get(registration.user);
+        if (balance === undefined) {
+          balance = await escrow.depositsOf(registration.user);
+          balances.set(registration.user, balance);
+        }
+        funded.push({ ...registration, balance, registration });
+      }
+
+      const best = selectBestFunded(funded).registration;
+      kept.add(best);
+      for (const registration of group) {
+        if (registration === best) continue;
+        excluded.push({
+          user: registration.user,
+          contractAddress: registration.contractAddress,
+          reason: 'shared code',
+          sharedWith: {
+            user: best.user,
+            contractAddress: best.contractAddress,
+          },
+        });
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Runs a single bidding round: collect, batch and submit.
+   *
+   * @description A failing batch is logged and does not stop the remaining
+   * batches from being submitted.
+   */
+  async runOnce(): Promise<BidRoundResult> {
+    const { requests, excluded } = await this.collectBidRequests();
+    const maxBidsPerIteration = await this.cma.maxBidsPerIteration();
+    const batches = buildBidBatches(requests, maxBidsPerIteration);
+
+    const result: BidRoundResult = {
+      requested: requests.length,
+      excluded: excluded.length,
+      batches: batches.length,
+      failedBatches: 0,
+      bidsPlaced: 0,
+      bidErrors: 0,
+    };
+
+    for (const [index, batch] of batches.entries()) {
+      try {
+        this.transactions ??= createTransactionManager(this.cma, this.logger);
+        const startedAt = Date.now();
+        const receipt = await this.transactions.send({
+          to: await this.cma.getAddress(),
+          data: this.cma.interface.encodeFunctionData('placeBids', [batch]),
+        });
+        this.metrics?.recordBatch('bids', receipt, startedAt);
+        const outcomes = new Map<
+          string,
+          { outcome: BidOutcome; bidAmount: bigint }
+        >();
+        for (const log of receipt.logs) {
+          const parsed = this.cma.interface.parseLog(log);
+          if (parsed?.name !== 'BidPlaced' && parsed?.name !== 'BidError')
+            continue;
+          if (parsed.name === 'BidPlaced') {
+            result.bidsPlaced++;
+            this.metrics?.bidsPlaced.inc();
+          } else {
+            result.bidErrors++;
+            this.metrics?.bidErrors.inc();
+          }
+          // Both events start with (user, contractAddress, amount).
+          const [user, contractAddress, bidAmount] = parsed.args;
+          outcomes.set(pairKey({ user, contractAddress }), {
+            outcome: parsed.name,
+            bidAmount,
+          });
+        }
+        await this.recordAttempts(batch, receipt, outcomes);
+        this.logger.log(
+          `📤 Batch ${index + 1}/${batches.length} (${
+            batch.length
+          } requests) mined in tx ${receipt.hash}`
+        );
+      } catch (error) {
+        result.failedBatches++;
+        this.metrics?.failedBatches.inc(1, { kind: 'bids' });
+        this.logger.error(
+          `❌ Batch ${index + 1}/${batches.length} failed:`,
+          error
+        );
+      }
+    }
+
+    this.logger.log(
+      `✅ Bidding round done: ${result.requested} requested, ${result.excluded} excluded, ` +
+        `${result.bidsPlaced} placed, ${result.bidErrors} errors`
+    );
+    return result;
+  }
+
+  private async recordAttempts(
+    batch: UserContractPair[],
+    receipt: ethers.TransactionReceipt,
+    outcomes: Map<string, { outcome: BidOutcome; bidAmount: bigint }>
+  ): Promise<void> {
+    if (!this.state) return;
+    const attemptedAt = Math.floor(Date.now() / 1000);
+    const attempts: BidAttempt[] = batch.map(({ user, contractAddress }) => ({
+      user,
+      contractAddress,
+      attemptedAt,
+      blockNumber: receipt.blockNumber,
+      txHash: receipt.hash,
+      // Requests _shouldBid rejected don't emit anything.
+      outcome: 'Skipped',
+      ...outcomes.get(pairKey({ user, contractAddress })),
+      nextCheckAt: attemptedAt + this.bidCooldownSeconds,
+    }));
+    await this.state.recordBidAttempts(attempts);
+  }
+
+  private getProvider(): ethers.Provider {
+    const provider = this.cma.runner?.provider;
+    if (!provider) {
+      throw new Error('CacheManagerAutomation must be connected to a provider');
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+
+/** Where `hardhat ignition` writes one `chain-<id>/` folder per chain. */
+export const DEFAULT_DEPLOYMENTS_DIR = path.join(
+  __dirname,
+  '../../ignition/deployments'
+);
+
+const CMA_FUTURE =
+  /^CacheManagerAutomation_(\d+)_(\d+)_(\d+)#CacheManagerAutomation$/;
+
+/**
+ * Reads the CacheManagerAutomation address ignition deployed on a chain.
+ *
+ * @description The deploy script names its module after the package version
+ * (`CacheManagerAutomation_1_0_0`), so a chain may hold several deployments.
+ * Without `version`, the highest one is used.
+ *
+ * @param chainId Chain to look up
+ * @param deploymentsDir Ignition deployments folder
+ * @param version Version to pick, as in package.json (`1.0.0`)
+ * @returns The deployed address
+ */
+export function readDeployedCmaAddress(
+  chainId: bigint | number,
+  deploymentsDir = DEFAULT_DEPLOYMENTS_DIR,
+  version?: string
+): string {
+  const file = path.join(
+    deploymentsDir,
+    `chain-${chainId}`,
+    'deployed_addresses.json'
+  );
+  if (!fs.existsSync(file)) {
+    throw new Error(`No ignition deployment for chain ${chainId} (${file})`);
+  }
+  const addresses: Record<string, string> = JSON.parse(
+    fs.readFileSync(file, 'utf8')
+  );
+
+  const deployments = Object.keys(addresses)
+    .map((key) => ({ key, parts: CMA_FUTURE.exec(key)?.slice(1).map(Number) }))
+    .filter(
+      (entry): entry is { key: string; parts: number[] } =>
+        entry.parts !== undefined
+    );
+
+  const wanted = version?.split('.').map(Number);
+  const matching = wanted
+    ? deployments.filter(({ parts }) => parts.join('.') === wanted.join('.'))
+    : deployments;
+  if (matching.length === 0) {
+    throw new Error(
+      `No CacheManagerAutomation${
+        version ? ` ${version}` : ''
+      } deployment in ${file}`
+    );
+  }
+
+  const latest = matching.reduce((best, entry) => {
+    const diff = entry.parts.findIndex((part, i) => part !== best.parts[i]);
+    return diff >= 0 && entry.parts[diff] > best.parts[diff] ? entry : best;
+  });
+  return addresses[latest.key];
+}
@@ -0,0 +1,479 @@
+import http from 'http';
+import { ethers } from 'ethers';
+import type { ICacheManager } from '../../build/typechain-types';
+import { Logger } from './types';
+
+type Labels = Record<string, string>;
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  const escaped = entries.map(
+    ([key, value]) =>
+      `${key}="${value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
+
+/** Series of one metric, keyed by their rendered label set. */
+export abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  /** Labels added to every series, e.g. the network. */
+  private readonly constLabels: Labels;
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    name: string,
+    help: string,
+    type: Metric<T>['type'],
+    constLabels: Labels = {}
+  ) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+    this.constLabels = constLabels;
+  }
+
+  protected key(labels: Labels): string {
+    return formatLabels({ ...this.constLabels, ...labels });
+  }
+
+  protected entry(labels: Labels, initial: () => T): { value: T } {
+    const key = this.key(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...this.constLabels, ...labels }, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples(),
+    ];
+  }
+
+  /** Sample lines without the HELP/TYPE header. */
+  renderSamples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) =>
+      this.renderSeries(labels, value)
+    );
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string, constLabels?: Labels) {
+    super(name, help, 'counter', constLabels);
+  }
+
+  inc(amount = 1, labels: Labels = {}): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(this.key(labels))?.value ?? 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string, constLabels?: Labels) {
+    super(name, help, 'gauge', constLabels);
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.series.get(this.key(labels))?.value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  private readonly buckets: number[];
+
+  constructor(
+    name: string,
+    help: string,
+    buckets: number[],
+    constLabels?: Labels
+  ) {
+    super(name, help, 'histogram', constLabels);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    return [
+      ...this.buckets.map(
+        (bound, i) =>
+          `${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${
+            value.counts[i]
+          }`
+      ),
+      `${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${
+        value.count
+      }`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+/** Which operator function a submission called. */
+export type SubmissionKind = 'bids' | 'activations';
+
+const GAS_BUCKETS = [
+  100_000, 250_000, 500_000, 1_000_000, 2_500_000, 5_000_000, 10_000_000,
+  20_000_000, 30_000_000,
+];
+const LATENCY_BUCKETS = [1, 2, 5, 10, 30, 60, 120, 300, 600];
+
+/**
+ * The keeper's Prometheus metrics.
+ *
+ * @description Counters and histograms are updated by the services as rounds
+ * complete; gauges are refreshed from the chain by `MetricsServer` on every
+ * scrape. Amounts are exported in wei.
+ */
+export class KeeperMetrics {
+  readonly bidsPlaced: Counter;
+  readonly bidErrors: Counter;
+  readonly activationsPerformed: Counter;
+  readonly activationErrors: Counter;
+  readonly failedBatches: Counter;
+  readonly cacheUtilization: Gauge;
+  readonly cacheDecay: Gauge;
+  readonly operatorBalance: Gauge;
+  readonly escrowBalance: Gauge;
+  readonly batchGasUsed: Histogram;
+  readonly submissionLatency: Histogram;
+
+  /**
+   * @param labels Labels added to every series; a process keeping several
+   * networks passes `{ network }` so their series don't collide.
+   */
+  constructor(labels: Labels = {}) {
+    this.bidsPlaced = new Counter(
+      'cma_bids_placed_total',
+      'BidPlaced events emitted by keeper placeBids transactions',
+      labels
+    );
+    this.bidErrors = new Counter(
+      'cma_bid_errors_total',
+      'BidError events emitted by keeper placeBids transactions',
+      labels
+    );
+    this.activationsPerformed = new Counter(
+      'cma_activations_performed_total',
+      'ActivationPerformed events emitted by keeper placeActivations transactions',
+      labels
+    );
+    this.activationErrors = new Counter(
+      'cma_activation_errors_total',
+      'ActivationError events emitted by keeper placeActivations transactions',
+      labels
+    );
+    this.failedBatches = new Counter(
+      'cma_failed_batches_total',
+      'Batches whose transaction could not be sent or confirmed',
+      labels
+    );
+    this.cacheUtilization = new Gauge(
+      'cma_cache_utilization_ratio',
+      'CacheManager queueSize / cacheSize',
+      labels
+    );
+    this.cacheDecay = new Gauge(
+      'cma_cache_decay',
+      'CacheManager decay rate',
+      labels
+    );
+    this.operatorBalance = new Gauge(
+      'cma_operator_balance_wei',
+      'Balance of the operator wallet sending keeper transactions',
+      labels
+    );
+    this.escrowBalance = new Gauge(
+      'cma_escrow_balance_wei',
+      'Total funds held by the BiddingEscrow',
+      labels
+    );
+    this.batchGasUsed = new Histogram(
+      'cma_batch_gas_used',
+      'Gas used by keeper batch transactions',
+      GAS_BUCKETS,
+      labels
+    );
+    this.submissionLatency = new Histogram(
+      'cma_submission_latency_seconds',
+      'Time from submitting a batch to its confirmation',
+      LATENCY_BUCKETS,
+      labels
+    );
+
+    // Export counters at 0 from the start so rate() alerts see the series.
+    this.bidsPlaced.inc(0);
+    this.bidErrors.inc(0);
+    this.activationsPerformed.inc(0);
+    this.activationErrors.inc(0);
+    this.failedBatches.inc(0, { kind: 'bids' });
+    this.failedBatches.inc(0, { kind: 'activations' });
+  }
+
+  /**
+   * Records a confirmed batch.
+   *
+   * @param kind Operator function the batch called
+   * @param receipt Receipt of the batch transaction
+   * @param startedAt `Date.now()` when the batch was submitted
+   */
+  recordBatch(
+    kind: SubmissionKind,
+    receipt: ethers.TransactionReceipt,
+    startedAt: number
+  ): void {
+    this.batchGasUsed.observe(Number(receipt.gasUsed), { kind });
+    this.submissionLatency.observe((Date.now() - startedAt) / 1000, { kind });
+  }
+
+  /** Every metric, in exposition order. */
+  all(): Metric<unknown>[] {
+    return [
+      this.bidsPlaced,
+      this.bidErrors,
+      this.activationsPerformed,
+      this.activationErrors,
+      this.failedBatches,
+      this.cacheUtilization,
+      this.cacheDecay,
+      this.operatorBalance,
+      this.escrowBalance,
+      this.batchGasUsed,
+      this.submissionLatency,
+    ];
+  }
+
+  /** Renders every metric in the Prometheus text exposition format. */
+  render(): string {
+    return renderMetrics([this]);
+  }
+}
+
+/**
+ * Renders several metric sets as one exposition, with a single HELP/TYPE
+ * header per metric name as Prometheus requires.
+ */
+export function renderMetrics(sets: KeeperMetrics[]): string {
+  if (sets.length === 0) return '';
+  const [first, ...rest] = sets.map((set) => set.all());
+  return (
+    first
+      .flatMap((metric, i) => [
+        ...metric.render(),
+        ...rest.flatMap((metrics) => metrics[i].renderSamples()),
+      ])
+      .join('\n') + '\n'
+  );
+}
+
+/** One metric set and the chain reads behind its gauges. */
+export interface MetricsTarget {
+  metrics: KeeperMetrics;
+  /** Omitted reads leave their gauges unset. */
+  cacheManager?: Pick<ICacheManager, 'cacheSize' | 'queueSize' | 'decay'>;
+  provider?: ethers.Provider;
+  operatorAddress?: string;
+  escrowAddress?: string;
+}
+
+export interface MetricsServerOptions {
+  port: number;
+  /** Defaults to loopback; the endpoint is meant for a local scraper. */
+  host?: string;
+  /** Initial targets; more can be added with `addTarget`. */
+  targets?: MetricsTarget[];
+  /** How long a scrape waits for one target's chain reads. */
+  refreshTimeoutMs?: number;
+  logger?: Logger;
+}
+
+const DEFAULT_REFRESH_TIMEOUT_MS = 5_000;
+
+/**
+ * Serves `GET /metrics`, refreshing the chain gauges before each scrape.
+ *
+ * @description A failing chain read is logged and leaves the gauge at its
+ * previous value, so a flaky RPC doesn't make the endpoint fail. Targets are
+ * refreshed concurrently, so one slow network doesn't hold up the others'
+ * reads, and a target still reading after `refreshTimeoutMs` is served with
+ * its previous values so a hung RPC can't stall the scrape.
+ */
+export class MetricsServer {
+  private readonly options: MetricsServerOptions;
+  private readonly logger: Logger;
+  private readonly targets: MetricsTarget[];
+  private readonly refreshTimeoutMs: number;
+  private server?: http.Server;
+
+  constructor(options: MetricsServerOptions) {
+    this.options = options;
+    this.logger = options.logger ?? console;
+    this.refreshTimeoutMs =
+      options.refreshTimeoutMs ?? DEFAULT_REFRESH_TIMEOUT_MS;
+    this.targets = [...(options.targets ?? [])];
+  }
+
+  addTarget(target: MetricsTarget): void {
+    this.targets.push(target);
+  }
+
+  removeTarget(metrics: KeeperMetrics): void {
+    const index = this.targets.findIndex((t) => t.metrics === metrics);
+    if (index >= 0) this.targets.splice(index, 1);
+  }
+
+  /** Reads cache utilization, decay and balances into the gauges. */
+  async refresh(): Promise<void> {
+    await Promise.all(
+      this.targets.map((target) => this.refreshWithTimeout(target))
+    );
+  }
+
+  private async refreshWithTimeout(target: MetricsTarget): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        this.logger.warn(
+          `⚠️ Chain reads still pending after ${this.refreshTimeoutMs} ms; serving the previous values`
+        );
+        resolve();
+      }, this.refreshTimeoutMs);
+    });
+    try {
+      await Promise.race([this.refreshTarget(target), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async refreshTarget({
+    metrics,
+    cacheManager,
+    provider,
+    operatorAddress,
+    escrowAddress,
+  }: MetricsTarget): Promise<void> {
+    const read = async (name: string, update: () => Promise<void>) => {
+      try {
+        await update();
+      } catch (error) {
+        this.logger.warn(`⚠️ Could not refresh ${name}:`, error);
+      }
+    };
+
+    if (cacheManager) {
+      await read('cache utilization', async () => {
+        const [cacheSize, queueSize] = await Promise.all([
+          cacheManager.cacheSize(),
+          cacheManager.queueSize(),
+        ]);
+        metrics.cacheUtilization.set(
+          cacheSize === 0n ? 0 : Number(queueSize) / Number(cacheSize)
+        );
+      });
+      await read('decay', async () => {
+        metrics.cacheDecay.set(Number(await cacheManager.decay()));
+      });
+    }
+    if (provider && operatorAddress) {
+      await read('operator balance', async () => {
+        metrics.operatorBalance.set(
+          Number(await provider.getBalance(operatorAddress))
+        );
+      });
+    }
+    if (provider && escrowAddress) {
+      await read('escrow balance', async () => {
+        metrics.escrowBalance.set(
+          Number(await provider.getBalance(escrowAddress))
+        );
+      });
+    }
+  }
+
+  /** Starts listening; resolves with the bound port (useful with port 0). */
+  start(): Promise<number> {
+    const server = http.createServer((request, response) => {
+      if (request.method !== 'GET' || request.url !== '/metrics') {
+        response.writeHead(404).end();
+        return;
+      }
+      this.refresh()
+        .then(() => {
+          response
+            .writeHead(200, {
+              'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+            })
+            .end(renderMetrics(this.targets.map(({ metrics }) => metrics)));
+        })
+        .catch((error) => {
+          this.logger.error('❌ Metrics scrape failed:', error);
+          response.writeHead(500).end();
+        });
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host ?? '127.0.0.1', () => {
+        resolve((server.address() as { port: number }).port);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+}
@@ -0,0 +1,267 @@
+import { ethers } from 'ethers';
+import { networks } from '../../config/networks';
+import {
+  DeploymentConfig,
+  getDeploymentConfig,
+} from '../../config/deployment-config';
+import {
+  CacheManagerAutomation__factory,
+  IArbWasm__factory,
+  IArbWasmCache__factory,
+  ICacheManager__factory,
+} from '../../build/typechain-types';
+import { ActivationWatcher } from './activation-watcher';
+import { FailureAlerter, WebhookNotifier } from './alerts';
+import { BiddingKeeper } from './bidding-keeper';
+import { readDeployedCmaAddress } from './deployments';
+import { KeeperMetrics, MetricsTarget } from './metrics';
+import { RegistrationSync } from './registration-sync';
+import { KeeperStateStore } from './state-store';
+import { TransactionManager } from './transaction-manager';
+import { Logger } from './types';
+
+export interface NetworkKeeperOptions {
+  /** Network name as in `config/networks.ts`; also labels logs and metrics. */
+  network: string;
+  config: DeploymentConfig;
+  /** Operator signer, connected to the network's provider. */
+  signer: ethers.Signer;
+  cmaAddress: string;
+  /** SQLite state file of this network. */
+  dbPath: string;
+  /** Webhooks notified of BidError/ActivationError; none disables alerting. */
+  alertWebhooks?: string[];
+  logger?: Logger;
+}
+
+/**
+ * Webhook URLs from a comma-separated `KEEPER_ALERT_WEBHOOKS`.
+ */
+export function parseWebhookUrls(value = ''): string[] {
+  return value
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url !== '');
+}
+
+/**
+ * Metrics port from `KEEPER_METRICS_PORT`; unset or empty (as `.env.example`
+ * ships it) falls back to `defaultPort`, and 0 disables the endpoint.
+ */
+export function parseMetricsPort(
+  value: string | undefined,
+  defaultPort: number
+): number {
+  if (value === undefined || value.trim() === '') return defaultPort;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65_535) {
+    throw new Error(`KEEPER_METRICS_PORT must be a port number, got ${value}`);
+  }
+  return port;
+}
+
+/**
+ * Prefixes every line a logger writes, e.g. with the network name.
+ */
+export function prefixLogger(logger: Logger, prefix: string): Logger {
+  return {
+    log: (...args: unknown[]) => logger.log(prefix, ...args),
+    warn: (...args: unknown[]) => logger.warn(prefix, ...args),
+    error: (...args: unknown[]) => logger.error(prefix, ...args),
+  };
+}
+
+/**
+ * Every keeper service of one network, wired the way `run-keeper` runs them.
+ *
+ * @description The bidding keeper and the activation watcher share one
+ * `TransactionManager` (they send from the same operator nonce), one
+ * registration sync and one state store. Metrics carry a `network` label.
+ */
+export class NetworkKeeper {
+  readonly network: string;
+  readonly metrics: KeeperMetrics;
+  private readonly options: NetworkKeeperOptions;
+  private readonly logger: Logger;
+  private state?: KeeperStateStore;
+  private keeper?: BiddingKeeper;
+  private watcher?: ActivationWatcher;
+  private alerter?: FailureAlerter;
+  private target?: MetricsTarget;
+
+  constructor(options: NetworkKeeperOptions) {
+    this.options = options;
+    this.network = options.network;
+    this.logger = prefixLogger(options.logger ?? console, `[${this.network}]`);
+    this.metrics = new KeeperMetrics({ network: this.network });
+  }
+
+  /** Opens the state store and starts both services. */
+  async start(): Promise<void> {
+    const {
+      config,
+      signer,
+      cmaAddress,
+      dbPath,
+      alertWebhooks = [],
+    } = this.options;
+    const provider = signer.provider;
+    if (!provider) {
+      throw new Error(`Signer for ${this.network} has no provider`);
+    }
+
+    const cma = CacheManagerAutomation__factory.connect(cmaAddress, signer);
+    const escrowAddress = await cma.escrow();
+    const operatorAddress = await signer.getAddress();
+    const state = await KeeperStateStore.open(dbPath);
+    const registrations = new RegistrationSync({
+      cma,
+      store: state,
+      logger: this.logger,
+    });
+    const transactions = new TransactionManager({
+      signer,
+      replaceAfterSeconds: config.keeper.replaceAfterSeconds,
+      feeBumpPercent: config.keeper.feeBumpPercent,
+      logger: this.logger,
+    });
+
+    this.state = state;
+    this.keeper = new BiddingKeeper({
+      cma,
+      arbWasmCache: IArbWasmCache__factory.connect(
+        config.arbWasmCacheAddress,
+        signer
+      ),
+      intervalSeconds: config.keeper.bidIntervalSeconds,
+      transactions,
+      registrations,
+      state,
+      bidCooldownSeconds: config.keeper.bidCooldownSeconds,
+      metrics: this.metrics,
+      logger: this.logger,
+    });
+    this.watcher = new ActivationWatcher({
+      cma,
+      arbWasm: IArbWasm__factory.connect(config.arbWasmAddress, signer),
+      intervalSeconds: config.keeper.activationIntervalSeconds,
+      gasBudget: BigInt(config.keeper.activationGasBudget),
+      transactions,
+      registrations,
+      metrics: this.metrics,
+      logger: this.logger,
+    });
+    if (alertWebhooks.length > 0) {
+      this.alerter = new FailureAlerter({
+        cma,
+        notifier: new WebhookNotifier({
+          urls: alertWebhooks,
+          maxPerMinute: config.keeper.alertMaxPerMinute,
+          dedupSeconds: config.keeper.alertDedupSeconds,
+          logger: this.logger,
+        }),
+        intervalSeconds: config.keeper.alertIntervalSeconds,
+        network: this.network,
+        logger: this.logger,
+      });
+    }
+    this.target = {
+      metrics: this.metrics,
+      cacheManager: ICacheManager__factory.connect(
+        config.cacheManagerAddress,
+        signer
+      ),
+      provider,
+      operatorAddress,
+      escrowAddress,
+    };
+
+    this.logger.log(`🤖 Starting keeper`);
+    this.logger.log(`   CMA: ${cmaAddress}`);
+    this.logger.log(`   Operator: ${operatorAddress}`);
+    this.logger.log(
+      `   Intervals: bids ${config.keeper.bidIntervalSeconds}s, activations ${config.keeper.activationIntervalSeconds}s`
+    );
+    this.logger.log(`   State: ${dbPath}`);
+    this.logger.log(`   Alert webhooks: ${alertWebhooks.length}`);
+    this.keeper.start();
+    this.watcher.start();
+    this.alerter?.start();
+  }
+
+  /** Chain reads behind this network's gauges; available once started. */
+  metricsTarget(): MetricsTarget {
+    if (!this.target) {
+      throw new Error(`Keeper for ${this.network} has not been started`);
+    }
+    return this.target;
+  }
+
+  /** Stops the services and closes the state store once their rounds end. */
+  async stop(): Promise<void> {
+    await Promise.all([
+      this.keeper?.stop(),
+      this.watcher?.stop(),
+      this.alerter?.stop(),
+    ]);
+    await this.state?.close();
+    this.state = undefined;
+  }
+}
+
+export interface ConnectNetworkOptions {
+  /** SQLite state file; defaults to `keeper-<network>.db`. */
+  dbPath?: string;
+  /** Ignition deployments folder the CMA address is read from. */
+  deploymentsDir?: string;
+  alertWebhooks?: string[];
+  logger?: Logger;
+}
+
+/**
+ * Builds a keeper for a network from the repo configuration alone, without
+ * going through `hardhat --network`.
+ *
+ * @description The provider uses the RPC url and the first account of
+ * `config/networks.ts`; the CMA address comes from the ignition deployment
+ * of the chain the RPC reports.
+ *
+ * @param network Network name as in `config/networks.ts`
+ */
+export async function connectNetwork(
+  network: string,
+  options: ConnectNetworkOptions = {}
+): Promise<NetworkKeeper> {
+  const networkConfig = networks[network];
+  const config = getDeploymentConfig(network);
+  const url =
+    networkConfig && 'url' in networkConfig ? networkConfig.url : undefined;
+  if (!url) {
+    throw new Error(`Network ${network} has no RPC url configured`);
+  }
+  const accounts =
+    networkConfig && 'accounts' in networkConfig
+      ? networkConfig.accounts
+      : undefined;
+  const privateKey = Array.isArray(accounts) ? accounts[0] : undefined;
+  if (typeof privateKey !== 'string' || privateKey === '') {
+    throw new Error(`Network ${network} has no funded account configured`);
+  }
+
+  // A static network makes a dead RPC fail the request instead of retrying
+  // chain detection forever in the background.
+  const provider = new ethers.JsonRpcProvider(url, undefined, {
+    staticNetwork: true,
+  });
+  const { chainId } = await provider.getNetwork();
+
+  return new NetworkKeeper({
+    network,
+    config,
+    signer: new ethers.Wallet(privateKey, provider),
+    cmaAddress: readDeployedCmaAddress(chainId, options.deploymentsDir),
+    dbPath: options.dbPath ?? `keeper-${network}.db`,
+    alertWebhooks: options.alertWebhooks,
+    logger: options.logger,
+  });
+}
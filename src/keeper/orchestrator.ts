@@ -0,0 +1,144 @@
+import { Logger } from './types';
+
+/** What the orchestrator needs from a started network. */
+export interface KeeperHandle {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface OrchestratedNetwork<K extends KeeperHandle = KeeperHandle> {
+  name: string;
+  /** Connects to the network and builds its keeper; retried on failure. */
+  connect(): Promise<K>;
+}
+
+export type NetworkState = 'connecting' | 'running' | 'stopped';
+
+export interface NetworkStatus {
+  name: string;
+  state: NetworkState;
+  /** Failed connection attempts since the last success. */
+  failures: number;
+  lastError?: unknown;
+}
+
+export interface KeeperOrchestratorOptions<K extends KeeperHandle> {
+  networks: OrchestratedNetwork<K>[];
+  /** Delay before the first retry; doubles on every failure. */
+  retrySeconds?: number;
+  maxRetrySeconds?: number;
+  /** Called once a network's keeper has started. */
+  onStarted?: (name: string, keeper: K) => void;
+  logger?: Logger;
+}
+
+const DEFAULT_RETRY_SECONDS = 30;
+const DEFAULT_MAX_RETRY_SECONDS = 600;
+
+/**
+ * Runs the keepers of several networks in one process.
+ *
+ * @description Every network is brought up on its own: a network whose RPC
+ * is down or whose deployment can't be read is retried with exponential
+ * backoff while the others run. Once started, each keeper keeps its own
+ * provider, signer, nonce, state file and schedule, and its services already
+ * survive failing rounds, so one chain can't stall another.
+ */
+export class KeeperOrchestrator<K extends KeeperHandle = KeeperHandle> {
+  private readonly options: KeeperOrchestratorOptions<K>;
+  private readonly logger: Logger;
+  private readonly statuses = new Map<string, NetworkStatus>();
+  private readonly keepers = new Map<string, K>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private running = false;
+
+  constructor(options: KeeperOrchestratorOptions<K>) {
+    const names = options.networks.map(({ name }) => name);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+      throw new Error(`Network ${duplicate} is listed twice`);
+    }
+    this.options = options;
+    this.logger = options.logger ?? console;
+  }
+
+  /** Starts connecting every network; returns without waiting for them. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    for (const network of this.options.networks) {
+      this.statuses.set(network.name, {
+        name: network.name,
+        state: 'connecting',
+        failures: 0,
+      });
+      void this.bringUp(network);
+    }
+  }
+
+  private async bringUp(network: OrchestratedNetwork<K>): Promise<void> {
+    const status = this.statuses.get(network.name)!;
+    let keeper: K | undefined;
+    try {
+      keeper = await network.connect();
+      if (!this.running) return;
+      await keeper.start();
+    } catch (error) {
+      if (keeper) await keeper.stop().catch(() => undefined);
+      if (!this.running) return;
+
+      status.failures++;
+      status.lastError = error;
+      const delay = Math.min(
+        (this.options.retrySeconds ?? DEFAULT_RETRY_SECONDS) *
+          2 ** (status.failures - 1),
+        this.options.maxRetrySeconds ?? DEFAULT_MAX_RETRY_SECONDS
+      );
+      this.logger.error(
+        `❌ [${network.name}] Could not start keeper, retrying in ${delay}s:`,
+        error
+      );
+      this.timers.set(
+        network.name,
+        setTimeout(() => void this.bringUp(network), delay * 1000)
+      );
+      return;
+    }
+
+    // stop() may have run while the keeper was starting.
+    if (!this.running) {
+      await keeper.stop();
+      return;
+    }
+    this.keepers.set(network.name, keeper);
+    status.state = 'running';
+    status.failures = 0;
+    status.lastError = undefined;
+    this.options.onStarted?.(network.name, keeper);
+  }
+
+  /** Connection state of every network. */
+  status(): NetworkStatus[] {
+    return [...this.statuses.values()].map((status) => ({ ...status }));
+  }
+
+  /** Stops every started keeper and cancels pending retries. */
+  async stop(): Promise<void> {
+    this.running = false;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+
+    const keepers = [...this.keepers];
+    this.keepers.clear();
+    await Promise.all(
+      keepers.map(async ([name, keeper]) => {
+        try {
+          await keeper.stop();
+        } catch (error) {
+          this.logger.error(`❌ [${name}] Could not stop keeper:`, error);
+        }
+      })
+    );
+    for (const status of this.statuses.values()) status.state = 'stopped';
+  }
+}
@@ -0,0 +1,56 @@
+import { Logger } from './types';
+
+/**
+ * Base class for keeper services that run one round every `intervalSeconds`.
+ *
+ * @description Rounds never overlap: the next one is scheduled only after the
+ * previous one settles. A failing round is logged and the loop keeps going.
+ * `stop` resolves once the round in flight settles, so callers can release
+ * what rounds use (like the state database) afterwards.
+ */
+export abstract class PollingService {
+  protected readonly logger: Logger;
+  private readonly intervalSeconds: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private round?: Promise<void>;
+
+  protected constructor(intervalSeconds: number, logger?: Logger) {
+    this.intervalSeconds = intervalSeconds;
+    this.logger = logger ?? console;
+  }
+
+  /** Human readable service name used in failure logs. */
+  protected abstract readonly name: string;
+
+  abstract runOnce(): Promise<unknown>;
+
+  /** Starts running rounds every `intervalSeconds` until `stop` is called. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      this.round = this.runOnce().then(
+        () => undefined,
+        (error) => {
+          this.logger.error(`❌ ${this.name} round failed:`, error);
+        }
+      );
+      await this.round;
+      this.round = undefined;
+      if (this.running) {
+        this.timer = setTimeout(tick, this.intervalSeconds * 1000);
+      }
+    };
+    void tick();
+  }
+
+  /** Stops scheduling rounds; resolves once the round in flight settles. */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.round;
+  }
+}
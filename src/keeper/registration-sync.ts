@@ -0,0 +1,143 @@
+import { ethers } from 'ethers';
+import type { CacheManagerAutomation } from '../../build/typechain-types';
+import { fetchRegistrations, Registration } from '../sdk/registrations';
+import { KeeperStateStore } from './state-store';
+import { Logger } from './types';
+
+/** Every event that changes a user's registration list; all index the user. */
+const REGISTRATION_EVENTS = [
+  'ContractAdded',
+  'ContractUpdated',
+  'ContractRemoved',
+  'ContractAutoActivateUpdated',
+  'ContractMaxActivationCostUpdated',
+] as const;
+
+const DEFAULT_MAX_BLOCK_RANGE = 10_000;
+
+export interface RegistrationSyncOptions {
+  cma: CacheManagerAutomation;
+  store: KeeperStateStore;
+  /** Largest block range requested from `eth_getLogs` at once. */
+  maxBlockRange?: number;
+  logger?: Logger;
+}
+
+/**
+ * Keeps the stored registration snapshot in line with the chain.
+ *
+ * @description The first sync (or the first one against a different CMA)
+ * walks `getContractsPaginated`. Later syncs only read the registration
+ * events emitted since the last processed block and re-read the contract
+ * lists of the users they mention, so a restart doesn't rescan every user.
+ * Syncs are serialized, so the bidding keeper and the activation watcher can
+ * share one instance.
+ */
+export class RegistrationSync {
+  private readonly cma: CacheManagerAutomation;
+  private readonly store: KeeperStateStore;
+  private readonly maxBlockRange: number;
+  private readonly logger: Logger;
+  private syncing: Promise<unknown> = Promise.resolve();
+
+  constructor(options: RegistrationSyncOptions) {
+    this.cma = options.cma;
+    this.store = options.store;
+    this.maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Brings the snapshot up to the current block.
+   *
+   * @returns Every registration as of the current block
+   */
+  sync(): Promise<Registration[]> {
+    const run = () => this.syncOnce();
+    const result = this.syncing.then(run, run);
+    this.syncing = result.catch(() => undefined);
+    return result;
+  }
+
+  private async syncOnce(): Promise<Registration[]> {
+    const provider = this.getProvider();
+    const cmaAddress = await this.cma.getAddress();
+    const head = await provider.getBlockNumber();
+    const lastProcessed = await this.store.getLastProcessedBlock();
+    const storedCma = await this.store.getCmaAddress();
+
+    if (
+      lastProcessed === undefined ||
+      storedCma?.toLowerCase() !== cmaAddress.toLowerCase()
+    ) {
+      this.logger.log(`🔄 Full registration scan at block ${head}`);
+      const registrations = await fetchRegistrations(this.cma, head);
+      await this.store.replaceRegistrations(cmaAddress, registrations, head);
+      return registrations;
+    }
+    if (head <= lastProcessed) return this.store.loadRegistrations();
+
+    const users = await this.changedUsers(cmaAddress, lastProcessed + 1, head);
+    const byUser = new Map<string, Registration[]>();
+    // getUserContracts reads msg.sender; signers refuse a foreign `from`.
+    const reader = this.cma.connect(provider);
+    for (const user of users) {
+      const contracts = await reader.getUserContracts({
+        from: user,
+        blockTag: head,
+      });
+      byUser.set(
+        user,
+        contracts.map((config) => ({
+          user,
+          contractAddress: config.contractAddress,
+          maxBid: config.maxBid,
+          enabled: config.enabled,
+          autoActivate: config.autoActivate,
+          maxActivationCost: config.maxActivationCost,
+        }))
+      );
+    }
+    await this.store.updateUserRegistrations(byUser, head);
+
+    if (users.size > 0) {
+      this.logger.log(
+        `🔄 Synced registrations of ${users.size} users up to block ${head}`
+      );
+    }
+    return this.store.loadRegistrations();
+  }
+
+  private async changedUsers(
+    cmaAddress: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Set<string>> {
+    const topics = REGISTRATION_EVENTS.map(
+      (name) => this.cma.interface.getEvent(name).topicHash
+    );
+    const users = new Set<string>();
+
+    for (let from = fromBlock; from <= toBlock; from += this.maxBlockRange) {
+      const to = Math.min(from + this.maxBlockRange - 1, toBlock);
+      const logs = await this.getProvider().getLogs({
+        address: cmaAddress,
+        fromBlock: from,
+        toBlock: to,
+        topics: [topics],
+      });
+      for (const log of logs) {
+        users.add(ethers.getAddress(ethers.dataSlice(log.topics[1], 12)));
+      }
+    }
+    return users;
+  }
+
+  private getProvider(): ethers.Provider {
+    const provider = this.cma.runner?.provider;
+    if (!provider) {
+      throw new Error('CacheManagerAutomation must be connected to a provider');
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,86 @@
+import { ethers } from 'ethers';
+import { Registration } from '../sdk/registrations';
+
+/** A registration with the escrow balance of its user. */
+export interface FundedRegistration extends Registration {
+  balance: bigint;
+}
+
+/** Registrations whose programs have identical code, hence one cache entry. */
+export interface SharedCodeGroup {
+  codehash: string;
+  registrations: Registration[];
+}
+
+/**
+ * Groups registrations by the codehash of their program.
+ *
+ * @param provider Provider to read code from
+ * @param registrations Registrations to group; programs without code are left out
+ * @returns Codehash → registrations, in the order they were given
+ */
+export async function groupByCodehash(
+  provider: ethers.Provider,
+  registrations: Registration[]
+): Promise<Map<string, Registration[]>> {
+  const codehashByProgram = new Map<string, string | null>();
+  const groups = new Map<string, Registration[]>();
+
+  for (const registration of registrations) {
+    const program = registration.contractAddress.toLowerCase();
+    let codehash = codehashByProgram.get(program);
+    if (codehash === undefined) {
+      const code = await provider.getCode(registration.contractAddress);
+      codehash = code === '0x' ? null : ethers.keccak256(code);
+      codehashByProgram.set(program, codehash);
+    }
+    if (codehash === null) continue;
+
+    const group = groups.get(codehash) ?? [];
+    group.push(registration);
+    groups.set(codehash, group);
+  }
+  return groups;
+}
+
+/**
+ * Lists the registrations that share code with at least one other
+ * registration (another user, or the same user at another address).
+ */
+export async function findSharedCode(
+  provider: ethers.Provider,
+  registrations: Registration[]
+): Promise<SharedCodeGroup[]> {
+  const groups = await groupByCodehash(provider, registrations);
+  return [...groups]
+    .filter(([, members]) => members.length > 1)
+    .map(([codehash, members]) => ({ codehash, registrations: members }));
+}
+
+/**
+ * What a registration can actually bid: its maxBid, capped by the escrow
+ * balance of its user.
+ */
+export function biddingPower({ maxBid, balance }: FundedRegistration): bigint {
+  return maxBid < balance ? maxBid : balance;
+}
+
+/**
+ * Picks the registration that should bid for a shared cache entry.
+ *
+ * @description The highest `biddingPower` wins, so the bid comes from the
+ * registration most likely to keep the entry cached. Ties go to the first
+ * registration, keeping the choice stable between rounds.
+ *
+ * @param candidates Registrations sharing one codehash (at least one)
+ */
+export function selectBestFunded<T extends FundedRegistration>(
+  candidates: T[]
+): T {
+  if (candidates.length === 0) {
+    throw new Error('selectBestFunded needs at least one candidate');
+  }
+  return candidates.reduce((best, candidate) =>
+    biddingPower(candidate) > biddingPower(best) ? candidate : best
+  );
+}
@@ -0,0 +1,246 @@
+import { Database, openDatabase } from '../db/sqlite';
+import { KEEPER_MIGRATIONS } from '../db/migrations';
+import { Registration } from '../sdk/registrations';
+import { UserContractPair } from './types';
+
+/** How a bid request ended up: an event from placeBids, or none (skipped). */
+export type BidOutcome = 'BidPlaced' | 'BidError' | 'Skipped';
+
+export interface BidAttempt extends UserContractPair {
+  /** Unix seconds. */
+  attemptedAt: number;
+  blockNumber: number;
+  txHash: string;
+  outcome: BidOutcome;
+  /** Amount from the BidPlaced/BidError event, when there was one. */
+  bidAmount?: bigint;
+  /** Unix seconds before which the pair shouldn't be sent again. */
+  nextCheckAt: number;
+}
+
+interface RegistrationRow {
+  user: string;
+  contract_address: string;
+  max_bid: string;
+  enabled: number;
+  auto_activate: number;
+  max_activation_cost: string;
+}
+
+interface BidAttemptRow {
+  user: string;
+  contract_address: string;
+  attempted_at: number;
+  block_number: number;
+  tx_hash: string;
+  outcome: BidOutcome;
+  bid_amount: string | null;
+  next_check_at: number;
+}
+
+const LAST_PROCESSED_BLOCK = 'last_processed_block';
+const CMA_ADDRESS = 'cma_address';
+
+/** Key used to look up per-pair state; addresses compare case-insensitively. */
+export function pairKey({ user, contractAddress }: UserContractPair): string {
+  return `${user.toLowerCase()}:${contractAddress.toLowerCase()}`;
+}
+
+/**
+ * The keeper's persisted view of the chain, backed by SQLite.
+ *
+ * @description Holds the registration snapshot with the block it is current
+ * as of, and the last bid attempt for every (user, contract) pair, so a
+ * restarted keeper can resume instead of re-scanning and re-submitting.
+ */
+export class KeeperStateStore {
+  private readonly db: Database;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  private constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * Opens the store, creating and migrating the database if needed.
+   *
+   * @param filename Database file, or `:memory:`
+   */
+  static async open(filename: string): Promise<KeeperStateStore> {
+    return new KeeperStateStore(
+      await openDatabase(filename, KEEPER_MIGRATIONS)
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+
+  /** Block the registration snapshot is current as of, if any. */
+  async getLastProcessedBlock(): Promise<number | undefined> {
+    const value = await this.getMeta(LAST_PROCESSED_BLOCK);
+    return value === undefined ? undefined : Number(value);
+  }
+
+  /** CMA address the stored state belongs to, if any. */
+  async getCmaAddress(): Promise<string | undefined> {
+    return this.getMeta(CMA_ADDRESS);
+  }
+
+  /** Registrations as of `getLastProcessedBlock`, in insertion order. */
+  async loadRegistrations(): Promise<Registration[]> {
+    const rows = await this.db.all<RegistrationRow[]>(
+      'SELECT * FROM registrations ORDER BY rowid'
+    );
+    return rows.map((row) => ({
+      user: row.user,
+      contractAddress: row.contract_address,
+      maxBid: BigInt(row.max_bid),
+      enabled: row.enabled === 1,
+      autoActivate: row.auto_activate === 1,
+      maxActivationCost: BigInt(row.max_activation_cost),
+    }));
+  }
+
+  /**
+   * Replaces the whole snapshot, e.g. after a full `getContractsPaginated`
+   * walk. Bid attempts are dropped when the CMA address changes.
+   *
+   * @param cmaAddress CMA the registrations were read from
+   * @param registrations Every registration as of `block`
+   * @param block Block the registrations were read at
+   */
+  async replaceRegistrations(
+    cmaAddress: string,
+    registrations: Registration[],
+    block: number
+  ): Promise<void> {
+    await this.transaction(async () => {
+      if (
+        (await this.getCmaAddress())?.toLowerCase() !== cmaAddress.toLowerCase()
+      ) {
+        await this.db.run('DELETE FROM bid_attempts');
+        await this.setMeta(CMA_ADDRESS, cmaAddress);
+      }
+      await this.db.run('DELETE FROM registrations');
+      for (const registration of registrations) {
+        await this.insertRegistration(registration);
+      }
+      await this.setMeta(LAST_PROCESSED_BLOCK, String(block));
+    });
+  }
+
+  /**
+   * Replaces the registrations of the given users only.
+   *
+   * @param byUser Each changed user's full registration list as of `block`
+   * @param block Block the registrations were read at
+   */
+  async updateUserRegistrations(
+    byUser: Map<string, Registration[]>,
+    block: number
+  ): Promise<void> {
+    await this.transaction(async () => {
+      for (const [user, registrations] of byUser) {
+        await this.db.run(
+          'DELETE FROM registrations WHERE lower(user) = lower(?)',
+          user
+        );
+        for (const registration of registrations) {
+          await this.insertRegistration(registration);
+        }
+      }
+      await this.setMeta(LAST_PROCESSED_BLOCK, String(block));
+    });
+  }
+
+  async recordBidAttempts(attempts: BidAttempt[]): Promise<void> {
+    await this.transaction(async () => {
+      for (const attempt of attempts) {
+        await this.db.run(
+          `INSERT OR REPLACE INTO bid_attempts
+            (user, contract_address, attempted_at, block_number, tx_hash,
+             outcome, bid_amount, next_check_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          attempt.user,
+          attempt.contractAddress,
+          attempt.attemptedAt,
+          attempt.blockNumber,
+          attempt.txHash,
+          attempt.outcome,
+          attempt.bidAmount?.toString() ?? null,
+          attempt.nextCheckAt
+        );
+      }
+    });
+  }
+
+  /** Last bid attempt of every pair, keyed by `pairKey`. */
+  async loadBidAttempts(): Promise<Map<string, BidAttempt>> {
+    const rows = await this.db.all<BidAttemptRow[]>(
+      'SELECT * FROM bid_attempts'
+    );
+    const attempts = new Map<string, BidAttempt>();
+    for (const row of rows) {
+      const attempt: BidAttempt = {
+        user: row.user,
+        contractAddress: row.contract_address,
+        attemptedAt: row.attempted_at,
+        blockNumber: row.block_number,
+        txHash: row.tx_hash,
+        outcome: row.outcome,
+        bidAmount: row.bid_amount === null ? undefined : BigInt(row.bid_amount),
+        nextCheckAt: row.next_check_at,
+      };
+      attempts.set(pairKey(attempt), attempt);
+    }
+    return attempts;
+  }
+
+  private async insertRegistration(registration: Registration): Promise<void> {
+    await this.db.run(
+      `INSERT OR REPLACE INTO registrations
+        (user, contract_address, max_bid, enabled, auto_activate, max_activation_cost)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      registration.user,
+      registration.contractAddress,
+      registration.maxBid.toString(),
+      registration.enabled ? 1 : 0,
+      registration.autoActivate ? 1 : 0,
+      registration.maxActivationCost.toString()
+    );
+  }
+
+  private async getMeta(key: string): Promise<string | undefined> {
+    const row = await this.db.get<{ value: string }>(
+      'SELECT value FROM keeper_meta WHERE key = ?',
+      key
+    );
+    return row?.value;
+  }
+
+  private async setMeta(key: string, value: string): Promise<void> {
+    await this.db.run(
+      'INSERT OR REPLACE INTO keeper_meta (key, value) VALUES (?, ?)',
+      key,
+      value
+    );
+  }
+
+  /** Runs `body` in a transaction; writers sharing the connection queue up. */
+  private transaction(body: () => Promise<void>): Promise<void> {
+    const run = async () => {
+      await this.db.exec('BEGIN');
+      try {
+        await body();
+        await this.db.exec('COMMIT');
+      } catch (error) {
+        await this.db.exec('ROLLBACK');
+        throw error;
+      }
+    };
+    const result = this.writing.then(run, run);
+    this.writing = result.catch(() => undefined);
+    return result;
+  }
+}
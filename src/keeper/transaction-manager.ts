@@ -0,0 +1,346 @@
+import { ethers } from 'ethers';
+import { ignition } from '../../config/ignition';
+import { ContractRevertError, revertDecoder } from '../sdk/revert-decoder';
+import { Logger } from './types';
+
+export interface TransactionManagerOptions {
+  signer: ethers.Signer;
+  /** Blocks a receipt needs before `send` resolves (defaults to ignition's). */
+  requiredConfirmations?: number;
+  /** How long a broadcast may stay unmined before it is replaced. */
+  replaceAfterSeconds?: number;
+  /** Fee increase applied on every replacement, in percent. */
+  feeBumpPercent?: number;
+  /** Replacements attempted before `send` gives up. */
+  maxReplacements?: number;
+  pollIntervalMs?: number;
+  logger?: Logger;
+}
+
+export type TransactionFees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint };
+
+const DEFAULT_REPLACE_AFTER_SECONDS = 120;
+const DEFAULT_FEE_BUMP_PERCENT = 20;
+const DEFAULT_MAX_REPLACEMENTS = 5;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function raise(value: bigint, percent: number): bigint {
+  const bumped = (value * BigInt(100 + percent) + 99n) / 100n;
+  return bumped > value ? bumped : value + 1n;
+}
+
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Raises every fee field by `percent`, rounding up.
+ *
+ * @param fees Fees of the transaction being replaced
+ * @param percent Increase in percent (nodes usually require at least 10)
+ * @param floor Current network fees; the result never goes below them
+ */
+export function bumpFees(
+  fees: TransactionFees,
+  percent: number,
+  floor?: TransactionFees
+): TransactionFees {
+  if ('gasPrice' in fees) {
+    const gasPrice = raise(fees.gasPrice, percent);
+    return {
+      gasPrice:
+        floor && 'gasPrice' in floor ? max(gasPrice, floor.gasPrice) : gasPrice,
+    };
+  }
+  const maxFeePerGas = raise(fees.maxFeePerGas, percent);
+  const maxPriorityFeePerGas = raise(fees.maxPriorityFeePerGas, percent);
+  if (!floor || 'gasPrice' in floor) {
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+  return {
+    maxFeePerGas: max(maxFeePerGas, floor.maxFeePerGas),
+    maxPriorityFeePerGas: max(maxPriorityFeePerGas, floor.maxPriorityFeePerGas),
+  };
+}
+
+function feesOf(transaction: ethers.TransactionRequest): TransactionFees {
+  if (
+    transaction.maxFeePerGas != null &&
+    transaction.maxPriorityFeePerGas != null
+  ) {
+    return {
+      maxFeePerGas: ethers.getBigInt(transaction.maxFeePerGas),
+      maxPriorityFeePerGas: ethers.getBigInt(transaction.maxPriorityFeePerGas),
+    };
+  }
+  return { gasPrice: ethers.getBigInt(transaction.gasPrice ?? 0) };
+}
+
+function errorMessage(error: unknown): string {
+  const { code, message } = (error ?? {}) as {
+    code?: string;
+    message?: string;
+  };
+  return `${code ?? ''} ${message ?? ''}`;
+}
+
+const isNonceTooLow = (error: unknown) =>
+  /NONCE_EXPIRED|nonce too low/i.test(errorMessage(error));
+
+const isUnderpriced = (error: unknown) =>
+  /REPLACEMENT_UNDERPRICED|underpriced|already known|known transaction/i.test(
+    errorMessage(error)
+  );
+
+/**
+ * Sends keeper transactions from a single account without getting stuck.
+ *
+ * @description Nonces are tracked locally and only advance once a broadcast
+ * is accepted, so a failed send never leaves a gap. A transaction that stays
+ * unmined for `replaceAfterSeconds` is re-broadcast with the same nonce and
+ * bumped EIP-1559 (or legacy) fees, and `send` resolves once any of the
+ * broadcasts has `requiredConfirmations`. On start the nonce is read from the
+ * latest block rather than the pending pool, so transactions left pending by
+ * a previous run get replaced instead of blocking the queue.
+ */
+export class TransactionManager {
+  private readonly signer: ethers.Signer;
+  private readonly requiredConfirmations: number;
+  private readonly replaceAfterMs: number;
+  private readonly feeBumpPercent: number;
+  private readonly maxReplacements: number;
+  private readonly pollIntervalMs: number;
+  private readonly logger: Logger;
+  private nextNonce?: number;
+  private broadcasting: Promise<unknown> = Promise.resolve();
+
+  constructor(options: TransactionManagerOptions) {
+    this.signer = options.signer;
+    this.requiredConfirmations =
+      options.requiredConfirmations ?? ignition.requiredConfirmations;
+    this.replaceAfterMs =
+      (options.replaceAfterSeconds ?? DEFAULT_REPLACE_AFTER_SECONDS) * 1000;
+    this.feeBumpPercent = options.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT;
+    this.maxReplacements = options.maxReplacements ?? DEFAULT_MAX_REPLACEMENTS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Sends a transaction and waits until it is confirmed.
+   *
+   * @param request Transaction to send; nonce and fees are filled in here
+   * @returns The receipt of whichever broadcast got mined
+   * @throws ContractRevertError if gas estimation hits a known revert
+   * @throws If the transaction reverts, its nonce is taken by a transaction
+   * this manager didn't send, or it is still unmined after `maxReplacements`
+   */
+  async send(
+    request: ethers.TransactionRequest
+  ): Promise<ethers.TransactionReceipt> {
+    const { transaction, hash } = await this.exclusive(() =>
+      this.broadcastNew(request)
+    ).catch((error) => {
+      // A transaction that would revert is refused at gas estimation.
+      const decoded = revertDecoder.decodeError(error);
+      throw decoded ? new ContractRevertError(decoded, error) : error;
+    });
+    return this.waitForConfirmation(transaction, [hash]);
+  }
+
+  /** Forgets the local nonce so the next send re-reads it from the chain. */
+  resetNonce(): void {
+    this.nextNonce = undefined;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.broadcasting.then(task, task);
+    this.broadcasting = run.catch(() => undefined);
+    return run;
+  }
+
+  private get provider(): ethers.Provider {
+    if (!this.signer.provider) {
+      throw new Error('TransactionManager signer must have a provider');
+    }
+    return this.signer.provider;
+  }
+
+  private async loadNonce(): Promise<number> {
+    const address = await this.signer.getAddress();
+    const [latest, pending] = await Promise.all([
+      this.provider.getTransactionCount(address, 'latest'),
+      this.provider.getTransactionCount(address, 'pending'),
+    ]);
+    if (pending > latest) {
+      this.logger.warn(
+        `⚠️ ${
+          pending - latest
+        } transactions from ${address} are still pending; ` +
+          `replacing them starting at nonce ${latest}`
+      );
+    }
+    return latest;
+  }
+
+  private async networkFees(): Promise<TransactionFees> {
+    const feeData = await this.provider.getFeeData();
+    if (
+      feeData.maxFeePerGas !== null &&
+      feeData.maxPriorityFeePerGas !== null
+    ) {
+      return {
+        maxFeePerGas: feeData.maxFeePerGas,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+      };
+    }
+    if (feeData.gasPrice === null) {
+      throw new Error('Provider returned no fee data');
+    }
+    return { gasPrice: feeData.gasPrice };
+  }
+
+  private async broadcastNew(request: ethers.TransactionRequest): Promise<{
+    transaction: ethers.TransactionRequest;
+    hash: string;
+  }> {
+    for (let attempt = 0; ; attempt++) {
+      const nonce = (this.nextNonce ??= await this.loadNonce());
+      const fees = await this.networkFees();
+      const transaction = {
+        ...(await this.signer.populateTransaction({
+          ...request,
+          ...fees,
+          nonce,
+        })),
+      } as ethers.TransactionRequest;
+
+      try {
+        const hash = await this.broadcast(transaction, fees);
+        this.nextNonce = nonce + 1;
+        return { transaction, hash };
+      } catch (error) {
+        // Someone else used this account: re-read the nonce once and retry.
+        if (attempt === 0 && isNonceTooLow(error)) {
+          this.resetNonce();
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Broadcasts `transaction`, bumping its fees while the node rejects it as
+   * an underpriced replacement of a transaction already in the pool.
+   */
+  private async broadcast(
+    transaction: ethers.TransactionRequest,
+    fees: TransactionFees
+  ): Promise<string> {
+    for (let bumps = 0; ; bumps++) {
+      try {
+        const response = await this.signer.sendTransaction({
+          ...transaction,
+          ...fees,
+        });
+        Object.assign(transaction, fees);
+        return response.hash;
+      } catch (error) {
+        if (!isUnderpriced(error) || bumps >= this.maxReplacements) throw error;
+        fees = bumpFees(fees, this.feeBumpPercent);
+      }
+    }
+  }
+
+  private async findReceipt(
+    hashes: string[]
+  ): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  private async waitForConfirmation(
+    transaction: ethers.TransactionRequest,
+    hashes: string[]
+  ): Promise<ethers.TransactionReceipt> {
+    const nonce = Number(transaction.nonce);
+    const from = await this.signer.getAddress();
+    let replacements = 0;
+    let deadline = Date.now() + this.replaceAfterMs;
+
+    for (;;) {
+      // Re-read every poll: a reorg can drop a receipt we have already seen.
+      const receipt = await this.findReceipt(hashes);
+      if (receipt) {
+        if ((await receipt.confirmations()) >= this.requiredConfirmations) {
+          if (receipt.status === 0) {
+            throw new Error(`Transaction ${receipt.hash} reverted`);
+          }
+          return receipt;
+        }
+      } else if (
+        (await this.provider.getTransactionCount(from, 'latest')) > nonce
+      ) {
+        // The nonce was mined between the two reads, or by someone else.
+        if (await this.findReceipt(hashes)) continue;
+        await this.exclusive(async () => this.resetNonce());
+        throw new Error(
+          `Nonce ${nonce} of ${from} was used by another transaction`
+        );
+      } else if (Date.now() >= deadline) {
+        if (replacements >= this.maxReplacements) {
+          // Re-read the nonce from the latest block so the next send replaces
+          // this transaction instead of queueing behind it. Queued behind any
+          // broadcast in flight, which would otherwise advance a cleared nonce.
+          await this.exclusive(async () => this.resetNonce());
+          throw new Error(
+            `Transaction with nonce ${nonce} still unmined after ${replacements} replacements`
+          );
+        }
+        replacements++;
+        const fees = bumpFees(
+          feesOf(transaction),
+          this.feeBumpPercent,
+          await this.networkFees()
+        );
+        try {
+          hashes.push(await this.broadcast(transaction, fees));
+          this.logger.log(
+            `🔁 Replaced transaction with nonce ${nonce} (attempt ${replacements}/${this.maxReplacements})`
+          );
+        } catch (error) {
+          // One of the previous broadcasts got mined meanwhile.
+          if (!isNonceTooLow(error)) throw error;
+        }
+        deadline = Date.now() + this.replaceAfterMs;
+        continue;
+      }
+      await sleep(this.pollIntervalMs);
+    }
+  }
+}
+
+/**
+ * Builds a TransactionManager with default settings on the signer a contract
+ * is connected to.
+ *
+ * @throws If the contract is only connected to a provider
+ */
+export function createTransactionManager(
+  contract: ethers.BaseContract,
+  logger?: Logger
+): TransactionManager {
+  const runner = contract.runner;
+  if (!runner || !('getAddress' in runner)) {
+    throw new Error(
+      'Contract must be connected to a signer to send transactions'
+    );
+  }
+  return new TransactionManager({ signer: runner as ethers.Signer, logger });
+}
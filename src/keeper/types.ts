@@ -0,0 +1,8 @@
+/** Minimal logging surface used by the keeper services. Defaults to `console`. */
+export type Logger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+/** A (user, contract) pair as accepted by `placeBids` / `placeActivations`. */
+export interface UserContractPair {
+  user: string;
+  contractAddress: string;
+}
@@ -0,0 +1,235 @@
+import { ethers } from 'ethers';
+import {
+  BiddingEscrow__factory,
+  type BiddingEscrow,
+  type CacheManagerAutomation,
+} from '../../build/typechain-types';
+import { iterateRegistrations } from './registrations';
+
+const DEFAULT_MAX_BLOCK_RANGE = 2_000;
+
+/** Which invariant a finding breaks. */
+export type AuditCheck = 'escrow-solvency' | 'cma-idle-eth' | 'escrow-owner';
+
+export interface AuditFinding {
+  check: AuditCheck;
+  message: string;
+}
+
+/** An escrow account the audit summed. */
+export interface AuditedAccount {
+  address: string;
+  deposits: bigint;
+  /** Whether the account is in the CMA's `usersWithContracts`. */
+  registered: boolean;
+}
+
+export interface SolvencyReport {
+  blockNumber: number;
+  cma: string;
+  escrow: string;
+  /** ETH the escrow holds. */
+  escrowBalance: bigint;
+  /** Sum of `depositsOf` over `accounts`. */
+  totalDeposits: bigint;
+  /** `escrowBalance - totalDeposits`; 0 when solvent and fully accounted. */
+  difference: bigint;
+  /** ETH the CMA holds; it should never keep any between transactions. */
+  cmaBalance: bigint;
+  registeredUsers: number;
+  /** Accounts with a non-zero deposit, largest first. */
+  accounts: AuditedAccount[];
+  findings: AuditFinding[];
+}
+
+export interface AuditOptions {
+  /** Block to audit at; tags like `latest` are resolved once, up front. */
+  blockTag?: ethers.BlockTag;
+  /**
+   * Accounts that deposited at some point, e.g. from `findEscrowDepositors`
+   * or the indexer. Users who removed every contract are no longer in
+   * `usersWithContracts` but can still hold a deposit, so without them the
+   * escrow looks over-funded.
+   */
+  depositors?: string[];
+}
+
+/**
+ * Checks the CMA's balance invariants at one block.
+ *
+ * @description The escrow must hold exactly the sum of `depositsOf` over
+ * every account it credited: less means it is insolvent, more means ETH
+ * arrived outside `deposit` or a depositor is missing from the audit. The
+ * CMA itself only passes ETH through within a transaction (`receive()`
+ * rejects other senders to keep `_doActivation`'s balance-delta refunds
+ * right), so any balance it keeps is stuck and means ETH reached it some
+ * other way. The escrow must also still be owned by the CMA. Every read uses
+ * the same block.
+ *
+ * @param cma CMA connected to a provider
+ * @returns The report; `findings` is empty when every invariant holds
+ */
+export async function auditSolvency(
+  cma: CacheManagerAutomation,
+  options: AuditOptions = {}
+): Promise<SolvencyReport> {
+  const provider = cma.runner?.provider;
+  if (!provider) {
+    throw new Error('CacheManagerAutomation must be connected to a provider');
+  }
+  const block = await provider.getBlock(options.blockTag ?? 'latest');
+  if (!block) throw new Error(`Block ${options.blockTag} not found`);
+  const blockTag = block.number;
+
+  const cmaAddress = await cma.getAddress();
+  const escrowAddress = await cma.escrow({ blockTag });
+  const escrow = BiddingEscrow__factory.connect(escrowAddress, provider);
+
+  const registered = new Set<string>();
+  for await (const page of iterateRegistrations(cma, { blockTag })) {
+    for (const { user } of page.users) {
+      registered.add(ethers.getAddress(user));
+    }
+  }
+  const addresses = new Set([
+    ...registered,
+    ...(options.depositors ?? []).map((address) => ethers.getAddress(address)),
+  ]);
+
+  const [escrowBalance, cmaBalance, escrowOwner, deposits] = await Promise.all([
+    provider.getBalance(escrowAddress, blockTag),
+    provider.getBalance(cmaAddress, blockTag),
+    escrow.owner({ blockTag }),
+    Promise.all(
+      [...addresses].map(async (address) => ({
+        address,
+        deposits: await escrow.depositsOf(address, { blockTag }),
+        registered: registered.has(address),
+      }))
+    ),
+  ]);
+
+  const accounts = deposits
+    .filter(({ deposits }) => deposits > 0n)
+    .sort((a, b) =>
+      a.deposits === b.deposits ? 0 : a.deposits > b.deposits ? -1 : 1
+    );
+  const totalDeposits = accounts.reduce(
+    (sum, { deposits }) => sum + deposits,
+    0n
+  );
+  const difference = escrowBalance - totalDeposits;
+
+  const findings: AuditFinding[] = [];
+  if (difference < 0n) {
+    findings.push({
+      check: 'escrow-solvency',
+      message: `Escrow is insolvent: it holds ${eth(
+        escrowBalance
+      )} but owes ${eth(totalDeposits)} (short ${eth(-difference)})`,
+    });
+  } else if (difference > 0n) {
+    findings.push({
+      check: 'escrow-solvency',
+      message: `Escrow holds ${eth(difference)} more than its ${eth(
+        totalDeposits
+      )} of deposits: ETH sent outside deposit(), or depositors missing from the audit`,
+    });
+  }
+  if (cmaBalance > 0n) {
+    findings.push({
+      check: 'cma-idle-eth',
+      message: `CMA holds ${eth(
+        cmaBalance
+      )} of idle ETH; nothing can release it, and it arrived outside the bid and activation flows`,
+    });
+  }
+  if (escrowOwner.toLowerCase() !== cmaAddress.toLowerCase()) {
+    findings.push({
+      check: 'escrow-owner',
+      message: `Escrow is owned by ${escrowOwner}, not the CMA`,
+    });
+  }
+
+  return {
+    blockNumber: blockTag,
+    cma: cmaAddress,
+    escrow: escrowAddress,
+    escrowBalance,
+    totalDeposits,
+    difference,
+    cmaBalance,
+    registeredUsers: registered.size,
+    accounts,
+    findings,
+  };
+}
+
+/**
+ * Every payee of an escrow `Deposited` event in a block range, sorted.
+ *
+ * @param maxBlockRange Largest range requested from `eth_getLogs` at once
+ */
+export async function findEscrowDepositors(
+  escrow: BiddingEscrow,
+  fromBlock: number,
+  toBlock: number,
+  maxBlockRange = DEFAULT_MAX_BLOCK_RANGE
+): Promise<string[]> {
+  const depositors = new Set<string>();
+  for (let from = fromBlock; from <= toBlock; from += maxBlockRange) {
+    const events = await escrow.queryFilter(
+      escrow.filters.Deposited(),
+      from,
+      Math.min(from + maxBlockRange - 1, toBlock)
+    );
+    for (const event of events) {
+      depositors.add(ethers.getAddress(event.args.payee));
+    }
+  }
+  return [...depositors].sort();
+}
+
+/** Renders a report for the terminal. */
+export function renderSolvencyReport(report: SolvencyReport): string {
+  const unregistered = report.accounts.filter(({ registered }) => !registered);
+  const lines = [
+    `Solvency audit at block ${report.blockNumber}`,
+    `  CMA:            ${report.cma}`,
+    `  escrow:         ${report.escrow}`,
+    `  escrow balance: ${eth(report.escrowBalance)}`,
+    `  deposits:       ${eth(report.totalDeposits)} over ${
+      report.accounts.length
+    } accounts (${report.registeredUsers} registered users, ${
+      unregistered.length
+    } funded accounts without registrations)`,
+    `  difference:     ${eth(report.difference)}`,
+    `  CMA balance:    ${eth(report.cmaBalance)}`,
+  ];
+
+  if (report.accounts.length > 0) {
+    lines.push('', 'Deposits');
+    for (const account of report.accounts) {
+      lines.push(
+        `  ${account.address}  ${eth(account.deposits)}${
+          account.registered ? '' : '  (no registrations)'
+        }`
+      );
+    }
+  }
+
+  lines.push('');
+  if (report.findings.length === 0) {
+    lines.push('✅ All invariants hold');
+  } else {
+    lines.push(`❌ ${report.findings.length} invariant(s) broken`);
+    for (const finding of report.findings) {
+      lines.push(`  [${finding.check}] ${finding.message}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function eth(wei: bigint): string {
+  return `${ethers.formatEther(wei)} ETH`;
+}
@@ -0,0 +1,386 @@
+import { ethers } from 'ethers';
+import {
+  CacheManagerAutomation__factory,
+  type CacheManagerAutomation,
+} from '../../build/typechain-types';
+import { ContractRevertError, revertDecoder } from './revert-decoder';
+
+/** Custom errors the user-facing CMA functions revert with. */
+export type CmaErrorCode =
+  | 'InvalidAddress'
+  | 'NotStylusProgram'
+  | 'InvalidBid'
+  | 'InvalidActivationCost'
+  | 'TooManyContracts'
+  | 'ContractAlreadyExists'
+  | 'ContractNotFound'
+  | 'InvalidFundAmount'
+  | 'ExceedsMaxUserFunds'
+  | 'InsufficientBalance';
+
+const CMA_ERROR_CODES: readonly string[] = [
+  'InvalidAddress',
+  'NotStylusProgram',
+  'InvalidBid',
+  'InvalidActivationCost',
+  'TooManyContracts',
+  'ContractAlreadyExists',
+  'ContractNotFound',
+  'InvalidFundAmount',
+  'ExceedsMaxUserFunds',
+  'InsufficientBalance',
+] satisfies CmaErrorCode[];
+
+/**
+ * A CMA call that was refused, either by the client's preflight checks or by
+ * the contract itself.
+ *
+ * @description `code` is the name of the contract's custom error, so callers
+ * can switch on it the same way whichever side caught the problem.
+ */
+export class CmaClientError extends Error {
+  readonly code: CmaErrorCode;
+  /** `preflight` if the transaction was never sent. */
+  readonly source: 'preflight' | 'revert';
+
+  constructor(
+    code: CmaErrorCode,
+    message: string,
+    source: 'preflight' | 'revert' = 'preflight'
+  ) {
+    super(`${code}: ${message}`);
+    this.name = 'CmaClientError';
+    this.code = code;
+    this.source = source;
+  }
+}
+
+/** A user's registration as returned by `getUserContracts`. */
+export interface ContractConfig {
+  contractAddress: string;
+  maxBid: bigint;
+  enabled: boolean;
+  autoActivate: boolean;
+  maxActivationCost: bigint;
+}
+
+export interface ContractSettings {
+  maxBid: bigint;
+  /** Defaults to true. */
+  enabled?: boolean;
+  /** Defaults to false. */
+  autoActivate?: boolean;
+  /** Required (non-zero) when `autoActivate` is set. */
+  maxActivationCost?: bigint;
+}
+
+/** The CMA limits the preflight checks compare against. */
+export interface CmaLimits {
+  minMaxBidAmount: bigint;
+  maxUserFunds: bigint;
+  minFundAmount: bigint;
+  maxContractsPerUser: bigint;
+}
+
+/**
+ * Typed wrapper around the user-facing CacheManagerAutomation functions.
+ *
+ * @description Every write first checks the conditions the contract would
+ * revert on and throws a `CmaClientError` naming the failed check, instead of
+ * paying for a transaction that reverts with an opaque payload. If the state
+ * changes between the check and the transaction, the revert is decoded into
+ * the same error. Writes resolve once the transaction is mined.
+ */
+export class CmaClient {
+  readonly cma: CacheManagerAutomation;
+  private readonly signer: ethers.Signer;
+
+  /**
+   * @param cma CacheManagerAutomation connected to the user's signer
+   */
+  constructor(cma: CacheManagerAutomation) {
+    const runner = cma.runner;
+    if (!runner || !('getAddress' in runner)) {
+      throw new Error('CacheManagerAutomation must be connected to a signer');
+    }
+    this.cma = cma;
+    this.signer = runner as ethers.Signer;
+  }
+
+  static connect(address: string, signer: ethers.Signer): CmaClient {
+    return new CmaClient(
+      CacheManagerAutomation__factory.connect(address, signer)
+    );
+  }
+
+  /** Address of the signing user. */
+  getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  async getLimits(): Promise<CmaLimits> {
+    const [minMaxBidAmount, maxUserFunds, minFundAmount, maxContractsPerUser] =
+      await Promise.all([
+        this.cma.minMaxBidAmount(),
+        this.cma.maxUserFunds(),
+        this.cma.minFundAmount(),
+        this.cma.maxContractsPerUser(),
+      ]);
+    return {
+      minMaxBidAmount,
+      maxUserFunds,
+      minFundAmount,
+      maxContractsPerUser,
+    };
+  }
+
+  /** The signing user's registrations. */
+  async getUserContracts(): Promise<ContractConfig[]> {
+    const contracts = await this.cma.getUserContracts();
+    return contracts.map((config) => ({
+      contractAddress: config.contractAddress,
+      maxBid: config.maxBid,
+      enabled: config.enabled,
+      autoActivate: config.autoActivate,
+      maxActivationCost: config.maxActivationCost,
+    }));
+  }
+
+  /** The signing user's registration for `contractAddress`, if any. */
+  async getContract(
+    contractAddress: string
+  ): Promise<ContractConfig | undefined> {
+    return (await this.getUserContracts()).find((config) =>
+      sameAddress(config.contractAddress, contractAddress)
+    );
+  }
+
+  /** The signing user's escrow balance. */
+  getUserBalance(): Promise<bigint> {
+    return this.cma.getUserBalance();
+  }
+
+  /**
+   * Registers a contract, optionally depositing `value` into the escrow.
+   *
+   * @throws CmaClientError InvalidAddress, NotStylusProgram, InvalidBid,
+   * InvalidActivationCost, TooManyContracts or ContractAlreadyExists
+   */
+  async insertContract(
+    contractAddress: string,
+    settings: ContractSettings,
+    value = 0n
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const config = withDefaults(settings);
+    checkAddress(contractAddress);
+    const [limits, contracts, code] = await Promise.all([
+      this.getLimits(),
+      this.getUserContracts(),
+      this.signer.provider?.getCode(contractAddress),
+    ]);
+
+    if (code !== undefined && !isStylusProgram(code)) {
+      throw new CmaClientError(
+        'NotStylusProgram',
+        `${contractAddress} has no Stylus program code`
+      );
+    }
+    if (config.maxBid < limits.minMaxBidAmount) {
+      throw new CmaClientError(
+        'InvalidBid',
+        `maxBid ${config.maxBid} is below the minimum of ${limits.minMaxBidAmount}`
+      );
+    }
+    checkActivationCost(config, limits);
+    if (BigInt(contracts.length) >= limits.maxContractsPerUser) {
+      throw new CmaClientError(
+        'TooManyContracts',
+        `already ${contracts.length} of ${limits.maxContractsPerUser} contracts registered`
+      );
+    }
+    if (
+      contracts.some((c) => sameAddress(c.contractAddress, contractAddress))
+    ) {
+      throw new CmaClientError(
+        'ContractAlreadyExists',
+        `${contractAddress} is already registered`
+      );
+    }
+
+    return this.send(() =>
+      this.cma.insertContract(
+        contractAddress,
+        config.maxBid,
+        config.enabled,
+        config.autoActivate,
+        config.maxActivationCost,
+        { value }
+      )
+    );
+  }
+
+  /**
+   * Replaces the settings of a registered contract.
+   *
+   * @throws CmaClientError InvalidAddress, InvalidActivationCost or
+   * ContractNotFound
+   */
+  async updateContract(
+    contractAddress: string,
+    settings: ContractSettings
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const config = withDefaults(settings);
+    checkAddress(contractAddress);
+    checkActivationCost(config, await this.getLimits());
+    await this.requireContract(contractAddress);
+
+    return this.send(() =>
+      this.cma.updateContract(
+        contractAddress,
+        config.maxBid,
+        config.enabled,
+        config.autoActivate,
+        config.maxActivationCost
+      )
+    );
+  }
+
+  /** @throws CmaClientError ContractNotFound */
+  async removeContract(
+    contractAddress: string
+  ): Promise<ethers.ContractTransactionReceipt> {
+    await this.requireContract(contractAddress);
+    return this.send(() => this.cma.removeContract(contractAddress));
+  }
+
+  /** @throws CmaClientError ContractNotFound when nothing is registered */
+  async removeAllContracts(): Promise<ethers.ContractTransactionReceipt> {
+    if ((await this.getUserContracts()).length === 0) {
+      throw new CmaClientError('ContractNotFound', 'no contracts registered');
+    }
+    return this.send(() => this.cma.removeAllContracts());
+  }
+
+  /**
+   * Deposits `amount` into the signing user's escrow balance.
+   *
+   * @throws CmaClientError InvalidFundAmount or ExceedsMaxUserFunds
+   */
+  async fundBalance(
+    amount: bigint
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const [limits, balance] = await Promise.all([
+      this.getLimits(),
+      this.getUserBalance(),
+    ]);
+    if (amount < limits.minFundAmount) {
+      throw new CmaClientError(
+        'InvalidFundAmount',
+        `${amount} is below the minimum deposit of ${limits.minFundAmount}`
+      );
+    }
+    if (balance + amount > limits.maxUserFunds) {
+      throw new CmaClientError(
+        'ExceedsMaxUserFunds',
+        `balance ${balance} + ${amount} exceeds the maximum of ${limits.maxUserFunds}`
+      );
+    }
+    return this.send(() => this.cma.fundBalance({ value: amount }));
+  }
+
+  /**
+   * Withdraws the signing user's whole escrow balance.
+   *
+   * @throws CmaClientError InsufficientBalance when the balance is 0
+   */
+  async withdrawBalance(): Promise<ethers.ContractTransactionReceipt> {
+    if ((await this.getUserBalance()) === 0n) {
+      throw new CmaClientError('InsufficientBalance', 'nothing to withdraw');
+    }
+    return this.send(() => this.cma.withdrawBalance());
+  }
+
+  private async requireContract(contractAddress: string): Promise<void> {
+    if (!(await this.getContract(contractAddress))) {
+      throw new CmaClientError(
+        'ContractNotFound',
+        `${contractAddress} is not registered`
+      );
+    }
+  }
+
+  /**
+   * Sends and waits for a transaction. CMA custom-error reverts become a
+   * `CmaClientError`; any other known revert a `ContractRevertError`.
+   */
+  private async send(
+    call: () => Promise<ethers.ContractTransactionResponse>
+  ): Promise<ethers.ContractTransactionReceipt> {
+    try {
+      const receipt = await (await call()).wait();
+      if (!receipt) throw new Error('Transaction was dropped');
+      return receipt;
+    } catch (error) {
+      const decoded = revertDecoder.decodeError(error);
+      if (!decoded) throw error;
+      if (CMA_ERROR_CODES.includes(decoded.name)) {
+        throw new CmaClientError(
+          decoded.name as CmaErrorCode,
+          'reverted by the contract',
+          'revert'
+        );
+      }
+      throw new ContractRevertError(decoded, error);
+    }
+  }
+}
+
+function withDefaults(settings: ContractSettings): Required<ContractSettings> {
+  return {
+    maxBid: settings.maxBid,
+    enabled: settings.enabled ?? true,
+    autoActivate: settings.autoActivate ?? false,
+    maxActivationCost: settings.maxActivationCost ?? 0n,
+  };
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function checkAddress(contractAddress: string): void {
+  if (!ethers.isAddress(contractAddress)) {
+    throw new CmaClientError(
+      'InvalidAddress',
+      `${contractAddress} is not an address`
+    );
+  }
+  if (sameAddress(contractAddress, ethers.ZeroAddress)) {
+    throw new CmaClientError('InvalidAddress', 'the zero address');
+  }
+}
+
+/** Stylus program code starts with Nitro's discriminant `0xEFF000`. */
+export function isStylusProgram(code: string): boolean {
+  return (
+    ethers.dataLength(code) >= 4 && code.toLowerCase().startsWith('0xeff000')
+  );
+}
+
+function checkActivationCost(
+  { autoActivate, maxActivationCost }: Required<ContractSettings>,
+  { maxUserFunds }: CmaLimits
+): void {
+  if (autoActivate && maxActivationCost === 0n) {
+    throw new CmaClientError(
+      'InvalidActivationCost',
+      'autoActivate needs a non-zero maxActivationCost'
+    );
+  }
+  if (maxActivationCost > maxUserFunds) {
+    throw new CmaClientError(
+      'InvalidActivationCost',
+      `maxActivationCost ${maxActivationCost} exceeds maxUserFunds ${maxUserFunds}`
+    );
+  }
+}
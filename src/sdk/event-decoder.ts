@@ -0,0 +1,275 @@
+import { ethers } from 'ethers';
+import { ExternalABIs } from '../../config/abis';
+import {
+  BiddingEscrow__factory,
+  CacheManagerAutomation__factory,
+  type BiddingEscrow,
+  type CacheManagerAutomation,
+} from '../../build/typechain-types';
+import type { TypedContractEvent } from '../../build/typechain-types/common';
+import { revertDecoder } from './revert-decoder';
+
+/** Contract whose ABI declares an event. */
+export type EventSource =
+  | 'CacheManagerAutomation'
+  | 'BiddingEscrow'
+  | 'CacheManager';
+
+/** Typechain's `filters` reduced to `{ EventName: OutputObject }`. */
+type EventArgsOf<Filters> = {
+  [K in keyof Filters as K extends `${string}(${string}`
+    ? never
+    : K]: Filters[K] extends TypedContractEvent<any, any, infer Args>
+    ? Args
+    : never;
+};
+
+/** Events of the Arbitrum CacheManager (no typechain types are generated). */
+export interface CacheManagerEventArgs {
+  InsertBid: { codehash: string; program: string; bid: bigint; size: bigint };
+  DeleteBid: { codehash: string; bid: bigint; size: bigint };
+  SetCacheSize: { size: bigint };
+  SetDecayRate: { decay: bigint };
+  Pause: Record<string, never>;
+  Unpause: Record<string, never>;
+  Initialized: { version: bigint };
+}
+
+export interface EventArgs {
+  CacheManagerAutomation: EventArgsOf<CacheManagerAutomation['filters']>;
+  BiddingEscrow: EventArgsOf<BiddingEscrow['filters']>;
+  CacheManager: CacheManagerEventArgs;
+}
+
+interface LogPosition {
+  /** Emitting contract address. */
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * A decoded log; narrow on `contract` and `name` to get typed `args`.
+ */
+export type DecodedEvent =
+  | {
+      [S in EventSource]: {
+        [N in keyof EventArgs[S]]: LogPosition & {
+          contract: S;
+          name: N;
+          args: EventArgs[S][N];
+        };
+      }[keyof EventArgs[S]];
+    }[EventSource]
+  | UnknownEvent;
+
+/** A log none of the registered ABIs declares. */
+export type UnknownEvent = LogPosition & {
+  contract: 'Unknown';
+  name: 'Unknown';
+  args: { topics: readonly string[]; data: string };
+};
+
+/** The decoded event type for one contract and event name. */
+export type EventOf<
+  S extends EventSource,
+  N extends keyof EventArgs[S]
+> = Extract<DecodedEvent, { contract: S; name: N }>;
+
+export type EventDecoderAddresses = Partial<Record<EventSource, string>>;
+
+/**
+ * Decodes receipts whose logs span CacheManagerAutomation, its BiddingEscrow
+ * and the Arbitrum CacheManager.
+ *
+ * @description Without addresses a log is matched by its topic against each
+ * ABI in turn, so an event both contracts declare (e.g. `OwnershipTransferred`)
+ * is attributed to the CMA. Passing the deployed addresses removes the
+ * ambiguity: a log from a known address is only decoded with that
+ * contract's ABI.
+ */
+export class EventDecoder {
+  private readonly sources: {
+    source: EventSource;
+    iface: ethers.Interface;
+    address?: string;
+  }[];
+
+  constructor(addresses: EventDecoderAddresses = {}) {
+    const abis: [EventSource, ethers.InterfaceAbi][] = [
+      ['CacheManagerAutomation', CacheManagerAutomation__factory.abi],
+      ['BiddingEscrow', BiddingEscrow__factory.abi],
+      ['CacheManager', ExternalABIs.CacheManager],
+    ];
+    this.sources = abis.map(([source, abi]) => ({
+      source,
+      iface: new ethers.Interface(abi),
+      address: addresses[source]?.toLowerCase(),
+    }));
+  }
+
+  /** Decodes one log, falling back to an `Unknown` event. */
+  decodeLog(log: ethers.Log): DecodedEvent {
+    const position: LogPosition = {
+      address: log.address,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+    };
+    const emitter = log.address.toLowerCase();
+    const owned = this.sources.find(({ address }) => address === emitter);
+    const candidates = owned
+      ? [owned]
+      : this.sources.filter(({ address }) => address === undefined);
+
+    for (const { source, iface } of candidates) {
+      let parsed: ethers.LogDescription | null = null;
+      try {
+        parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+      } catch {
+        // Same topic, different indexing or layout: not this contract's event.
+      }
+      if (!parsed) continue;
+      const args = Object.fromEntries(
+        parsed.fragment.inputs.map((input, i) => [input.name, parsed!.args[i]])
+      );
+      return {
+        ...position,
+        contract: source,
+        name: parsed.name,
+        args,
+      } as DecodedEvent;
+    }
+    return {
+      ...position,
+      contract: 'Unknown',
+      name: 'Unknown',
+      args: { topics: log.topics, data: log.data },
+    };
+  }
+
+  /** Decodes every log of a receipt, in log order. */
+  decodeReceipt(
+    receipt: Pick<ethers.TransactionReceipt, 'logs'> | null
+  ): DecodedEvent[] {
+    return (receipt?.logs ?? []).map((log) => this.decodeLog(log));
+  }
+}
+
+/** Decoder without deployed addresses; logs are matched by topic. */
+export const eventDecoder = new EventDecoder();
+
+/**
+ * Picks the events of one kind, typed.
+ *
+ * @example filterEvents(events, 'CacheManagerAutomation', 'BidPlaced')
+ */
+export function filterEvents<
+  S extends EventSource,
+  N extends keyof EventArgs[S] & string
+>(events: DecodedEvent[], contract: S, name: N): EventOf<S, N>[] {
+  return events.filter(
+    (event): event is EventOf<S, N> =>
+      event.contract === contract && event.name === name
+  );
+}
+
+/** Arguments holding wei amounts, whatever the event. */
+const WEI_ARGS = new Set([
+  'amount',
+  'bid',
+  'bidAmount',
+  'dataFee',
+  'maxActivationCost',
+  'maxBid',
+  'minBid',
+  'newBalance',
+  'refund',
+  'spent',
+  'userBalance',
+  'value',
+  'weiAmount',
+]);
+
+/** Parameter updates whose `oldValue`/`newValue` are wei amounts. */
+const WEI_PARAMETER_EVENTS = new Set([
+  'BidIncrementUpdated',
+  'MaxUserFundsUpdated',
+  'MinFundAmountUpdated',
+  'MinMaxBidAmountUpdated',
+]);
+
+export interface RenderOptions {
+  /** Names shown instead of addresses, keyed by address (any case). */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Renders an event on one line, e.g.
+ * `CacheManagerAutomation.BidPlaced user=alice contractAddress=0x… bidAmount=0.001 ETH`.
+ *
+ * @description Wei amounts are formatted in ETH, labelled addresses are
+ * replaced by their label and `ActivationRevertData` payloads are decoded.
+ */
+export function renderEvent(
+  event: DecodedEvent,
+  options: RenderOptions = {}
+): string {
+  const labels = new Map(
+    Object.entries(options.labels ?? {}).map(([address, label]) => [
+      address.toLowerCase(),
+      label,
+    ])
+  );
+  if (event.contract === 'Unknown') {
+    const emitter = labels.get(event.address.toLowerCase()) ?? event.address;
+    return `Unknown event ${
+      event.args.topics[0] ?? '(anonymous)'
+    } from ${emitter}`;
+  }
+
+  const args = Object.entries(event.args as Record<string, unknown>).map(
+    ([name, value]) => {
+      const isWei =
+        WEI_ARGS.has(name) ||
+        (WEI_PARAMETER_EVENTS.has(event.name) &&
+          (name === 'oldValue' || name === 'newValue'));
+      return `${name}=${renderValue(event.name, name, value, isWei, labels)}`;
+    }
+  );
+  return [`${event.contract}.${event.name}`, ...args].join(' ');
+}
+
+/** Renders events as a numbered list, one per line. */
+export function renderEvents(
+  events: DecodedEvent[],
+  options: RenderOptions = {}
+): string {
+  if (events.length === 0) return 'No events emitted';
+  return events
+    .map((event, i) => `${i + 1}. ${renderEvent(event, options)}`)
+    .join('\n');
+}
+
+function renderValue(
+  eventName: string,
+  argName: string,
+  value: unknown,
+  isWei: boolean,
+  labels: Map<string, string>
+): string {
+  if (typeof value === 'bigint') {
+    return isWei ? `${ethers.formatEther(value)} ETH` : value.toString();
+  }
+  if (typeof value === 'string' && ethers.isAddress(value)) {
+    return labels.get(value.toLowerCase()) ?? value;
+  }
+  if (eventName === 'ActivationRevertData' && argName === 'data') {
+    return revertDecoder.describe(value as string);
+  }
+  if (typeof value === 'string' && !ethers.isHexString(value)) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,36 @@
+import type { IArbWasm } from '../../build/typechain-types';
+import { getRevertData } from './revert-data';
+
+/** bytes4(keccak256("ProgramExpired(uint64)")), mirrors the CMA constant. */
+export const PROGRAM_EXPIRED_SELECTOR = '0xc9b12e52';
+
+/** The slice of ArbWasm expiry checks read from. */
+export type ArbWasmReader = Pick<IArbWasm, 'programTimeLeft'>;
+
+export interface ProgramExpiry {
+  expired: boolean;
+  /** Seconds left, when programTimeLeft returned instead of reverting. */
+  timeLeft?: bigint;
+}
+
+/**
+ * Reads a program's expiry the same way `_shouldActivate` does.
+ *
+ * @description ArbWasm encodes "expired" two ways depending on the Nitro
+ * version: `programTimeLeft` returns 0, or it reverts with
+ * `ProgramExpired(uint64)`. Any other revert (never activated, not a Stylus
+ * program, ...) is treated as not expired.
+ */
+export async function checkProgramExpiry(
+  arbWasm: ArbWasmReader,
+  program: string
+): Promise<ProgramExpiry> {
+  try {
+    const timeLeft = await arbWasm.programTimeLeft(program);
+    return { expired: timeLeft === 0n, timeLeft };
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData === undefined) throw error;
+    return { expired: revertData.startsWith(PROGRAM_EXPIRED_SELECTOR) };
+  }
+}
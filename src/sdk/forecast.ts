@@ -0,0 +1,352 @@
+import { ethers } from 'ethers';
+import {
+  BiddingEscrow__factory,
+  IArbWasm__factory,
+  ICacheManager__factory,
+  type CacheManagerAutomation,
+} from '../../build/typechain-types';
+import { checkProgramExpiry } from './expiry';
+import { calculateBidAmount } from './pricing';
+
+/** Stylus programs expire a year after activation (ArbWasm `expiryDays`). */
+export const DEFAULT_EXPIRY_SECONDS = 365n * 24n * 3600n;
+
+export type ForecastScenario = 'low' | 'expected' | 'high';
+
+const SCENARIOS: ForecastScenario[] = ['low', 'expected', 'high'];
+
+/** A registration plus the per-program data the forecast needs. */
+export interface ForecastContract {
+  contractAddress: string;
+  maxBid: bigint;
+  enabled: boolean;
+  autoActivate: boolean;
+  maxActivationCost: bigint;
+  /** CacheManager.getMinBid for the program. */
+  minBid: bigint;
+  /** Expected activation fee; defaults to `maxActivationCost`. */
+  activationCost?: bigint;
+  /** Seconds until the program expires (0 if expired), when known. */
+  timeLeft?: bigint;
+}
+
+/** Market and CMA parameters, as in the bid explainer's `MarketSnapshot`. */
+export interface ForecastMarket {
+  cacheSize?: bigint;
+  queueSize?: bigint;
+  decay?: bigint;
+  cacheThreshold: bigint;
+  horizonSeconds: bigint;
+}
+
+export interface FundingForecastInput {
+  contracts: ForecastContract[];
+  market: ForecastMarket;
+  days: number;
+  /** Current escrow balance. */
+  balance: bigint;
+  maxUserFunds: bigint;
+  minFundAmount: bigint;
+  /** Seconds between activations of a program; defaults to a year. */
+  expirySeconds?: bigint;
+}
+
+export interface ScenarioSpend {
+  bidCount: bigint;
+  bids: bigint;
+  activationCount: bigint;
+  activations: bigint;
+  total: bigint;
+}
+
+export interface ContractForecast {
+  contractAddress: string;
+  scenarios: Record<ForecastScenario, ScenarioSpend>;
+}
+
+export interface FundingForecast {
+  days: number;
+  balance: bigint;
+  contracts: ContractForecast[];
+  scenarios: Record<ForecastScenario, ScenarioSpend>;
+  /** Deposit covering the expected spend, within `maxUserFunds`. */
+  recommendedTopUp: bigint;
+  /** Expected spend the recommendation leaves uncovered. */
+  shortfall: bigint;
+  /** True when `maxUserFunds` kept the top-up below the expected spend. */
+  cappedByMaxUserFunds: boolean;
+}
+
+/**
+ * Projects a user's escrow spend over the next `days` days.
+ *
+ * @description A bid of `minBid + decay * horizonSeconds` keeps a program
+ * above the eviction line for about `horizonSeconds`, so each enabled contract
+ * is assumed to bid once per horizon. The scenarios differ in what each bid
+ * costs and which activations happen:
+ *
+ * - `low`: the market stays as it is now. Below `cacheThreshold` bids are
+ *   free; only programs known to expire in the window are re-activated.
+ * - `expected`: the cache stays above `cacheThreshold`, so every bid is the
+ *   full `_calculateBidAmount` (capped at maxBid). Programs whose expiry is
+ *   unknown are re-activated once per expiry period started in the window.
+ * - `high`: every bid costs the full maxBid and every activation the full
+ *   `maxActivationCost`.
+ *
+ * The recommended top-up covers the expected spend minus the balance, raised
+ * to `minFundAmount` and capped so the balance stays within `maxUserFunds`.
+ */
+export function forecastFunding(input: FundingForecastInput): FundingForecast {
+  if (!Number.isInteger(input.days) || input.days <= 0) {
+    throw new RangeError(`days must be a positive integer: ${input.days}`);
+  }
+  const windowSeconds = BigInt(input.days) * 24n * 3600n;
+  const expirySeconds = input.expirySeconds ?? DEFAULT_EXPIRY_SECONDS;
+  const { market } = input;
+  const renewals =
+    market.horizonSeconds > 0n
+      ? ceilDiv(windowSeconds, market.horizonSeconds)
+      : 1n;
+
+  const contracts = input.contracts.map((contract) => {
+    const bidAmounts: Record<ForecastScenario, bigint> = {
+      low: bidAt(contract, market, market.cacheThreshold),
+      // Any utilization clears a threshold of 0.
+      expected: bidAt(contract, market, 0n),
+      high: contract.maxBid,
+    };
+    const activationCost =
+      contract.activationCost ?? contract.maxActivationCost;
+    const scenarios = {} as Record<ForecastScenario, ScenarioSpend>;
+    for (const scenario of SCENARIOS) {
+      const bidCount = contract.enabled ? renewals : 0n;
+      const activationCount = contract.autoActivate
+        ? activationsInWindow(
+            contract.timeLeft,
+            windowSeconds,
+            expirySeconds,
+            scenario
+          )
+        : 0n;
+      // placeBids skips bids below minBid, so those never spend.
+      const bidAmount =
+        bidAmounts[scenario] < contract.minBid ? 0n : bidAmounts[scenario];
+      const bids = bidCount * bidAmount;
+      const activations =
+        activationCount *
+        (scenario === 'high' ? contract.maxActivationCost : activationCost);
+      scenarios[scenario] = {
+        bidCount,
+        bids,
+        activationCount,
+        activations,
+        total: bids + activations,
+      };
+    }
+    return { contractAddress: contract.contractAddress, scenarios };
+  });
+
+  const scenarios = {} as Record<ForecastScenario, ScenarioSpend>;
+  for (const scenario of SCENARIOS) {
+    scenarios[scenario] = sumSpend(
+      contracts.map((contract) => contract.scenarios[scenario])
+    );
+  }
+
+  const needed = scenarios.expected.total - input.balance;
+  const room =
+    input.maxUserFunds > input.balance
+      ? input.maxUserFunds - input.balance
+      : 0n;
+  let recommendedTopUp = 0n;
+  if (needed > 0n) {
+    recommendedTopUp = needed < room ? needed : room;
+    if (recommendedTopUp < input.minFundAmount) {
+      recommendedTopUp = input.minFundAmount <= room ? input.minFundAmount : 0n;
+    }
+  }
+  const shortfall = needed > recommendedTopUp ? needed - recommendedTopUp : 0n;
+
+  return {
+    days: input.days,
+    balance: input.balance,
+    contracts,
+    scenarios,
+    recommendedTopUp,
+    shortfall,
+    cappedByMaxUserFunds: shortfall > 0n,
+  };
+}
+
+function bidAt(
+  contract: ForecastContract,
+  market: ForecastMarket,
+  cacheThreshold: bigint
+): bigint {
+  return calculateBidAmount({
+    maxBid: contract.maxBid,
+    bidIndex: 0n,
+    minBid: contract.minBid,
+    cacheSize: market.cacheSize ?? 0n,
+    queueSize: market.queueSize ?? 0n,
+    decay: market.decay ?? 0n,
+    cacheThreshold,
+    horizonSeconds: market.horizonSeconds,
+    bidIncrement: 0n,
+  });
+}
+
+function activationsInWindow(
+  timeLeft: bigint | undefined,
+  windowSeconds: bigint,
+  expirySeconds: bigint,
+  scenario: ForecastScenario
+): bigint {
+  if (timeLeft === undefined) {
+    return scenario === 'low' ? 0n : ceilDiv(windowSeconds, expirySeconds);
+  }
+  if (timeLeft >= windowSeconds) return 0n;
+  return 1n + (windowSeconds - timeLeft) / expirySeconds;
+}
+
+function sumSpend(spends: ScenarioSpend[]): ScenarioSpend {
+  const total: ScenarioSpend = {
+    bidCount: 0n,
+    bids: 0n,
+    activationCount: 0n,
+    activations: 0n,
+    total: 0n,
+  };
+  for (const spend of spends) {
+    total.bidCount += spend.bidCount;
+    total.bids += spend.bids;
+    total.activationCount += spend.activationCount;
+    total.activations += spend.activations;
+    total.total += spend.total;
+  }
+  return total;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+/**
+ * Expected activation fees from `FORECAST_ACTIVATION_COSTS`:
+ * comma-separated `address=eth` pairs, e.g. `0xabc...=0.002,0xdef...=0.01`.
+ *
+ * @returns Fees in wei by address, for `LoadForecastOptions.activationCosts`
+ */
+export function parseActivationCosts(value = ''): Record<string, bigint> {
+  const costs: Record<string, bigint> = {};
+  for (const pair of value.split(',')) {
+    if (pair.trim() === '') continue;
+    const [address, cost, ...rest] = pair.split('=').map((s) => s.trim());
+    if (cost === undefined || rest.length > 0 || !ethers.isAddress(address)) {
+      throw new Error(`Expected address=eth, got ${pair.trim()}`);
+    }
+    costs[ethers.getAddress(address)] = ethers.parseEther(cost);
+  }
+  return costs;
+}
+
+export interface LoadForecastOptions {
+  days: number;
+  /** Expected activation fee per program address (any case). */
+  activationCosts?: Record<string, bigint>;
+  expirySeconds?: bigint;
+}
+
+/**
+ * Reads everything `forecastFunding` needs for one user from the chain.
+ *
+ * @description Market reads that revert are treated the way
+ * `_calculateBidAmount` treats them (utilization and decay of 0).
+ *
+ * @param cma CacheManagerAutomation connected to a provider
+ * @param user Address whose registrations and balance are forecast
+ */
+export async function loadForecastInput(
+  cma: CacheManagerAutomation,
+  user: string,
+  options: LoadForecastOptions
+): Promise<FundingForecastInput> {
+  const provider = cma.runner?.provider;
+  if (!provider) {
+    throw new Error('CacheManagerAutomation must be connected to a provider');
+  }
+  // getUserContracts reads msg.sender; signers refuse a foreign `from`.
+  const reader = cma.connect(provider);
+  const [cacheManagerAddress, arbWasmAddress, escrowAddress] =
+    await Promise.all([cma.cacheManager(), cma.arbWasm(), cma.escrow()]);
+  const cacheManager = ICacheManager__factory.connect(
+    cacheManagerAddress,
+    provider
+  );
+  const arbWasm = IArbWasm__factory.connect(arbWasmAddress, provider);
+  const optional = (call: Promise<bigint>) =>
+    call.catch((): bigint | undefined => undefined);
+
+  const [
+    registrations,
+    balance,
+    maxUserFunds,
+    minFundAmount,
+    cacheThreshold,
+    horizonSeconds,
+    cacheSize,
+    queueSize,
+    decay,
+  ] = await Promise.all([
+    reader.getUserContracts({ from: user }),
+    BiddingEscrow__factory.connect(escrowAddress, provider).depositsOf(user),
+    cma.maxUserFunds(),
+    cma.minFundAmount(),
+    cma.cacheThreshold(),
+    cma.horizonSeconds(),
+    optional(cacheManager.cacheSize()),
+    optional(cacheManager.queueSize()),
+    optional(cacheManager.decay()),
+  ]);
+  const activationCosts = new Map(
+    Object.entries(options.activationCosts ?? {}).map(([address, cost]) => [
+      address.toLowerCase(),
+      cost,
+    ])
+  );
+
+  const contracts = await Promise.all(
+    registrations.map(async (config): Promise<ForecastContract> => {
+      const [minBid, expiry] = await Promise.all([
+        cacheManager.getMinBid(config.contractAddress),
+        config.autoActivate
+          ? checkProgramExpiry(arbWasm, config.contractAddress).catch(
+              () => undefined
+            )
+          : undefined,
+      ]);
+      return {
+        contractAddress: config.contractAddress,
+        maxBid: config.maxBid,
+        enabled: config.enabled,
+        autoActivate: config.autoActivate,
+        maxActivationCost: config.maxActivationCost,
+        minBid,
+        activationCost: activationCosts.get(
+          config.contractAddress.toLowerCase()
+        ),
+        timeLeft: expiry?.expired ? 0n : expiry?.timeLeft,
+      };
+    })
+  );
+
+  return {
+    contracts,
+    market: { cacheSize, queueSize, decay, cacheThreshold, horizonSeconds },
+    days: options.days,
+    balance,
+    maxUserFunds,
+    minFundAmount,
+    expirySeconds: options.expirySeconds,
+  };
+}
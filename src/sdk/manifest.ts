@@ -0,0 +1,317 @@
+import { ethers } from 'ethers';
+import { CmaClient, ContractConfig, isStylusProgram } from './cma-client';
+
+/** One manifest row; amounts are already in wei. */
+export interface ManifestRow extends ContractConfig {
+  /** 1-based line (CSV) or entry (JSON) number, for reports. */
+  line: number;
+}
+
+/**
+ * Parses a manifest of registrations.
+ *
+ * @description A `.json` file holds an array of objects; anything else is CSV
+ * with a header row. Both use the columns `address`, `maxBid`, `enabled`,
+ * `autoActivate` and `maxActivationCost`. Amounts are in ETH; `enabled`
+ * defaults to true, `autoActivate` to false and `maxActivationCost` to 0.
+ * Blank CSV lines and lines starting with `#` are skipped.
+ *
+ * @param text File contents
+ * @param fileName Used to pick the format and in error messages
+ * @returns The rows, in file order
+ */
+export function parseManifest(
+  text: string,
+  fileName = 'manifest.csv'
+): ManifestRow[] {
+  const records = fileName.endsWith('.json')
+    ? jsonRecords(text, fileName)
+    : csvRecords(text, fileName);
+  return records.map(({ line, fields }) => {
+    const at = `${fileName}:${line}`;
+    if (!fields.address) throw new Error(`${at}: address is required`);
+    if (!fields.maxBid) throw new Error(`${at}: maxBid is required`);
+    return {
+      line,
+      contractAddress: fields.address,
+      maxBid: parseEth(fields.maxBid, 'maxBid', at),
+      enabled: parseBool(fields.enabled, true, 'enabled', at),
+      autoActivate: parseBool(fields.autoActivate, false, 'autoActivate', at),
+      maxActivationCost: fields.maxActivationCost
+        ? parseEth(fields.maxActivationCost, 'maxActivationCost', at)
+        : 0n,
+    };
+  });
+}
+
+interface ManifestRecord {
+  line: number;
+  fields: Record<string, string | undefined>;
+}
+
+const COLUMNS = [
+  'address',
+  'maxBid',
+  'enabled',
+  'autoActivate',
+  'maxActivationCost',
+];
+
+function csvRecords(text: string, fileName: string): ManifestRecord[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((content, i) => ({ line: i + 1, content: content.trim() }))
+    .filter(({ content }) => content !== '' && !content.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].content.split(',').map((column) => column.trim());
+  const unknown = header.filter((column) => !COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${fileName}:${lines[0].line}: unknown column(s) ${unknown.join(', ')}`
+    );
+  }
+  return lines.slice(1).map(({ line, content }) => {
+    const cells = content.split(',').map((cell) => cell.trim());
+    if (cells.length > header.length) {
+      throw new Error(`${fileName}:${line}: more cells than columns`);
+    }
+    return {
+      line,
+      fields: Object.fromEntries(
+        header.map((column, i) => [column, cells[i] || undefined])
+      ),
+    };
+  });
+}
+
+function jsonRecords(text: string, fileName: string): ManifestRecord[] {
+  const document: unknown = JSON.parse(text);
+  if (!Array.isArray(document)) {
+    throw new Error(`${fileName} must hold an array of registrations`);
+  }
+  return document.map((entry: unknown, i) => {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`${fileName}:${i + 1}: not an object`);
+    }
+    const unknown = Object.keys(entry).filter((key) => !COLUMNS.includes(key));
+    if (unknown.length > 0) {
+      throw new Error(
+        `${fileName}:${i + 1}: unknown field(s) ${unknown.join(', ')}`
+      );
+    }
+    return {
+      line: i + 1,
+      fields: Object.fromEntries(
+        Object.entries(entry).map(([key, value]) => [key, String(value)])
+      ),
+    };
+  });
+}
+
+function parseEth(value: string, name: string, at: string): bigint {
+  try {
+    return ethers.parseEther(value);
+  } catch {
+    throw new Error(`${at}: ${name} must be an ETH amount, got ${value}`);
+  }
+}
+
+function parseBool(
+  value: string | undefined,
+  fallback: boolean,
+  name: string,
+  at: string
+): boolean {
+  if (value === undefined) return fallback;
+  if (/^(true|yes|1)$/i.test(value)) return true;
+  if (/^(false|no|0)$/i.test(value)) return false;
+  throw new Error(`${at}: ${name} must be true or false, got ${value}`);
+}
+
+export type ImportAction = 'insert' | 'update' | 'remove' | 'unchanged';
+
+export interface PlannedImport {
+  action: ImportAction;
+  contractAddress: string;
+  /** Absent for removals of contracts the manifest doesn't list. */
+  row?: ManifestRow;
+  /** Why the row can't be applied; the row is skipped when non-empty. */
+  errors: string[];
+}
+
+export interface ImportOptions {
+  /** Remove registrations the manifest doesn't list. */
+  removeMissing?: boolean;
+}
+
+/**
+ * Validates a manifest and reconciles it with the user's registrations.
+ *
+ * @description Each row is checked against the CMA limits and the program's
+ * code, as `insertContract` would. Rows for registered contracts become
+ * updates (or `unchanged`), the others inserts. With `removeMissing`,
+ * registrations the manifest doesn't list are removed; a listed contract is
+ * never removed, even when its row is invalid. Inserts beyond
+ * `maxContractsPerUser` are refused from the end of the manifest.
+ *
+ * @param client Client of the user the manifest belongs to
+ * @param rows Rows from `parseManifest`
+ * @returns Removals first, then the rows in manifest order
+ */
+export async function planImport(
+  client: CmaClient,
+  rows: ManifestRow[],
+  options: ImportOptions = {}
+): Promise<PlannedImport[]> {
+  const [limits, registered] = await Promise.all([
+    client.getLimits(),
+    client.getUserContracts(),
+  ]);
+  const provider = client.cma.runner?.provider;
+  const byAddress = new Map(
+    registered.map((config) => [config.contractAddress.toLowerCase(), config])
+  );
+
+  const seen = new Set<string>();
+  const planned: PlannedImport[] = [];
+  for (const row of rows) {
+    const errors: string[] = [];
+    const key = row.contractAddress.toLowerCase();
+    if (!ethers.isAddress(row.contractAddress)) {
+      errors.push('InvalidAddress: not an address');
+    } else if (row.contractAddress === ethers.ZeroAddress) {
+      errors.push('InvalidAddress: the zero address');
+    } else if (seen.has(key)) {
+      errors.push('duplicate of an earlier row');
+    }
+    seen.add(key);
+
+    const current = byAddress.get(key);
+    if (row.maxBid < limits.minMaxBidAmount) {
+      errors.push(
+        `InvalidBid: maxBid ${row.maxBid} is below the minimum of ${limits.minMaxBidAmount}`
+      );
+    }
+    if (row.autoActivate && row.maxActivationCost === 0n) {
+      errors.push(
+        'InvalidActivationCost: autoActivate needs a non-zero maxActivationCost'
+      );
+    }
+    if (row.maxActivationCost > limits.maxUserFunds) {
+      errors.push(
+        `InvalidActivationCost: maxActivationCost ${row.maxActivationCost} exceeds maxUserFunds ${limits.maxUserFunds}`
+      );
+    }
+    if (!current && errors.length === 0 && provider) {
+      if (!isStylusProgram(await provider.getCode(row.contractAddress))) {
+        errors.push('NotStylusProgram: no Stylus program code');
+      }
+    }
+
+    planned.push({
+      action: !current
+        ? 'insert'
+        : sameSettings(current, row)
+        ? 'unchanged'
+        : 'update',
+      contractAddress: row.contractAddress,
+      row,
+      errors,
+    });
+  }
+
+  const removals: PlannedImport[] = options.removeMissing
+    ? registered
+        .filter((config) => !seen.has(config.contractAddress.toLowerCase()))
+        .map((config) => ({
+          action: 'remove',
+          contractAddress: config.contractAddress,
+          errors: [],
+        }))
+    : [];
+
+  let slots =
+    limits.maxContractsPerUser - BigInt(registered.length - removals.length);
+  for (const entry of planned) {
+    if (entry.action !== 'insert' || entry.errors.length > 0) continue;
+    if (slots > 0n) {
+      slots--;
+    } else {
+      entry.errors.push(
+        `TooManyContracts: the manifest exceeds ${limits.maxContractsPerUser} contracts`
+      );
+    }
+  }
+  return [...removals, ...planned];
+}
+
+function sameSettings(current: ContractConfig, row: ManifestRow): boolean {
+  return (
+    current.maxBid === row.maxBid &&
+    current.enabled === row.enabled &&
+    current.autoActivate === row.autoActivate &&
+    current.maxActivationCost === row.maxActivationCost
+  );
+}
+
+export type ImportStatus = 'done' | 'unchanged' | 'invalid' | 'failed';
+
+export interface ImportResult {
+  action: ImportAction;
+  contractAddress: string;
+  line?: number;
+  status: ImportStatus;
+  /** Validation errors or the failure message. */
+  detail?: string;
+  transactionHash?: string;
+}
+
+/**
+ * Sends the planned removals, updates and inserts, one transaction each.
+ *
+ * @description Invalid rows are skipped. A failing transaction is recorded
+ * and the import carries on with the next row, so one bad row doesn't leave
+ * the rest of the manifest unapplied.
+ *
+ * @returns One result per planned entry, in plan order
+ */
+export async function executeImport(
+  client: CmaClient,
+  plan: PlannedImport[]
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+  for (const { action, contractAddress, row, errors } of plan) {
+    const result = { action, contractAddress, line: row?.line };
+    if (errors.length > 0) {
+      results.push({ ...result, status: 'invalid', detail: errors.join('; ') });
+      continue;
+    }
+    if (action === 'unchanged') {
+      results.push({ ...result, status: 'unchanged' });
+      continue;
+    }
+
+    try {
+      const receipt =
+        action === 'remove'
+          ? await client.removeContract(contractAddress)
+          : action === 'update'
+          ? await client.updateContract(contractAddress, row!)
+          : await client.insertContract(contractAddress, row!);
+      results.push({
+        ...result,
+        status: 'done',
+        transactionHash: receipt.hash,
+      });
+    } catch (error) {
+      if (!(error instanceof Error)) throw error;
+      results.push({
+        ...result,
+        status: 'failed',
+        detail: error.message,
+      });
+    }
+  }
+  return results;
+}
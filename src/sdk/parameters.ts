@@ -0,0 +1,244 @@
+import { ethers } from 'ethers';
+import yaml from 'js-yaml';
+import type { CacheManagerAutomation } from '../../build/typechain-types';
+import { EventDecoder } from './event-decoder';
+
+/** Owner-settable CMA parameters, in the order the contract declares them. */
+export const PARAMETER_NAMES = [
+  'maxContractsPerUser',
+  'minMaxBidAmount',
+  'minFundAmount',
+  'maxUserFunds',
+  'maxBidsPerIteration',
+  'maxUsersPerPage',
+  'cacheThreshold',
+  'horizonSeconds',
+  'bidIncrement',
+  'maxActivationsPerIteration',
+] as const;
+
+export type ParameterName = (typeof PARAMETER_NAMES)[number];
+
+export type CmaParameters = Record<ParameterName, bigint>;
+
+/** Parameters holding wei amounts; desired-state files may give them in ETH. */
+const WEI_PARAMETERS = new Set<ParameterName>([
+  'minMaxBidAmount',
+  'minFundAmount',
+  'maxUserFunds',
+  'bidIncrement',
+]);
+
+const UINT192_MAX = (1n << 192n) - 1n;
+
+export interface ParameterChange {
+  name: ParameterName;
+  oldValue: bigint;
+  newValue: bigint;
+}
+
+/** A change once its setter was mined and its `*Updated` event checked. */
+export interface AppliedParameterChange extends ParameterChange {
+  transactionHash: string;
+}
+
+/** `maxUserFunds` -> `setMaxUserFunds`. */
+export function setterName(name: ParameterName): string {
+  return `set${name[0].toUpperCase()}${name.slice(1)}`;
+}
+
+/** `maxUserFunds` -> `MaxUserFundsUpdated`. */
+export function updateEventName(name: ParameterName): string {
+  return `${name[0].toUpperCase()}${name.slice(1)}Updated`;
+}
+
+/** Reads every owner-settable parameter. */
+export async function readParameters(
+  cma: CacheManagerAutomation
+): Promise<CmaParameters> {
+  const values = await Promise.all(
+    PARAMETER_NAMES.map(
+      (name) => cma.getFunction(name).staticCall() as Promise<bigint>
+    )
+  );
+  return Object.fromEntries(
+    PARAMETER_NAMES.map((name, i) => [name, values[i]])
+  ) as CmaParameters;
+}
+
+/**
+ * Parses a desired-state file into parameter values.
+ *
+ * @description The file is a JSON (`.json`) or YAML object keyed by parameter
+ * name; parameters it leaves out are not managed. Values are integers, given
+ * as numbers or strings; wei parameters also accept ETH amounts such as
+ * `"0.01 ETH"`. Integers beyond `Number.MAX_SAFE_INTEGER` must be quoted, as
+ * JSON and YAML parsers would round them. Values the setters would reject
+ * are refused here.
+ *
+ * @param text File contents
+ * @param fileName Used to pick the parser and in error messages
+ * @returns The desired values of the listed parameters
+ */
+export function parseDesiredParameters(
+  text: string,
+  fileName = 'parameters.yaml'
+): Partial<CmaParameters> {
+  const document: unknown = fileName.endsWith('.json')
+    ? JSON.parse(text)
+    : yaml.load(text);
+  if (
+    typeof document !== 'object' ||
+    document === null ||
+    Array.isArray(document)
+  ) {
+    throw new Error(`${fileName} must hold an object of parameter values`);
+  }
+
+  const desired: Partial<CmaParameters> = {};
+  for (const [key, raw] of Object.entries(document)) {
+    if (!(PARAMETER_NAMES as readonly string[]).includes(key)) {
+      throw new Error(
+        `${fileName}: unknown parameter ${key} (expected one of ${PARAMETER_NAMES.join(
+          ', '
+        )})`
+      );
+    }
+    const name = key as ParameterName;
+    const value = parseValue(name, raw, fileName);
+    checkValue(name, value, fileName);
+    desired[name] = value;
+  }
+  return desired;
+}
+
+function parseValue(
+  name: ParameterName,
+  raw: unknown,
+  fileName: string
+): bigint {
+  if (typeof raw === 'number') {
+    if (!Number.isSafeInteger(raw)) {
+      throw new Error(
+        `${fileName}: ${name} must be an integer; quote values above ${Number.MAX_SAFE_INTEGER}`
+      );
+    }
+    return BigInt(raw);
+  }
+  if (typeof raw === 'string') {
+    const eth = /^\s*([0-9.]+)\s*ETH\s*$/i.exec(raw);
+    if (eth && WEI_PARAMETERS.has(name)) {
+      return ethers.parseEther(eth[1]);
+    }
+    if (/^\s*[0-9]+\s*$/.test(raw)) return BigInt(raw.trim());
+  }
+  throw new Error(
+    `${fileName}: ${name} must be an integer${
+      WEI_PARAMETERS.has(name) ? ' (wei) or an amount like "0.01 ETH"' : ''
+    }, got ${JSON.stringify(raw)}`
+  );
+}
+
+/** Mirrors the setters' `require`s. */
+function checkValue(name: ParameterName, value: bigint, fileName: string) {
+  if (name === 'cacheThreshold') {
+    if (value > 100n) {
+      throw new Error(`${fileName}: cacheThreshold must be <= 100`);
+    }
+    return;
+  }
+  if (value === 0n) {
+    throw new Error(`${fileName}: ${name} must be greater than 0`);
+  }
+  if (name === 'bidIncrement' && value > UINT192_MAX) {
+    throw new Error(`${fileName}: bidIncrement does not fit in a uint192`);
+  }
+}
+
+/** The changes needed to reach `desired`, in declaration order. */
+export function diffParameters(
+  current: CmaParameters,
+  desired: Partial<CmaParameters>
+): ParameterChange[] {
+  return PARAMETER_NAMES.filter(
+    (name) => desired[name] !== undefined && desired[name] !== current[name]
+  ).map((name) => ({
+    name,
+    oldValue: current[name],
+    newValue: desired[name]!,
+  }));
+}
+
+/** Formats a parameter value, with wei amounts also shown in ETH. */
+export function formatParameter(name: ParameterName, value: bigint): string {
+  return WEI_PARAMETERS.has(name)
+    ? `${value} (${ethers.formatEther(value)} ETH)`
+    : value.toString();
+}
+
+/** Renders changes one per line, e.g. `~ cacheThreshold: 98 -> 95`. */
+export function renderParameterDiff(changes: ParameterChange[]): string {
+  if (changes.length === 0) return 'No changes';
+  return changes
+    .map(
+      ({ name, oldValue, newValue }) =>
+        `~ ${name}: ${formatParameter(name, oldValue)} -> ${formatParameter(
+          name,
+          newValue
+        )}`
+    )
+    .join('\n');
+}
+
+/**
+ * Sends one setter per change, in order, and checks each receipt.
+ *
+ * @description A setter's receipt must carry the matching
+ * `*Updated(oldValue, newValue)` event. If the old value differs from the
+ * diff's, someone else changed the parameter in between and the remaining
+ * changes are not sent.
+ *
+ * @param cma CacheManagerAutomation connected to the owner
+ * @param changes Changes from `diffParameters`
+ * @returns The applied changes, with their transaction hashes
+ */
+export async function applyParameterChanges(
+  cma: CacheManagerAutomation,
+  changes: ParameterChange[]
+): Promise<AppliedParameterChange[]> {
+  const decoder = new EventDecoder({
+    CacheManagerAutomation: await cma.getAddress(),
+  });
+  const applied: AppliedParameterChange[] = [];
+
+  for (const change of changes) {
+    const response: ethers.ContractTransactionResponse = await cma
+      .getFunction(setterName(change.name))
+      .send(change.newValue);
+    const receipt = await response.wait();
+    if (!receipt) throw new Error('Transaction was dropped');
+
+    const eventName = updateEventName(change.name);
+    const event = decoder
+      .decodeReceipt(receipt)
+      .find(
+        (event) =>
+          event.contract === 'CacheManagerAutomation' &&
+          event.name === eventName
+      );
+    if (!event) {
+      throw new Error(`${receipt.hash} emitted no ${eventName} event`);
+    }
+    const { oldValue, newValue } = event.args as {
+      oldValue: bigint;
+      newValue: bigint;
+    };
+    if (oldValue !== change.oldValue || newValue !== change.newValue) {
+      throw new Error(
+        `${eventName}(${oldValue}, ${newValue}) in ${receipt.hash} does not match the planned ${change.oldValue} -> ${change.newValue}`
+      );
+    }
+    applied.push({ ...change, transactionHash: receipt.hash });
+  }
+  return applied;
+}
@@ -0,0 +1,88 @@
+/**
+ * Bid pricing used by CacheManagerAutomation, as plain bigint arithmetic.
+ *
+ * This module mirrors `CacheManagerAutomation._calculateBidAmount` exactly and
+ * has no dependencies, so UIs and scripts can import it to show what a user
+ * will pay without talking to a node.
+ */
+
+const UINT64_MAX = (1n << 64n) - 1n;
+export const UINT192_MAX = (1n << 192n) - 1n;
+const UINT256_MAX = (1n << 256n) - 1n;
+
+export interface BidPricingInput {
+  /** The user's maxBid for the contract (uint256). */
+  maxBid: bigint;
+  /** Position of the request inside its placeBids batch (uint256). */
+  bidIndex: bigint;
+  /** CacheManager.getMinBid for the contract (uint192). */
+  minBid: bigint;
+  /** CacheManager.cacheSize (uint64). Pass 0 if the call reverts. */
+  cacheSize: bigint;
+  /** CacheManager.queueSize (uint64). */
+  queueSize: bigint;
+  /** CacheManager.decay (uint64). Pass 0 if the call reverts. */
+  decay: bigint;
+  /** CMA cacheThreshold, a percentage (uint256). */
+  cacheThreshold: bigint;
+  /** CMA horizonSeconds (uint256). */
+  horizonSeconds: bigint;
+  /** CMA bidIncrement (uint192). */
+  bidIncrement: bigint;
+}
+
+function assertUint(name: string, value: bigint, max: bigint): void {
+  if (value < 0n || value > max) {
+    throw new RangeError(`${name} is out of range: ${value}`);
+  }
+}
+
+/**
+ * Cache utilization as the integer percentage the contract computes.
+ *
+ * @param cacheSize CacheManager.cacheSize
+ * @param queueSize CacheManager.queueSize
+ * @returns floor(queueSize * 100 / cacheSize), or 0 for an empty cache
+ */
+export function cacheUtilization(cacheSize: bigint, queueSize: bigint): bigint {
+  if (cacheSize === 0n) return 0n;
+  return (queueSize * 100n) / cacheSize;
+}
+
+/**
+ * Computes the amount `placeBids` bids for a request.
+ *
+ * @description Below `cacheThreshold` the contract bids 0 so CMA users don't
+ * outbid each other while there is free space. Above it, the bid is
+ * `minBid + decay * horizonSeconds + bidIndex * bidIncrement`, capped at the
+ * user's maxBid and narrowed to uint192 (which truncates, like Solidity's
+ * explicit conversion).
+ *
+ * @throws {RangeError} If an input doesn't fit its Solidity type, or if the
+ * uint256 sum overflows (the contract reverts in that case)
+ */
+export function calculateBidAmount(input: BidPricingInput): bigint {
+  assertUint('maxBid', input.maxBid, UINT256_MAX);
+  assertUint('bidIndex', input.bidIndex, UINT256_MAX);
+  assertUint('minBid', input.minBid, UINT192_MAX);
+  assertUint('cacheSize', input.cacheSize, UINT64_MAX);
+  assertUint('queueSize', input.queueSize, UINT64_MAX);
+  assertUint('decay', input.decay, UINT64_MAX);
+  assertUint('cacheThreshold', input.cacheThreshold, UINT256_MAX);
+  assertUint('horizonSeconds', input.horizonSeconds, UINT256_MAX);
+  assertUint('bidIncrement', input.bidIncrement, UINT192_MAX);
+
+  const utilization = cacheUtilization(input.cacheSize, input.queueSize);
+  if (utilization < input.cacheThreshold) return 0n;
+
+  const decayValue =
+    input.minBid +
+    input.decay * input.horizonSeconds +
+    input.bidIndex * input.bidIncrement;
+  if (decayValue > UINT256_MAX) {
+    throw new RangeError('Bid calculation overflows uint256');
+  }
+
+  const bidValue = decayValue < input.maxBid ? decayValue : input.maxBid;
+  return bidValue & UINT192_MAX;
+}
@@ -0,0 +1,140 @@
+import type { BlockTag } from 'ethers';
+import type { CacheManagerAutomation } from '../../build/typechain-types';
+
+/** A single (user, contract) registration as stored in CacheManagerAutomation. */
+export interface Registration {
+  user: string;
+  contractAddress: string;
+  maxBid: bigint;
+  enabled: boolean;
+  autoActivate: boolean;
+  maxActivationCost: bigint;
+}
+
+/** One user's registrations, in the order the contract stores them. */
+export interface UserRegistrations {
+  user: string;
+  registrations: Registration[];
+}
+
+/** A page of users read by `iterateRegistrations`. */
+export interface RegistrationPage {
+  /** Block every page of the walk was read at. */
+  blockNumber: number;
+  /** Index of the first user of the page in `usersWithContracts`. */
+  offset: number;
+  /** Users registered at `blockNumber`. */
+  totalUsers: number;
+  users: UserRegistrations[];
+}
+
+export interface IterateRegistrationsOptions {
+  /** Block to read at; tags like `latest` are resolved once, up front. */
+  blockTag?: BlockTag;
+  /** Users per page; capped at, and defaulting to, `maxUsersPerPage`. */
+  pageSize?: bigint;
+}
+
+/**
+ * Pages through `getContractsPaginated` at a single block.
+ *
+ * @description Paging at `latest` can skip or repeat users when one is added
+ * to or removed from the contract's `EnumerableSet` between two pages, so the
+ * block tag is pinned to a number before the first page and every read uses
+ * it. `getTotalUsersCount` is re-read with each page and the users returned
+ * are counted: if either disagrees with the first count (an RPC behind a
+ * load balancer serving different heights, or one that ignores the block tag),
+ * the walk throws instead of yielding an inconsistent snapshot.
+ *
+ * @param cma CacheManagerAutomation instance connected to a provider
+ */
+export async function* iterateRegistrations(
+  cma: CacheManagerAutomation,
+  options: IterateRegistrationsOptions = {}
+): AsyncGenerator<RegistrationPage> {
+  const blockNumber = await resolveBlockNumber(cma, options.blockTag);
+  const blockTag = blockNumber;
+  const [maxUsersPerPage, initialTotal] = await Promise.all([
+    cma.maxUsersPerPage({ blockTag }),
+    cma.getTotalUsersCount({ blockTag }),
+  ]);
+  const pageSize =
+    options.pageSize !== undefined && options.pageSize < maxUsersPerPage
+      ? options.pageSize
+      : maxUsersPerPage;
+  const totalUsers = Number(initialTotal);
+
+  let offset = 0;
+  let hasMore = totalUsers > 0;
+  while (hasMore) {
+    const [[page, more], total] = await Promise.all([
+      cma.getContractsPaginated(offset, pageSize, { blockTag }),
+      cma.getTotalUsersCount({ blockTag }),
+    ]);
+    if (Number(total) !== totalUsers) {
+      throw new Error(
+        `Registered users changed from ${totalUsers} to ${total} while reading block ${blockNumber}`
+      );
+    }
+
+    yield {
+      blockNumber,
+      offset,
+      totalUsers,
+      users: page.map(({ user, contracts }) => ({
+        user,
+        registrations: contracts.map((config) => ({
+          user,
+          contractAddress: config.contractAddress,
+          maxBid: config.maxBid,
+          enabled: config.enabled,
+          autoActivate: config.autoActivate,
+          maxActivationCost: config.maxActivationCost,
+        })),
+      })),
+    };
+
+    offset += page.length;
+    hasMore = more && page.length > 0;
+  }
+
+  if (offset !== totalUsers) {
+    throw new Error(
+      `Read ${offset} of ${totalUsers} registered users at block ${blockNumber}`
+    );
+  }
+}
+
+/**
+ * Reads every registration at one block; see `iterateRegistrations`.
+ *
+ * @param cma CacheManagerAutomation instance connected to a provider
+ * @param blockTag Block to read at (defaults to latest)
+ * @returns All registrations stored in the contract at that block
+ */
+export async function fetchRegistrations(
+  cma: CacheManagerAutomation,
+  blockTag?: BlockTag
+): Promise<Registration[]> {
+  const registrations: Registration[] = [];
+  for await (const page of iterateRegistrations(cma, { blockTag })) {
+    for (const user of page.users) {
+      registrations.push(...user.registrations);
+    }
+  }
+  return registrations;
+}
+
+async function resolveBlockNumber(
+  cma: CacheManagerAutomation,
+  blockTag: BlockTag = 'latest'
+): Promise<number> {
+  if (typeof blockTag === 'number' && blockTag >= 0) return blockTag;
+  const provider = cma.runner?.provider;
+  if (!provider) {
+    throw new Error('CacheManagerAutomation must be connected to a provider');
+  }
+  const block = await provider.getBlock(blockTag);
+  if (!block) throw new Error(`Block ${blockTag} not found`);
+  return block.number;
+}
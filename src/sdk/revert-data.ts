@@ -0,0 +1,32 @@
+import { ethers } from 'ethers';
+
+/**
+ * Extracts raw revert data from an error thrown by a contract call.
+ *
+ * @description ethers surfaces reverts as CALL_EXCEPTION errors with `data`,
+ * while providers (including the in-process Hardhat network) may throw their
+ * own error objects carrying `data`, sometimes nested under `error` or
+ * `info.error`. Only non-empty hex payloads are returned.
+ *
+ * @param error The thrown value
+ * @returns The revert payload, or undefined when the error isn't a revert
+ */
+export function getRevertData(error: unknown): string | undefined {
+  const candidates: unknown[] = [];
+  let current: any = error;
+  for (let depth = 0; current && depth < 4; depth++) {
+    candidates.push(current.data, current.error?.data);
+    current = current.info?.error ?? current.error;
+  }
+
+  for (const candidate of candidates) {
+    if (
+      typeof candidate === 'string' &&
+      ethers.isHexString(candidate) &&
+      candidate.length > 2
+    ) {
+      return candidate.toLowerCase();
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,211 @@
+import { ethers } from 'ethers';
+import { ExternalABIs } from '../../config/abis';
+import { CacheManagerAutomation__factory } from '../../build/typechain-types';
+import { getRevertData } from './revert-data';
+
+/** Contract whose ABI declares an error. */
+export type ErrorSource =
+  | 'CacheManagerAutomation'
+  | 'CacheManager'
+  | 'ArbWasm'
+  | 'Solidity';
+
+type NoArgs = Record<string, never>;
+
+/** Decoded arguments of every error the registry knows, by error name. */
+export interface KnownErrorArgs {
+  // CacheManagerAutomation
+  InvalidAddress: NoArgs;
+  InvalidBid: NoArgs;
+  InsufficientBalance: NoArgs;
+  ContractNotFound: NoArgs;
+  TooManyContracts: NoArgs;
+  ContractPaused: NoArgs;
+  ContractAlreadyExists: NoArgs;
+  ExceedsMaxUserFunds: NoArgs;
+  InvalidFundAmount: NoArgs;
+  TooManyBids: NoArgs;
+  TooManyActivations: NoArgs;
+  InvalidActivationCost: NoArgs;
+  UnauthorizedSender: NoArgs;
+  NotStylusProgram: NoArgs;
+  // CacheManager
+  AlreadyCached: { codehash: string };
+  AsmTooLarge: { asm: bigint; queueSize: bigint; cacheSize: bigint };
+  BidTooLarge: { bid: bigint };
+  BidTooSmall: { bid: bigint; min: bigint };
+  BidsArePaused: NoArgs;
+  MakeSpaceTooLarge: { size: bigint; limit: bigint };
+  NotChainOwner: { sender: string };
+  // ArbWasm
+  ProgramNotWasm: NoArgs;
+  ProgramNotActivated: NoArgs;
+  ProgramNeedsUpgrade: { version: bigint; stylusVersion: bigint };
+  ProgramExpired: { ageInSeconds: bigint };
+  ProgramUpToDate: NoArgs;
+  ProgramKeepaliveTooSoon: { ageInSeconds: bigint };
+  ProgramInsufficientValue: { have: bigint; want: bigint };
+  // Solidity built-ins
+  Error: { message: string };
+  Panic: { code: bigint };
+}
+
+export type KnownErrorName = keyof KnownErrorArgs;
+
+/** A decoded revert; narrow on `name` to get typed `args`. */
+export type DecodedError = {
+  [N in KnownErrorName]: {
+    name: N;
+    source: ErrorSource;
+    /** e.g. `ProgramExpired(uint64)` */
+    signature: string;
+    selector: string;
+    args: KnownErrorArgs[N];
+    data: string;
+  };
+}[KnownErrorName];
+
+/** Thrown in place of an opaque revert once its payload has been decoded. */
+export class ContractRevertError extends Error {
+  readonly decoded: DecodedError;
+  /** The error the provider threw. */
+  readonly original?: unknown;
+
+  constructor(decoded: DecodedError, original?: unknown) {
+    super(`Transaction reverted with ${describeDecodedError(decoded)}`);
+    this.name = 'ContractRevertError';
+    this.decoded = decoded;
+    this.original = original;
+  }
+}
+
+/**
+ * Maps revert selectors to the contracts that declare them.
+ *
+ * @description Interfaces are tried in registration order, after the Solidity
+ * built-ins `Error(string)` and `Panic(uint256)`. Errors missing from
+ * `KnownErrorArgs` can be registered too; they decode with untyped `args`.
+ */
+export class RevertDecoder {
+  private readonly interfaces: {
+    source: ErrorSource;
+    iface: ethers.Interface;
+  }[] = [];
+
+  register(source: ErrorSource, abi: ethers.InterfaceAbi): this {
+    this.interfaces.push({ source, iface: new ethers.Interface(abi) });
+    return this;
+  }
+
+  /**
+   * Decodes a revert payload.
+   *
+   * @param data Raw revert data (selector and ABI-encoded arguments)
+   * @returns The decoded error, or undefined for unknown or malformed data
+   */
+  decode(data: string): DecodedError | undefined {
+    if (!ethers.isHexString(data) || ethers.dataLength(data) < 4) {
+      return undefined;
+    }
+    const selector = ethers.dataSlice(data, 0, 4).toLowerCase();
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    try {
+      if (selector === ERROR_STRING_SELECTOR) {
+        const [message] = coder.decode(['string'], ethers.dataSlice(data, 4));
+        return build('Error', 'Solidity', 'Error(string)', data, { message });
+      }
+      if (selector === PANIC_SELECTOR) {
+        const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4));
+        return build('Panic', 'Solidity', 'Panic(uint256)', data, { code });
+      }
+      for (const { source, iface } of this.interfaces) {
+        const parsed = iface.parseError(data);
+        if (!parsed) continue;
+        const args = Object.fromEntries(
+          parsed.fragment.inputs.map((input, i) => [
+            input.name,
+            toPlain(parsed.args[i]),
+          ])
+        );
+        return build(
+          parsed.name as KnownErrorName,
+          source,
+          parsed.signature,
+          data,
+          args
+        );
+      }
+    } catch {
+      // A known selector with a payload that doesn't decode.
+    }
+    return undefined;
+  }
+
+  /**
+   * Decodes the revert behind a thrown call or transaction error.
+   *
+   * @returns The decoded error, or undefined if the error isn't a revert with
+   * a known payload
+   */
+  decodeError(error: unknown): DecodedError | undefined {
+    const data = getRevertData(error);
+    return data === undefined ? undefined : this.decode(data);
+  }
+
+  /** A one-line reason for a revert payload, for logs and alerts. */
+  describe(data: string): string {
+    if (data === '0x') return 'empty revert data';
+    const decoded = this.decode(data);
+    if (decoded) return describeDecodedError(decoded);
+    return `unknown error ${ethers.dataSlice(data, 0, 4).toLowerCase()}`;
+  }
+}
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+function build(
+  name: KnownErrorName,
+  source: ErrorSource,
+  signature: string,
+  data: string,
+  args: Record<string, unknown>
+): DecodedError {
+  return {
+    name,
+    source,
+    signature,
+    selector: ethers.dataSlice(data, 0, 4).toLowerCase(),
+    args,
+    data,
+  } as DecodedError;
+}
+
+/** ethers returns Result proxies for structs and arrays; flatten them. */
+function toPlain(value: unknown): unknown {
+  return value instanceof ethers.Result ? value.toArray(true) : value;
+}
+
+/**
+ * Formats a decoded error: the message for `Error(string)`, `Panic(0x11)`,
+ * or `Name(arg=value, ...)`.
+ */
+export function describeDecodedError(decoded: DecodedError): string {
+  if (decoded.name === 'Error') return decoded.args.message;
+  if (decoded.name === 'Panic') {
+    return `Panic(0x${decoded.args.code.toString(16).padStart(2, '0')})`;
+  }
+  const args = Object.entries(decoded.args).map(
+    ([name, value]) => `${name}=${value}`
+  );
+  return `${decoded.name}(${args.join(', ')})`;
+}
+
+/**
+ * Decoder for every error the CMA flows can surface: CacheManagerAutomation,
+ * the CacheManager it bids on and the ArbWasm precompile it activates with.
+ */
+export const revertDecoder = new RevertDecoder()
+  .register('CacheManagerAutomation', CacheManagerAutomation__factory.abi)
+  .register('CacheManager', ExternalABIs.CacheManager)
+  .register('ArbWasm', ExternalABIs.ArbWasm);
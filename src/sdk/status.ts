@@ -0,0 +1,295 @@
+import { ethers } from 'ethers';
+import {
+  BiddingEscrow__factory,
+  IArbWasm__factory,
+  IArbWasmCache__factory,
+  type CacheManagerAutomation,
+} from '../../build/typechain-types';
+import { getExternalContractInstance } from '../../config/abis';
+import { checkProgramExpiry } from './expiry';
+import { cacheUtilization, calculateBidAmount } from './pricing';
+
+/** A CacheManager entry, as returned by `getSmallestEntries`. */
+export interface CacheEntry {
+  codehash: string;
+  size: bigint;
+  bid: bigint;
+}
+
+/** CacheManager state next to the CMA parameters it is compared with. */
+export interface MarketStatus {
+  /** undefined when the CacheManager call reverted, here and below. */
+  cacheSize?: bigint;
+  queueSize?: bigint;
+  decay?: bigint;
+  isPaused?: boolean;
+  /** Integer percentage, as the CMA computes it. */
+  utilization?: bigint;
+  cacheThreshold: bigint;
+  horizonSeconds: bigint;
+  bidIncrement: bigint;
+  /** Cheapest entries first: the ones a new bid has to evict. */
+  smallestEntries?: CacheEntry[];
+}
+
+/** A registration plus the program's cache and activation state. */
+export interface ContractStatus {
+  contractAddress: string;
+  maxBid: bigint;
+  enabled: boolean;
+  autoActivate: boolean;
+  /** undefined when the address has no code. */
+  codehash?: string;
+  cached?: boolean;
+  /** CacheManager.getMinBid; undefined when the call reverted. */
+  minBid?: bigint;
+  /**
+   * Amount `placeBids` would bid as the first request of a batch; undefined
+   * when it would skip the contract: disabled, already cached, a bid below
+   * minBid, or a bid above the escrow balance.
+   */
+  predictedBid?: bigint;
+  /** Seconds until the program expires (0 if expired), when known. */
+  timeLeft?: bigint;
+}
+
+export interface CmaStatus {
+  blockNumber: number;
+  user: string;
+  /** The user's escrow deposit. */
+  balance: bigint;
+  market: MarketStatus;
+  contracts: ContractStatus[];
+}
+
+export interface LoadStatusOptions {
+  /** How many of the cheapest cache entries to read; defaults to 5. */
+  smallestEntries?: number;
+}
+
+/**
+ * Reads the cache market and a user's registrations in one pass.
+ *
+ * @description CacheManager calls that revert (some Nitro versions lack
+ * `decay`, an empty cache has no entries) leave their field undefined rather
+ * than failing the whole status. Predicted bids use bid index 0; later
+ * requests in a batch bid `bidIncrement` more per position. Disabled
+ * registrations get no prediction, since the CMA never bids for them.
+ *
+ * @param cma CMA connected to a provider
+ * @param user Owner of the registrations
+ */
+export async function loadCmaStatus(
+  cma: CacheManagerAutomation,
+  user: string,
+  options: LoadStatusOptions = {}
+): Promise<CmaStatus> {
+  const provider = cma.runner?.provider;
+  if (!provider) {
+    throw new Error('CacheManagerAutomation must be connected to a provider');
+  }
+  // getUserContracts reads msg.sender; signers refuse a foreign `from`.
+  const reader = cma.connect(provider);
+  const [cacheManagerAddress, arbWasmCacheAddress, arbWasmAddress, escrow] =
+    await Promise.all([
+      cma.cacheManager(),
+      cma.arbWasmCache(),
+      cma.arbWasm(),
+      cma.escrow(),
+    ]);
+  // The typechain interface only covers what the CMA calls, not isPaused or
+  // getSmallestEntries.
+  const cacheManager = getExternalContractInstance(
+    'CacheManager',
+    cacheManagerAddress,
+    provider
+  );
+  const arbWasmCache = IArbWasmCache__factory.connect(
+    arbWasmCacheAddress,
+    provider
+  );
+  const arbWasm = IArbWasm__factory.connect(arbWasmAddress, provider);
+  const optional = <T>(call: Promise<T>) =>
+    call.catch((): T | undefined => undefined);
+
+  const [
+    blockNumber,
+    registrations,
+    balance,
+    cacheThreshold,
+    horizonSeconds,
+    bidIncrement,
+    cacheSize,
+    queueSize,
+    decay,
+    isPaused,
+    entries,
+  ] = await Promise.all([
+    provider.getBlockNumber(),
+    reader.getUserContracts({ from: user }),
+    BiddingEscrow__factory.connect(escrow, provider).depositsOf(user),
+    cma.cacheThreshold(),
+    cma.horizonSeconds(),
+    cma.bidIncrement(),
+    optional<bigint>(cacheManager.cacheSize()),
+    optional<bigint>(cacheManager.queueSize()),
+    optional<bigint>(cacheManager.decay()),
+    optional<boolean>(cacheManager.isPaused()),
+    optional<[string, bigint, bigint][]>(
+      cacheManager.getSmallestEntries(options.smallestEntries ?? 5)
+    ),
+  ]);
+  const market: MarketStatus = {
+    cacheSize,
+    queueSize,
+    decay,
+    isPaused,
+    utilization:
+      cacheSize === undefined || queueSize === undefined
+        ? undefined
+        : cacheUtilization(cacheSize, queueSize),
+    cacheThreshold,
+    horizonSeconds,
+    bidIncrement,
+    smallestEntries: entries?.map(([codehash, size, bid]) => ({
+      codehash,
+      size,
+      bid,
+    })),
+  };
+
+  const contracts = await Promise.all(
+    registrations.map(async (config): Promise<ContractStatus> => {
+      const code = await provider.getCode(config.contractAddress);
+      const codehash = code === '0x' ? undefined : ethers.keccak256(code);
+      const [cached, minBid, expiry] = await Promise.all([
+        codehash ? arbWasmCache.codehashIsCached(codehash) : undefined,
+        optional<bigint>(
+          cacheManager['getMinBid(address)'](config.contractAddress)
+        ),
+        optional(checkProgramExpiry(arbWasm, config.contractAddress)),
+      ]);
+      let predictedBid: bigint | undefined;
+      if (config.enabled && !cached && minBid !== undefined) {
+        const bid = calculateBidAmount({
+          maxBid: config.maxBid,
+          bidIndex: 0n,
+          minBid,
+          cacheSize: cacheSize ?? 0n,
+          queueSize: queueSize ?? 0n,
+          decay: decay ?? 0n,
+          cacheThreshold,
+          horizonSeconds,
+          bidIncrement,
+        });
+        // The skips of _shouldBid: below minBid (e.g. maxBid < minBid), or a
+        // paid bid the escrow can't cover.
+        if (bid >= minBid && (bid === 0n || bid <= balance)) {
+          predictedBid = bid;
+        }
+      }
+      return {
+        contractAddress: config.contractAddress,
+        maxBid: config.maxBid,
+        enabled: config.enabled,
+        autoActivate: config.autoActivate,
+        codehash,
+        cached,
+        minBid,
+        predictedBid,
+        timeLeft: expiry?.expired ? 0n : expiry?.timeLeft,
+      };
+    })
+  );
+
+  return { blockNumber, user, balance, market, contracts };
+}
+
+/** Renders a status as a plain-text dashboard. */
+export function renderCmaStatus(status: CmaStatus): string {
+  const { market } = status;
+  const lines = [
+    `CacheManager at block ${status.blockNumber}`,
+    `  paused:       ${
+      market.isPaused === undefined ? '?' : market.isPaused ? 'yes' : 'no'
+    }`,
+    `  queue/cache:  ${show(market.queueSize)} / ${show(
+      market.cacheSize
+    )} bytes`,
+    `  utilization:  ${
+      market.utilization === undefined ? '?' : `${market.utilization}%`
+    } (threshold ${market.cacheThreshold}%${
+      market.utilization !== undefined &&
+      market.utilization >= market.cacheThreshold
+        ? ', CMA bidding'
+        : ''
+    })`,
+    `  decay:        ${show(market.decay)} wei/s`,
+  ];
+
+  if (market.smallestEntries === undefined) {
+    lines.push('  smallest entries: unavailable');
+  } else if (market.smallestEntries.length === 0) {
+    lines.push('  smallest entries: cache is empty');
+  } else {
+    lines.push('  smallest entries:');
+    for (const entry of market.smallestEntries) {
+      lines.push(
+        `    ${entry.codehash}  ${entry.size} bytes  ${eth(entry.bid)}`
+      );
+    }
+  }
+
+  lines.push(
+    '',
+    `Registrations of ${status.user} (escrow ${eth(status.balance)})`
+  );
+  if (status.contracts.length === 0) lines.push('  none');
+  for (const contract of status.contracts) {
+    const state = [
+      contract.codehash === undefined
+        ? 'no code'
+        : contract.cached
+        ? 'cached'
+        : 'not cached',
+      ...(contract.enabled ? [] : ['disabled']),
+      ...(contract.autoActivate ? ['auto-activate'] : []),
+    ];
+    lines.push(
+      `  ${contract.contractAddress}  ${state.join(', ')}`,
+      `    minBid ${
+        contract.minBid === undefined ? '?' : eth(contract.minBid)
+      }, predicted bid ${
+        contract.predictedBid !== undefined
+          ? eth(contract.predictedBid)
+          : contract.enabled && contract.minBid !== undefined
+          ? 'skip'
+          : '-'
+      } (max ${eth(contract.maxBid)}), expires ${
+        contract.timeLeft === undefined
+          ? '?'
+          : contract.timeLeft === 0n
+          ? 'now (expired)'
+          : `in ${duration(contract.timeLeft)}`
+      }`
+    );
+  }
+  return lines.join('\n');
+}
+
+function show(value: bigint | undefined): string {
+  return value === undefined ? '?' : value.toString();
+}
+
+function eth(wei: bigint): string {
+  return `${ethers.formatEther(wei)} ETH`;
+}
+
+function duration(seconds: bigint): string {
+  const days = seconds / 86_400n;
+  const hours = (seconds % 86_400n) / 3_600n;
+  const minutes = (seconds % 3_600n) / 60n;
+  if (days > 0n) return `${days}d ${hours}h`;
+  if (hours > 0n) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60n}s`;
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import readline from 'readline/promises';
+import { task } from 'hardhat/config';
+import { resolveCmaAddress } from './cma';
+
+interface AdminArgs {
+  cma?: string;
+  file: string;
+  yes: boolean;
+  dryRun: boolean;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const prompt = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    return /^y(es)?$/i.test((await prompt.question(question)).trim());
+  } finally {
+    prompt.close();
+  }
+}
+
+task(
+  'cma:admin',
+  'Brings the owner parameters to the values of a JSON/YAML file'
+)
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addParam('file', 'Desired-state file (.json, .yaml or .yml)')
+  .addFlag('yes', 'Apply without asking for confirmation')
+  .addFlag('dryRun', 'Only print the diff')
+  .setAction(async (args: AdminArgs, hre) => {
+    const { CacheManagerAutomation__factory } = await import(
+      '../build/typechain-types'
+    );
+    const {
+      applyParameterChanges,
+      diffParameters,
+      formatParameter,
+      parseDesiredParameters,
+      readParameters,
+      renderParameterDiff,
+      updateEventName,
+    } = await import('../src/sdk/parameters');
+
+    const desired = parseDesiredParameters(
+      fs.readFileSync(args.file, 'utf8'),
+      args.file
+    );
+    const [signer] = await hre.ethers.getSigners();
+    const cma = CacheManagerAutomation__factory.connect(
+      await resolveCmaAddress(hre, args.cma),
+      signer
+    );
+    const changes = diffParameters(await readParameters(cma), desired);
+
+    console.log(`🛠️  CMA parameters on network: ${hre.network.name}`);
+    console.log(`   CMA: ${await cma.getAddress()}`);
+    console.log(renderParameterDiff(changes));
+    if (changes.length === 0 || args.dryRun) return [];
+
+    const owner = await cma.owner();
+    if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(`${signer.address} is not the CMA owner (${owner})`);
+    }
+    if (
+      !args.yes &&
+      !(await confirm(`Apply ${changes.length} change(s)? [y/N] `))
+    ) {
+      console.log('❌ Aborted, nothing sent.');
+      return [];
+    }
+
+    const applied = await applyParameterChanges(cma, changes);
+    for (const { name, newValue, transactionHash } of applied) {
+      console.log(
+        `✅ ${updateEventName(name)} -> ${formatParameter(
+          name,
+          newValue
+        )} (${transactionHash})`
+      );
+    }
+    return applied;
+  });
@@ -0,0 +1,576 @@
+import fs from 'fs';
+import { task, types } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { ContractTransactionReceipt } from 'ethers';
+import { getExternalContractInstance } from '../config/abis';
+import type { IndexerStore } from '../src/indexer/store';
+
+// The SDK imports build/typechain-types, which only exists after a compile, so
+// everything that touches it is imported inside the task actions.
+
+interface CmaArgs {
+  cma?: string;
+}
+
+interface ContractArgs extends CmaArgs {
+  contract: string;
+  maxBid: string;
+  disabled: boolean;
+  autoActivate: boolean;
+  maxActivationCost: string;
+}
+
+/** `cma:update` settings; the ones left out keep their current value. */
+interface UpdateArgs extends CmaArgs {
+  contract: string;
+  maxBid?: string;
+  enabled?: boolean;
+  autoActivate?: boolean;
+  maxActivationCost?: string;
+}
+
+/**
+ * Resolves the CMA address: `--cma`, then `CMA_ADDRESS`, then the ignition
+ * deployment of the current chain.
+ */
+export async function resolveCmaAddress(
+  hre: HardhatRuntimeEnvironment,
+  cma?: string
+): Promise<string> {
+  const address = cma || process.env.CMA_ADDRESS;
+  if (address) return hre.ethers.getAddress(address);
+
+  const { readDeployedCmaAddress } = await import('../src/keeper/deployments');
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return readDeployedCmaAddress(chainId);
+}
+
+async function connectClient(hre: HardhatRuntimeEnvironment, cma?: string) {
+  const { CmaClient } = await import('../src/sdk/cma-client');
+  const [signer] = await hre.ethers.getSigners();
+  return CmaClient.connect(await resolveCmaAddress(hre, cma), signer);
+}
+
+function settings(hre: HardhatRuntimeEnvironment, args: ContractArgs) {
+  return {
+    maxBid: hre.ethers.parseEther(args.maxBid),
+    enabled: !args.disabled,
+    autoActivate: args.autoActivate,
+    maxActivationCost: hre.ethers.parseEther(args.maxActivationCost),
+  };
+}
+
+/** The last block an indexer database covers. */
+async function lastIndexedBlock(store: IndexerStore): Promise<number> {
+  const block = await store.getLastIndexedBlock();
+  if (block === undefined) {
+    throw new Error(
+      'The indexer database has no indexed blocks; run the indexer first'
+    );
+  }
+  return block;
+}
+
+/** Prints the transaction hash and the receipt's decoded events. */
+async function printReceipt(
+  hre: HardhatRuntimeEnvironment,
+  cmaAddress: string,
+  receipt: ContractTransactionReceipt
+): Promise<void> {
+  const { CacheManagerAutomation__factory } = await import(
+    '../build/typechain-types'
+  );
+  const { EventDecoder, renderEvents } = await import(
+    '../src/sdk/event-decoder'
+  );
+  const cma = CacheManagerAutomation__factory.connect(
+    cmaAddress,
+    hre.ethers.provider
+  );
+  const [escrow, cacheManager] = await Promise.all([
+    cma.escrow(),
+    cma.cacheManager(),
+  ]);
+  const decoder = new EventDecoder({
+    CacheManagerAutomation: cmaAddress,
+    BiddingEscrow: escrow,
+    CacheManager: cacheManager,
+  });
+
+  console.log(`✅ Mined in block ${receipt.blockNumber}: ${receipt.hash}`);
+  console.log(renderEvents(decoder.decodeReceipt(receipt)));
+}
+
+task('cma:insert', 'Registers a contract for automated bidding')
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addParam('contract', 'Stylus program address')
+  .addParam('maxBid', 'Maximum bid, in ETH')
+  .addFlag('disabled', 'Register the contract without bidding for it')
+  .addFlag('autoActivate', 'Reactivate the program when it expires')
+  .addOptionalParam(
+    'maxActivationCost',
+    'Maximum activation data fee, in ETH',
+    '0'
+  )
+  .addOptionalParam('value', 'ETH deposited into the escrow', '0')
+  .setAction(async (args: ContractArgs & { value: string }, hre) => {
+    const client = await connectClient(hre, args.cma);
+    const receipt = await client.insertContract(
+      args.contract,
+      settings(hre, args),
+      hre.ethers.parseEther(args.value)
+    );
+    await printReceipt(hre, await client.cma.getAddress(), receipt);
+    return receipt;
+  });
+
+task(
+  'cma:update',
+  "Updates a registered contract's settings; the ones not passed are kept"
+)
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addParam('contract', 'Stylus program address')
+  .addOptionalParam('maxBid', 'Maximum bid, in ETH')
+  .addOptionalParam(
+    'enabled',
+    'Whether to bid for the contract',
+    undefined,
+    types.boolean
+  )
+  .addOptionalParam(
+    'autoActivate',
+    'Whether to reactivate the program when it expires',
+    undefined,
+    types.boolean
+  )
+  .addOptionalParam('maxActivationCost', 'Maximum activation data fee, in ETH')
+  .setAction(async (args: UpdateArgs, hre) => {
+    const client = await connectClient(hre, args.cma);
+    const current = await client.getContract(args.contract);
+    if (!current) {
+      throw new Error(`${args.contract} is not registered by the signer`);
+    }
+    const receipt = await client.updateContract(args.contract, {
+      maxBid:
+        args.maxBid === undefined
+          ? current.maxBid
+          : hre.ethers.parseEther(args.maxBid),
+      enabled: args.enabled ?? current.enabled,
+      autoActivate: args.autoActivate ?? current.autoActivate,
+      maxActivationCost:
+        args.maxActivationCost === undefined
+          ? current.maxActivationCost
+          : hre.ethers.parseEther(args.maxActivationCost),
+    });
+    await printReceipt(hre, await client.cma.getAddress(), receipt);
+    return receipt;
+  });
+
+task('cma:remove', 'Unregisters a contract, or all of them with --all')
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addOptionalParam('contract', 'Contract address')
+  .addFlag('all', 'Remove every registered contract')
+  .setAction(
+    async (args: CmaArgs & { contract?: string; all: boolean }, hre) => {
+      if (args.all === (args.contract !== undefined)) {
+        throw new Error('Pass either --contract or --all');
+      }
+      const client = await connectClient(hre, args.cma);
+      const receipt = args.contract
+        ? await client.removeContract(args.contract)
+        : await client.removeAllContracts();
+      await printReceipt(hre, await client.cma.getAddress(), receipt);
+      return receipt;
+    }
+  );
+
+task('cma:list', "Lists the signer's registered contracts")
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .setAction(async (args: CmaArgs, hre) => {
+    const client = await connectClient(hre, args.cma);
+    const contracts = await client.getUserContracts();
+    if (contracts.length === 0) {
+      console.log(`📭 No contracts registered by ${await client.getAddress()}`);
+      return contracts;
+    }
+    console.table(
+      contracts.map((config) => ({
+        contract: config.contractAddress,
+        'maxBid (ETH)': hre.ethers.formatEther(config.maxBid),
+        enabled: config.enabled,
+        autoActivate: config.autoActivate,
+        'maxActivationCost (ETH)': hre.ethers.formatEther(
+          config.maxActivationCost
+        ),
+      }))
+    );
+    return contracts;
+  });
+
+task('cma:fund', "Deposits ETH into the signer's escrow balance")
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addParam('amount', 'Amount, in ETH')
+  .setAction(async (args: CmaArgs & { amount: string }, hre) => {
+    const client = await connectClient(hre, args.cma);
+    const receipt = await client.fundBalance(
+      hre.ethers.parseEther(args.amount)
+    );
+    await printReceipt(hre, await client.cma.getAddress(), receipt);
+    return receipt;
+  });
+
+task('cma:withdraw', "Withdraws the signer's whole escrow balance")
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .setAction(async (args: CmaArgs, hre) => {
+    const client = await connectClient(hre, args.cma);
+    const receipt = await client.withdrawBalance();
+    await printReceipt(hre, await client.cma.getAddress(), receipt);
+    return receipt;
+  });
+
+task('cma:balance', "Prints the signer's escrow balance")
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .setAction(async (args: CmaArgs, hre) => {
+    const client = await connectClient(hre, args.cma);
+    const balance = await client.getUserBalance();
+    console.log(
+      `💰 ${await client.getAddress()}: ${hre.ethers.formatEther(balance)} ETH`
+    );
+    return balance;
+  });
+
+task('cma:is-cached', "Checks whether a program's code is in the cache")
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addParam('contract', 'Program address')
+  .addOptionalParam(
+    'arbWasmCache',
+    'ArbWasmCache address (defaults to the one the CMA uses)'
+  )
+  .setAction(
+    async (
+      args: CmaArgs & { contract: string; arbWasmCache?: string },
+      hre
+    ) => {
+      let arbWasmCacheAddress = args.arbWasmCache;
+      if (!arbWasmCacheAddress) {
+        const { CacheManagerAutomation__factory } = await import(
+          '../build/typechain-types'
+        );
+        arbWasmCacheAddress = await CacheManagerAutomation__factory.connect(
+          await resolveCmaAddress(hre, args.cma),
+          hre.ethers.provider
+        ).arbWasmCache();
+      }
+
+      const code = await hre.ethers.provider.getCode(args.contract);
+      if (code === '0x') {
+        throw new Error(`${args.contract} has no code`);
+      }
+      const codehash = hre.ethers.keccak256(code);
+      const arbWasmCache = getExternalContractInstance(
+        'ArbWasmCache',
+        arbWasmCacheAddress,
+        hre.ethers.provider
+      );
+      const cached: boolean = await arbWasmCache.codehashIsCached(codehash);
+      console.log(
+        `${cached ? '✅' : '❌'} ${args.contract} (${codehash}) is ${
+          cached ? '' : 'not '
+        }cached`
+      );
+      return cached;
+    }
+  );
+
+task(
+  'cma:import',
+  "Reconciles the signer's registrations with a CSV/JSON manifest"
+)
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addParam('file', 'Manifest (.csv or .json), amounts in ETH')
+  .addFlag('removeMissing', 'Remove registrations the manifest does not list')
+  .addFlag('dryRun', 'Only validate and print the plan')
+  .setAction(
+    async (
+      args: CmaArgs & { file: string; removeMissing: boolean; dryRun: boolean },
+      hre
+    ) => {
+      const { executeImport, parseManifest, planImport } = await import(
+        '../src/sdk/manifest'
+      );
+      const rows = parseManifest(fs.readFileSync(args.file, 'utf8'), args.file);
+      const client = await connectClient(hre, args.cma);
+      const plan = await planImport(client, rows, {
+        removeMissing: args.removeMissing,
+      });
+
+      if (args.dryRun) {
+        console.table(
+          plan.map(({ action, contractAddress, row, errors }) => ({
+            line: row?.line ?? '-',
+            action,
+            contract: contractAddress,
+            errors: errors.join('; '),
+          }))
+        );
+        return plan;
+      }
+
+      const results = await executeImport(client, plan);
+      console.table(
+        results.map((result) => ({
+          line: result.line ?? '-',
+          action: result.action,
+          contract: result.contractAddress,
+          status: result.status,
+          detail: result.detail ?? result.transactionHash ?? '',
+        }))
+      );
+      return results;
+    }
+  );
+
+task('cma:status', "Shows the cache market and the signer's registrations")
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addOptionalParam('entries', 'Number of cheapest cache entries shown', '5')
+  .addFlag('watch', 'Keep refreshing until interrupted')
+  .addOptionalParam('interval', 'Seconds between refreshes with --watch', '10')
+  .setAction(
+    async (
+      args: CmaArgs & { entries: string; watch: boolean; interval: string },
+      hre
+    ) => {
+      const { CacheManagerAutomation__factory } = await import(
+        '../build/typechain-types'
+      );
+      const { loadCmaStatus, renderCmaStatus } = await import(
+        '../src/sdk/status'
+      );
+      const cma = CacheManagerAutomation__factory.connect(
+        await resolveCmaAddress(hre, args.cma),
+        hre.ethers.provider
+      );
+      const [signer] = await hre.ethers.getSigners();
+      const load = () =>
+        loadCmaStatus(cma, signer.address, {
+          smallestEntries: Number(args.entries),
+        });
+
+      if (!args.watch) {
+        const status = await load();
+        console.log(renderCmaStatus(status));
+        return status;
+      }
+      for (;;) {
+        try {
+          const rendered = renderCmaStatus(await load());
+          console.clear();
+          console.log(rendered);
+          console.log(`\nRefreshing every ${args.interval}s, Ctrl-C to stop`);
+        } catch (error) {
+          // A flaky RPC shouldn't end the dashboard; show it and retry.
+          console.error(
+            `⚠️  Refresh failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, Number(args.interval) * 1000)
+        );
+      }
+    }
+  );
+
+task('cma:statement', 'Writes escrow statements from the indexer database')
+  .addOptionalParam(
+    'db',
+    'Indexer database (defaults to INDEXER_DB_PATH, else indexer-<network>.db)'
+  )
+  .addOptionalParam('user', 'User address (defaults to every escrow payee)')
+  .addOptionalParam('from', 'First block, or an ISO date (inclusive)')
+  .addOptionalParam(
+    'to',
+    'Last block, or an ISO date (exclusive); defaults to the last indexed block'
+  )
+  .addOptionalParam('format', 'csv or json', 'csv')
+  .addOptionalParam('out', 'Directory the statements are written to', '.')
+  .setAction(
+    async (
+      args: {
+        db?: string;
+        user?: string;
+        from?: string;
+        to?: string;
+        format: string;
+        out: string;
+      },
+      hre
+    ) => {
+      if (args.format !== 'csv' && args.format !== 'json') {
+        throw new Error(`--format must be csv or json, got ${args.format}`);
+      }
+      const { IndexerStore } = await import('../src/indexer/store');
+      const {
+        buildStatement,
+        findLastBlockBefore,
+        reconcileStatement,
+        statementToCsv,
+        statementToJson,
+      } = await import('../src/indexer/statement');
+      const { CacheManagerAutomation__factory, BiddingEscrow__factory } =
+        await import('../build/typechain-types');
+
+      const provider = hre.ethers.provider;
+      const bound = async (value: string, exclusive: boolean) => {
+        if (/^\d+$/.test(value)) return Number(value);
+        const time = Date.parse(value);
+        if (Number.isNaN(time)) {
+          throw new Error(`Expected a block number or a date, got ${value}`);
+        }
+        const before = await findLastBlockBefore(provider, time / 1000);
+        return exclusive ? before : before + 1;
+      };
+
+      const store = await IndexerStore.open(
+        args.db ||
+          process.env.INDEXER_DB_PATH ||
+          `indexer-${hre.network.name}.db`
+      );
+      try {
+        const cmaAddress = await store.getCmaAddress();
+        if (!cmaAddress) {
+          throw new Error(
+            'The indexer database is empty; run the indexer first'
+          );
+        }
+        const escrow = BiddingEscrow__factory.connect(
+          await CacheManagerAutomation__factory.connect(
+            cmaAddress,
+            provider
+          ).escrow(),
+          provider
+        );
+        const range = {
+          fromBlock: args.from ? await bound(args.from, false) : 0,
+          toBlock: args.to
+            ? await bound(args.to, true)
+            : await lastIndexedBlock(store),
+        };
+        const users = args.user ? [args.user] : await store.getEscrowPayees();
+
+        fs.mkdirSync(args.out, { recursive: true });
+        const statements = [];
+        for (const user of users) {
+          const statement = await reconcileStatement(
+            await buildStatement(store, user, range),
+            escrow
+          );
+          const file = `${args.out}/statement-${statement.user}-${range.fromBlock}-${range.toBlock}.${args.format}`;
+          fs.writeFileSync(
+            file,
+            args.format === 'csv'
+              ? statementToCsv(statement)
+              : statementToJson(statement)
+          );
+          statements.push(statement);
+        }
+
+        const eth = hre.ethers.formatEther;
+        console.log(`🧾 Blocks ${range.fromBlock}-${range.toBlock}`);
+        console.table(
+          statements.map(
+            ({
+              user,
+              openingBalance,
+              totals,
+              closingBalance,
+              reconciliation,
+            }) => ({
+              user,
+              'opening (ETH)': eth(openingBalance),
+              'deposits (ETH)': eth(totals.deposits),
+              'bids (ETH)': eth(totals.bids),
+              'activations (ETH)': eth(totals.activations),
+              'withdrawals (ETH)': eth(totals.withdrawals),
+              'closing (ETH)': eth(closingBalance),
+              reconciled: reconciliation!.balanced
+                ? '✅'
+                : `❌ off by ${eth(reconciliation!.difference)}`,
+            })
+          )
+        );
+        return statements;
+      } finally {
+        await store.close();
+      }
+    }
+  );
+
+task('cma:audit', 'Checks escrow solvency and that the CMA holds no idle ETH')
+  .addOptionalParam('cma', 'CacheManagerAutomation address')
+  .addOptionalParam('block', 'Block to audit at (defaults to the latest)')
+  .addOptionalParam(
+    'db',
+    'Indexer database listing past depositors; only later blocks are scanned'
+  )
+  .addOptionalParam(
+    'fromBlock',
+    'First block scanned for escrow deposits, e.g. the CMA deployment block',
+    '0'
+  )
+  .setAction(
+    async (
+      args: CmaArgs & { block?: string; db?: string; fromBlock: string },
+      hre
+    ) => {
+      const { CacheManagerAutomation__factory, BiddingEscrow__factory } =
+        await import('../build/typechain-types');
+      const { auditSolvency, findEscrowDepositors, renderSolvencyReport } =
+        await import('../src/sdk/audit');
+      const provider = hre.ethers.provider;
+      const cma = CacheManagerAutomation__factory.connect(
+        await resolveCmaAddress(hre, args.cma),
+        provider
+      );
+      const toBlock = args.block
+        ? Number(args.block)
+        : await provider.getBlockNumber();
+
+      // Users who removed all their contracts left usersWithContracts but
+      // may still hold deposits, so past depositors are audited too.
+      const depositors: string[] = [];
+      let scanFrom = Number(args.fromBlock);
+      if (args.db) {
+        const { IndexerStore } = await import('../src/indexer/store');
+        const store = await IndexerStore.open(args.db);
+        try {
+          scanFrom = (await lastIndexedBlock(store)) + 1;
+          const indexed = await store.getCmaAddress();
+          if (
+            indexed?.toLowerCase() !== (await cma.getAddress()).toLowerCase()
+          ) {
+            throw new Error(`${args.db} doesn't index this CMA`);
+          }
+          depositors.push(...(await store.getEscrowPayees()));
+        } finally {
+          await store.close();
+        }
+      }
+      const escrow = BiddingEscrow__factory.connect(
+        await cma.escrow(),
+        provider
+      );
+      depositors.push(
+        ...(await findEscrowDepositors(escrow, scanFrom, toBlock))
+      );
+
+      const report = await auditSolvency(cma, {
+        blockTag: toBlock,
+        depositors,
+      });
+      console.log(renderSolvencyReport(report));
+      if (report.findings.length > 0) process.exitCode = 1;
+      return report;
+    }
+  );
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+import { getDeploymentConfig } from '../config/deployment-config';
+import type {
+  CacheManagerBidResult,
+  DeployedTestProgram,
+} from '../src/dev/test-programs';
+
+// test-programs decodes reverts with build/typechain-types, which only exists
+// after a compile, so it is imported inside the task actions.
+
+const ADDRESS = /0x[0-9a-fA-F]{40}/;
+
+task('dev:deploy-wasm', 'Deploys and activates distinct test Stylus programs')
+  .addOptionalParam('count', 'Number of programs', '1')
+  .addOptionalParam('arbWasm', "ArbWasm address (defaults to the network's)")
+  .addOptionalParam(
+    'maxActivationFee',
+    'Maximum data fee per activation, in ETH',
+    '0.01'
+  )
+  .addOptionalParam('out', 'File the addresses are appended to')
+  .setAction(
+    async (
+      args: {
+        count: string;
+        arbWasm?: string;
+        maxActivationFee: string;
+        out?: string;
+      },
+      hre
+    ): Promise<DeployedTestProgram[]> => {
+      const { deployTestPrograms } = await import('../src/dev/test-programs');
+      const [deployer] = await hre.ethers.getSigners();
+      const programs = await deployTestPrograms(deployer, {
+        count: Number(args.count),
+        arbWasmAddress:
+          args.arbWasm ?? getDeploymentConfig(hre.network.name).arbWasmAddress,
+        maxActivationFee: hre.ethers.parseEther(args.maxActivationFee),
+      });
+
+      for (const program of programs) {
+        console.log(
+          `✅ ${program.address} (codehash ${
+            program.codehash
+          }, data fee ${hre.ethers.formatEther(program.dataFee)} ETH)`
+        );
+      }
+      if (args.out) {
+        fs.appendFileSync(
+          args.out,
+          programs.map(({ address }) => `${address}\n`).join('')
+        );
+        console.log(
+          `📝 Appended ${programs.length} address(es) to ${args.out}`
+        );
+      }
+      return programs;
+    }
+  );
+
+task('dev:place-bids', 'Bids for programs directly on the CacheManager')
+  .addOptionalVariadicPositionalParam('contracts', 'Program addresses', [])
+  .addOptionalParam('file', 'File with one program address per line')
+  .addOptionalParam('minBid', 'Minimum bid, in ETH', '0.0001')
+  .addOptionalParam('maxBid', 'Maximum bid, in ETH', '0.001')
+  .addOptionalParam('cacheManager', 'CacheManager address')
+  .addOptionalParam('arbWasmCache', 'ArbWasmCache address')
+  .setAction(
+    async (
+      args: {
+        contracts: string[];
+        file?: string;
+        minBid: string;
+        maxBid: string;
+        cacheManager?: string;
+        arbWasmCache?: string;
+      },
+      hre
+    ): Promise<CacheManagerBidResult[]> => {
+      const contracts = [...args.contracts];
+      if (args.file) {
+        for (const line of fs.readFileSync(args.file, 'utf8').split('\n')) {
+          const address = line.trim().startsWith('#')
+            ? undefined
+            : ADDRESS.exec(line)?.[0];
+          if (address) contracts.push(address);
+        }
+      }
+      if (contracts.length === 0) {
+        throw new Error('No program addresses given');
+      }
+
+      const { placeCacheManagerBids } = await import(
+        '../src/dev/test-programs'
+      );
+      const config = getDeploymentConfig(hre.network.name);
+      const [bidder] = await hre.ethers.getSigners();
+      const results = await placeCacheManagerBids(bidder, contracts, {
+        cacheManagerAddress: args.cacheManager ?? config.cacheManagerAddress,
+        arbWasmCacheAddress: args.arbWasmCache ?? config.arbWasmCacheAddress,
+        minBid: hre.ethers.parseEther(args.minBid),
+        maxBid: hre.ethers.parseEther(args.maxBid),
+      });
+
+      console.table(
+        results.map((result) => ({
+          contract: result.contractAddress,
+          status: result.status,
+          'bid (ETH)':
+            result.bid === undefined ? '' : hre.ethers.formatEther(result.bid),
+          detail: result.error ?? result.transactionHash ?? '',
+        }))
+      );
+      return results;
+    }
+  );
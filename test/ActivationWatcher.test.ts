@@ -0,0 +1,159 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import {
+  ACTIVATION_GAS_ESTIMATE,
+  ActivationWatcher,
+  activationBatchSize,
+} from '../src/keeper/activation-watcher';
+import { checkProgramExpiry } from '../src/sdk/expiry';
+
+describe('ActivationWatcher', function () {
+  let deployment: MockedCMADeployment;
+  let watcher: ActivationWatcher;
+  let user: HardhatEthersSigner;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const MAX_ACTIVATION_COST = hre.ethers.parseEther('0.01');
+  const FUNDING = hre.ethers.parseEther('0.05');
+  const DATA_FEE = hre.ethers.parseEther('0.003');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000a001',
+    '0x000000000000000000000000000000000000a002',
+    '0x000000000000000000000000000000000000a003',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  const logger = { log: () => {}, warn: () => {}, error: () => {} };
+
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    watcher = new ActivationWatcher({
+      cma: deployment.cacheManagerAutomation,
+      arbWasm: deployment.arbWasm,
+      intervalSeconds: 1,
+      gasBudget: ACTIVATION_GAS_ESTIMATE * 10n,
+      logger,
+    });
+
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+    await deployment.arbWasm.setDefaultTimeLeft(86400);
+    await deployment.arbWasm.setDataFee(DATA_FEE);
+  });
+
+  async function register(
+    program: string,
+    autoActivate = true,
+    funding = FUNDING
+  ) {
+    await deployment.cacheManagerAutomation
+      .connect(user)
+      .insertContract(
+        program,
+        MAX_BID,
+        true,
+        autoActivate,
+        autoActivate ? MAX_ACTIVATION_COST : 0n,
+        { value: funding }
+      );
+  }
+
+  describe('activationBatchSize', function () {
+    it('is capped by maxActivationsPerIteration', function () {
+      expect(activationBatchSize(5n, ACTIVATION_GAS_ESTIMATE * 10n)).to.equal(
+        5
+      );
+    });
+
+    it('is capped by the gas budget', function () {
+      expect(
+        activationBatchSize(5n, ACTIVATION_GAS_ESTIMATE * 2n + 1n)
+      ).to.equal(2);
+    });
+
+    it('rejects a budget below a single activation', function () {
+      expect(() =>
+        activationBatchSize(5n, ACTIVATION_GAS_ESTIMATE - 1n)
+      ).to.throw('below a single activation');
+    });
+  });
+
+  describe('checkProgramExpiry', function () {
+    it('treats a zero time left as expired', async function () {
+      await deployment.arbWasm.setTimeLeftFor(PROGRAMS[0], 0);
+      expect(
+        await checkProgramExpiry(deployment.arbWasm, PROGRAMS[0])
+      ).to.deep.equal({ expired: true, timeLeft: 0n });
+    });
+
+    it('treats a ProgramExpired revert as expired', async function () {
+      await deployment.arbWasm.setTimeLeftRevertWithExpired(90000n);
+      expect(
+        await checkProgramExpiry(deployment.arbWasm, PROGRAMS[0])
+      ).to.deep.equal({ expired: true });
+    });
+
+    it('treats any other revert as not expired', async function () {
+      await deployment.arbWasm.setTimeLeftRevertWithSelector('0x6f809c4e');
+      expect(
+        await checkProgramExpiry(deployment.arbWasm, PROGRAMS[0])
+      ).to.deep.equal({ expired: false });
+    });
+  });
+
+  describe('runOnce', function () {
+    it('activates only expired autoActivate programs', async function () {
+      await register(PROGRAMS[0]);
+      await register(PROGRAMS[1]);
+      await register(PROGRAMS[2], false);
+      await deployment.arbWasm.setTimeLeftFor(PROGRAMS[0], 0);
+      await deployment.arbWasm.setTimeLeftFor(PROGRAMS[2], 0);
+
+      const result = await watcher.runOnce();
+
+      expect(result).to.deep.equal({
+        tracked: 2,
+        expired: 1,
+        underfunded: 0,
+        batches: 1,
+        failedBatches: 0,
+        activationsPerformed: 1,
+        activationErrors: 0,
+      });
+    });
+
+    it('splits expired programs into batches sized by maxActivationsPerIteration', async function () {
+      await deployment.cacheManagerAutomation.setMaxActivationsPerIteration(2);
+      for (const program of PROGRAMS) {
+        await register(program, true, 0n);
+      }
+      await deployment.cacheManagerAutomation
+        .connect(user)
+        .fundBalance({ value: FUNDING });
+      await deployment.arbWasm.setDefaultTimeLeft(0);
+
+      const result = await watcher.runOnce();
+
+      expect(result.batches).to.equal(2);
+      expect(result.activationsPerformed).to.equal(3);
+    });
+
+    it('skips expired programs the escrow cannot pay for', async function () {
+      await register(PROGRAMS[0], true, 1n);
+      await deployment.arbWasm.setDefaultTimeLeft(0);
+
+      const result = await watcher.runOnce();
+
+      expect(result.underfunded).to.equal(1);
+      expect(result.batches).to.equal(0);
+    });
+  });
+});
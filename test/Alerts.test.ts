@@ -0,0 +1,200 @@
+import { expect } from 'chai';
+import http from 'http';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { Alert, FailureAlerter, WebhookNotifier } from '../src/keeper/alerts';
+
+describe('Alerts', function () {
+  let deployment: MockedCMADeployment;
+  let user: HardhatEthersSigner;
+  let server: http.Server;
+  let webhookUrl: string;
+  let received: Alert[];
+  let logs: string[];
+
+  const logger = {
+    log: () => {},
+    warn: (...args: unknown[]) => logs.push(args.join(' ')),
+    error: () => {},
+  };
+
+  const PROGRAM = hre.ethers.getAddress(
+    '0x000000000000000000000000000000000000a1e7'
+  );
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const MAX_ACTIVATION_COST = hre.ethers.parseEther('0.01');
+
+  function alert(overrides: Partial<Alert> = {}): Alert {
+    return {
+      kind: 'BidError',
+      user: user.address,
+      contract: PROGRAM,
+      amount: '0',
+      reason: 'Free bid placement failed',
+      txHash: hre.ethers.ZeroHash,
+      blockNumber: 1,
+      ...overrides,
+    };
+  }
+
+  // Local stand-in for a webhook receiver; /fail answers 500.
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    received = [];
+    logs = [];
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        if (request.url === '/fail') {
+          response.writeHead(500).end();
+          return;
+        }
+        received.push(JSON.parse(body));
+        response.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = server.address() as { port: number };
+    webhookUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async function () {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('WebhookNotifier', function () {
+    let now: number;
+
+    beforeEach(function () {
+      now = 1_000_000;
+    });
+
+    it('mutes identical alerts for the dedup window', async function () {
+      const notifier = new WebhookNotifier({
+        urls: [webhookUrl],
+        dedupSeconds: 60,
+        now: () => now,
+        logger,
+      });
+
+      expect(await notifier.notify(alert())).to.equal('sent');
+      expect(await notifier.notify(alert({ blockNumber: 2 }))).to.equal(
+        'duplicate'
+      );
+      expect(await notifier.notify(alert({ reason: 'other' }))).to.equal(
+        'sent'
+      );
+
+      now += 60_000;
+      expect(await notifier.notify(alert())).to.equal('sent');
+      expect(received.map((a) => a.reason)).to.deep.equal([
+        'Free bid placement failed',
+        'other',
+        'Free bid placement failed',
+      ]);
+    });
+
+    it('rate limits and reports how many alerts were dropped', async function () {
+      const notifier = new WebhookNotifier({
+        urls: [webhookUrl],
+        maxPerMinute: 2,
+        now: () => now,
+        logger,
+      });
+
+      for (const reason of ['a', 'b', 'c', 'd']) {
+        await notifier.notify(alert({ reason }));
+      }
+      expect(received.map((a) => a.reason)).to.deep.equal(['a', 'b']);
+
+      now += 60_000;
+      expect(await notifier.notify(alert({ reason: 'e' }))).to.equal('sent');
+      expect(received[2]).to.include({ reason: 'e', suppressed: 2 });
+      // A rate-limited alert wasn't delivered, so it isn't a duplicate later.
+      expect(await notifier.notify(alert({ reason: 'c' }))).to.equal('sent');
+    });
+
+    it('keeps delivering to other URLs when one fails', async function () {
+      const notifier = new WebhookNotifier({
+        urls: [`${webhookUrl}/fail`, webhookUrl],
+        logger,
+      });
+
+      expect(await notifier.notify(alert())).to.equal('sent');
+      expect(received).to.have.length(1);
+      expect(logs[0]).to.include(
+        `Could not deliver alert to ${webhookUrl}/fail`
+      );
+    });
+  });
+
+  describe('FailureAlerter', function () {
+    beforeEach(async function () {
+      deployment = await deployCMAWithMocks();
+      await setProgramCode(PROGRAM);
+      await deployment.cacheManagerAutomation
+        .connect(user)
+        .insertContract(PROGRAM, MAX_BID, true, true, MAX_ACTIVATION_COST, {
+          value: MAX_ACTIVATION_COST,
+        });
+    });
+
+    function createAlerter() {
+      return new FailureAlerter({
+        cma: deployment.cacheManagerAutomation,
+        notifier: new WebhookNotifier({ urls: [webhookUrl], logger }),
+        intervalSeconds: 1,
+        network: 'hardhat',
+        maxBlockRange: 1,
+        logger,
+      });
+    }
+
+    it('posts BidError and decoded ActivationError alerts once', async function () {
+      const alerter = createAlerter();
+      // The first round only sets the starting block.
+      expect(await alerter.runOnce()).to.deep.equal([]);
+
+      const cma = deployment.cacheManagerAutomation;
+      const request = { user: user.address, contractAddress: PROGRAM };
+      await deployment.cacheManager.setShouldRevert(true);
+      const bidTx = await cma.placeBids([request]);
+      await deployment.arbWasm.setTimeLeftFor(PROGRAM, 0);
+      await deployment.arbWasm.setShouldRevert(true);
+      const activationTx = await cma.placeActivations([request]);
+
+      const alerts = await alerter.runOnce();
+      expect(alerts).to.have.length(2);
+      expect(received).to.deep.equal(alerts);
+      expect(received[0]).to.deep.equal({
+        kind: 'BidError',
+        network: 'hardhat',
+        user: user.address,
+        contract: PROGRAM,
+        amount: '0',
+        reason: 'Free bid placement failed',
+        txHash: bidTx.hash,
+        blockNumber: bidTx.blockNumber,
+      });
+      expect(received[1]).to.include({
+        kind: 'ActivationError',
+        amount: MAX_ACTIVATION_COST.toString(),
+        reason: 'Activation failed',
+        decodedReason: 'activate revert',
+        txHash: activationTx.hash,
+      });
+
+      expect(await alerter.runOnce()).to.deep.equal([]);
+      expect(received).to.have.length(2);
+    });
+  });
+});
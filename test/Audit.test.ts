@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import {
+  auditSolvency,
+  findEscrowDepositors,
+  SolvencyReport,
+} from '../src/sdk/audit';
+import {
+  BiddingEscrow,
+  BiddingEscrow__factory,
+} from '../build/typechain-types';
+
+describe('Solvency audit', function () {
+  let deployment: MockedCMADeployment;
+  let registered: HardhatEthersSigner;
+  let departed: HardhatEthersSigner;
+  let escrow: BiddingEscrow;
+  let startBlock: number;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const FUNDING = hre.ethers.parseEther('0.01');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000e401',
+    '0x000000000000000000000000000000000000e402',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  async function setBalance(address: string, wei: bigint) {
+    await hre.network.provider.send('hardhat_setBalance', [
+      address,
+      hre.ethers.toQuantity(wei),
+    ]);
+  }
+
+  async function depositors() {
+    return findEscrowDepositors(
+      escrow,
+      startBlock,
+      await hre.ethers.provider.getBlockNumber(),
+      2
+    );
+  }
+
+  beforeEach(async function () {
+    [, registered, departed] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+    startBlock = await hre.ethers.provider.getBlockNumber();
+    escrow = BiddingEscrow__factory.connect(
+      await deployment.cacheManagerAutomation.escrow(),
+      hre.ethers.provider
+    );
+
+    const cma = deployment.cacheManagerAutomation;
+    await cma
+      .connect(registered)
+      .insertContract(PROGRAMS[0], MAX_BID, true, false, 0, {
+        value: FUNDING,
+      });
+    // Leaves usersWithContracts but keeps its deposit.
+    await cma
+      .connect(departed)
+      .insertContract(PROGRAMS[1], MAX_BID, true, false, 0, {
+        value: 2n * FUNDING,
+      });
+    await cma.connect(departed).removeContract(PROGRAMS[1]);
+  });
+
+  it('balances registered users and past depositors against the escrow', async function () {
+    expect(await depositors()).to.have.members([
+      registered.address,
+      departed.address,
+    ]);
+    const report = await auditSolvency(deployment.cacheManagerAutomation, {
+      depositors: await depositors(),
+    });
+
+    expect(report.findings).to.deep.equal([]);
+    expect(report.registeredUsers).to.equal(1);
+    expect(report.escrowBalance).to.equal(3n * FUNDING);
+    expect(report.totalDeposits).to.equal(3n * FUNDING);
+    expect(report.accounts).to.deep.equal([
+      { address: departed.address, deposits: 2n * FUNDING, registered: false },
+      { address: registered.address, deposits: FUNDING, registered: true },
+    ]);
+
+    // Without the past depositors their funds look unaccounted for.
+    const partial = await auditSolvency(deployment.cacheManagerAutomation);
+    expect(partial.difference).to.equal(2n * FUNDING);
+    expect(partial.findings.map(({ check }) => check)).to.deep.equal([
+      'escrow-solvency',
+    ]);
+  });
+
+  it('reports an insolvent escrow and idle CMA ether', async function () {
+    const cmaAddress = await deployment.cacheManagerAutomation.getAddress();
+    await setBalance(await escrow.getAddress(), FUNDING);
+    await setBalance(cmaAddress, 1n);
+
+    const report = await auditSolvency(deployment.cacheManagerAutomation, {
+      depositors: await depositors(),
+    });
+    expect(report.difference).to.equal(-2n * FUNDING);
+    expect(report.cmaBalance).to.equal(1n);
+    expect(report.findings.map(({ check }) => check)).to.deep.equal([
+      'escrow-solvency',
+      'cma-idle-eth',
+    ]);
+    expect(report.findings[0].message).to.match(/insolvent/);
+  });
+
+  it('audits at a past block and fails cma:audit on a mismatch', async function () {
+    const before = await hre.ethers.provider.getBlockNumber();
+    // hardhat_setBalance rewrites the latest block's state.
+    await hre.network.provider.send('hardhat_mine', ['0x1']);
+    await setBalance(
+      await deployment.cacheManagerAutomation.getAddress(),
+      hre.ethers.parseEther('1')
+    );
+    await hre.network.provider.send('hardhat_mine', ['0x1']);
+
+    const exitCode = process.exitCode;
+    try {
+      const past: SolvencyReport = await hre.run('cma:audit', {
+        cma: await deployment.cacheManagerAutomation.getAddress(),
+        block: String(before),
+        fromBlock: String(startBlock),
+      });
+      expect(past.findings).to.deep.equal([]);
+      expect(process.exitCode).to.equal(exitCode);
+
+      const current: SolvencyReport = await hre.run('cma:audit', {
+        cma: await deployment.cacheManagerAutomation.getAddress(),
+        fromBlock: String(startBlock),
+      });
+      expect(current.findings.map(({ check }) => check)).to.deep.equal([
+        'cma-idle-eth',
+      ]);
+      expect(process.exitCode).to.equal(1);
+    } finally {
+      process.exitCode = exitCode;
+    }
+  });
+
+  it('asks for an indexer run when --db has no indexed blocks', async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    await expect(
+      hre.run('cma:audit', {
+        cma: await deployment.cacheManagerAutomation.getAddress(),
+        db: path.join(dir, 'indexer.db'),
+      })
+    ).to.be.rejectedWith(/run the indexer first/);
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { BidExplainer } from '../src/keeper/bid-explainer';
+
+describe('BidExplainer', function () {
+  let deployment: MockedCMADeployment;
+  let explainer: BidExplainer;
+  let user: HardhatEthersSigner;
+  let poorUser: HardhatEthersSigner;
+
+  const MIN_BID = hre.ethers.parseEther('0.001');
+  const DECAY = 1000n;
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000d001',
+    '0x000000000000000000000000000000000000d002',
+    '0x000000000000000000000000000000000000d003',
+    '0x000000000000000000000000000000000000d004',
+    '0x000000000000000000000000000000000000d005',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  beforeEach(async function () {
+    [, user, poorUser] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    explainer = new BidExplainer({
+      cma: deployment.cacheManagerAutomation,
+      arbWasmCache: deployment.arbWasmCache,
+      cacheManager: deployment.cacheManager,
+    });
+
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+    // 99% utilization, above the default 98% threshold.
+    await deployment.cacheManager.setCache(100, 99, DECAY);
+    await deployment.cacheManager.setMinBid(MIN_BID);
+  });
+
+  async function register(
+    signer: HardhatEthersSigner,
+    program: string,
+    maxBid: bigint,
+    funding: bigint,
+    enabled = true
+  ) {
+    await deployment.cacheManagerAutomation
+      .connect(signer)
+      .insertContract(program, maxBid, enabled, false, 0, { value: funding });
+  }
+
+  it('matches the bids placeBids actually places', async function () {
+    const funding = hre.ethers.parseEther('0.1');
+    const highMaxBid = hre.ethers.parseEther('0.01');
+    await register(user, PROGRAMS[0], highMaxBid, funding);
+    await register(user, PROGRAMS[1], highMaxBid, 0n, false);
+    await register(user, PROGRAMS[2], MIN_BID - 1n, 0n);
+    await register(poorUser, PROGRAMS[3], highMaxBid, MIN_BID);
+    await register(user, PROGRAMS[4], highMaxBid, 0n);
+    await deployment.arbWasmCache.setCached(
+      hre.ethers.keccak256(await hre.ethers.provider.getCode(PROGRAMS[4])),
+      true
+    );
+
+    const batch = [
+      { user: user.address, contractAddress: PROGRAMS[0] },
+      { user: user.address, contractAddress: PROGRAMS[1] },
+      { user: user.address, contractAddress: PROGRAMS[2] },
+      { user: poorUser.address, contractAddress: PROGRAMS[3] },
+      { user: user.address, contractAddress: PROGRAMS[4] },
+      { user: poorUser.address, contractAddress: PROGRAMS[0] },
+      { user: user.address, contractAddress: hre.ethers.ZeroAddress },
+      { user: user.address, contractAddress: PROGRAMS[0] },
+    ];
+
+    const decisions = await explainer.explainBatches([batch]);
+    expect(decisions.map((d) => d.reason)).to.deep.equal([
+      undefined,
+      'disabled',
+      'below min bid',
+      'insufficient balance',
+      'already cached',
+      'not registered',
+      'invalid address',
+      undefined,
+    ]);
+
+    const receipt = await (
+      await deployment.cacheManagerAutomation.placeBids(batch)
+    ).wait();
+    const placed = receipt!.logs
+      .map((log) => deployment.cacheManagerAutomation.interface.parseLog(log))
+      .filter((parsed) => parsed?.name === 'BidPlaced')
+      .map((parsed) => [parsed!.args.contractAddress, parsed!.args.bidAmount]);
+
+    expect(placed).to.deep.equal(
+      decisions
+        .filter((d) => d.shouldBid)
+        .map((d) => [d.contractAddress, d.bidAmount])
+    );
+    // minBid + decay * horizon + bidIndex * increment, for bidIndex 0 and 7.
+    const horizon = await deployment.cacheManagerAutomation.horizonSeconds();
+    expect(decisions[0].bidAmount).to.equal(MIN_BID + DECAY * horizon);
+    expect(decisions[7].bidAmount).to.equal(MIN_BID + DECAY * horizon + 7n);
+  });
+
+  it('debits each predicted bid from the running escrow balance', async function () {
+    const horizon = await deployment.cacheManagerAutomation.horizonSeconds();
+    const firstBid = MIN_BID + DECAY * horizon;
+    const highMaxBid = hre.ethers.parseEther('0.01');
+    // Covers the first bid but not both.
+    await register(user, PROGRAMS[0], highMaxBid, (firstBid * 3n) / 2n);
+    await register(user, PROGRAMS[1], highMaxBid, 0n);
+    const batch = [
+      { user: user.address, contractAddress: PROGRAMS[0] },
+      { user: user.address, contractAddress: PROGRAMS[1] },
+    ];
+
+    const decisions = await explainer.explainBatches([batch]);
+    expect(decisions.map((d) => d.reason)).to.deep.equal([
+      undefined,
+      'insufficient balance',
+    ]);
+    expect(decisions[1].balance).to.equal(firstBid / 2n);
+
+    const receipt = await (
+      await deployment.cacheManagerAutomation.placeBids(batch)
+    ).wait();
+    const placed = receipt!.logs
+      .map((log) => deployment.cacheManagerAutomation.interface.parseLog(log))
+      .filter((parsed) => parsed?.name === 'BidPlaced')
+      .map((parsed) => parsed!.args.contractAddress);
+    expect(placed).to.deep.equal([PROGRAMS[0]]);
+  });
+
+  it('hashes accounts without code the way EXTCODEHASH does', async function () {
+    const emptyHash = hre.ethers.keccak256('0x');
+    await deployment.arbWasmCache.setCached(emptyHash, true);
+    // A funded account has the hash of empty code; a missing one has 0.
+    const missing = hre.ethers.getAddress(
+      '0x000000000000000000000000000000000000d0ff'
+    );
+
+    const decisions = await explainer.explainBatches([
+      [
+        { user: user.address, contractAddress: poorUser.address },
+        { user: user.address, contractAddress: missing },
+      ],
+    ]);
+    expect(decisions.map((d) => d.reason)).to.deep.equal([
+      'already cached',
+      'not registered',
+    ]);
+  });
+
+  it('predicts free bids while the cache is below the threshold', async function () {
+    await deployment.cacheManager.setCache(100, 50, DECAY);
+    await deployment.cacheManager.setMinBid(0);
+    await register(user, PROGRAMS[0], MIN_BID, 0n);
+
+    const [decision] = await explainer.explainBatches([
+      [{ user: user.address, contractAddress: PROGRAMS[0] }],
+    ]);
+
+    expect(decision.shouldBid).to.equal(true);
+    expect(decision.bidAmount).to.equal(0n);
+  });
+});
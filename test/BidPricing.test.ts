@@ -0,0 +1,285 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { deployCMAWithMocks, setProgramCode } from './helpers';
+import {
+  BidPricingInput,
+  cacheUtilization,
+  calculateBidAmount,
+  UINT192_MAX,
+} from '../src/sdk/pricing';
+import type {
+  CacheManagerAutomation,
+  CacheManagerAutomationHarness,
+  MockCacheManager,
+} from '../build/typechain-types';
+
+/** Deterministic PRNG (mulberry32) so failures can be reproduced. */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next32 = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+  const bits = (count: number) => {
+    let value = 0n;
+    for (let i = 0; i < count; i += 32) {
+      value = (value << 32n) | BigInt(next32());
+    }
+    return value & ((1n << BigInt(count)) - 1n);
+  };
+  return {
+    /** Uniform in [0, 2^maxBits), with a random bit length to cover small values too. */
+    uint: (maxBits: number) => bits(1 + (next32() % maxBits)),
+    int: (min: number, max: number) => min + (next32() % (max - min + 1)),
+    chance: (percent: number) => next32() % 100 < percent,
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function randomInput(random: Random): BidPricingInput {
+  const cacheSize = random.chance(5) ? 0n : random.uint(64);
+  // Keep the queue around the cache size so both sides of the threshold show up.
+  const queueSize = random.chance(70)
+    ? (cacheSize * BigInt(random.int(80, 100))) / 100n
+    : random.uint(64);
+  return {
+    maxBid: random.chance(20)
+      ? (1n << 192n) + random.uint(200)
+      : random.uint(160),
+    bidIndex: random.chance(10)
+      ? (1n << 255n) + random.uint(255)
+      : BigInt(random.int(0, 50)),
+    minBid: random.uint(128),
+    cacheSize,
+    queueSize,
+    decay: random.uint(64),
+    cacheThreshold: BigInt(random.int(0, 100)),
+    horizonSeconds: 1n + random.uint(63),
+    bidIncrement: 1n + random.uint(random.chance(5) ? 191 : 64),
+  };
+}
+
+describe('Bid pricing', function () {
+  let owner: HardhatEthersSigner;
+  let cacheManager: MockCacheManager;
+
+  async function applyMarket(
+    cma: CacheManagerAutomation,
+    input: BidPricingInput
+  ) {
+    await cacheManager.setCache(input.cacheSize, input.queueSize, input.decay);
+    await cacheManager.setMinBid(input.minBid);
+    await cma.setCacheThreshold(input.cacheThreshold);
+    await cma.setHorizonSeconds(input.horizonSeconds);
+    await cma.setBidIncrement(input.bidIncrement);
+  }
+
+  beforeEach(async function () {
+    [owner] = await hre.ethers.getSigners();
+    cacheManager = await (
+      await hre.ethers.getContractFactory('MockCacheManager')
+    ).deploy();
+  });
+
+  describe('Parity with _calculateBidAmount', function () {
+    let harness: CacheManagerAutomationHarness;
+
+    beforeEach(async function () {
+      const arbWasmCache = await (
+        await hre.ethers.getContractFactory('MockArbWasmCache')
+      ).deploy();
+      const arbWasm = await (
+        await hre.ethers.getContractFactory('MockArbWasm')
+      ).deploy();
+      harness = await (
+        await hre.ethers.getContractFactory('CacheManagerAutomationHarness')
+      ).deploy(
+        await cacheManager.getAddress(),
+        await arbWasmCache.getAddress(),
+        await arbWasm.getAddress()
+      );
+    });
+
+    it('matches the contract across randomized inputs', async function () {
+      const random = createRandom(0xcafe);
+      let overflows = 0;
+
+      for (let i = 0; i < 100; i++) {
+        const input = randomInput(random);
+        await applyMarket(harness, input);
+        const onChain = harness.calculateBidAmount(
+          input.maxBid,
+          input.bidIndex,
+          input.minBid
+        );
+
+        let expected: bigint;
+        try {
+          expected = calculateBidAmount(input);
+        } catch (error) {
+          expect(error, `case ${i}`).to.be.instanceOf(RangeError);
+          await expect(onChain, `case ${i}`).to.be.revertedWithPanic(0x11);
+          overflows++;
+          continue;
+        }
+        expect(await onChain, `case ${i}`).to.equal(expected);
+      }
+
+      // Make sure the seed still exercises the overflow path.
+      expect(overflows).to.be.greaterThan(0);
+    });
+
+    it('truncates to uint192 like the contract', async function () {
+      const base: BidPricingInput = {
+        maxBid: 0n,
+        bidIndex: 4n,
+        minBid: 3n,
+        cacheSize: 100n,
+        queueSize: 100n,
+        decay: 0n,
+        cacheThreshold: 98n,
+        horizonSeconds: 1n,
+        bidIncrement: 1n << 190n,
+      };
+      await applyMarket(harness, base);
+
+      // The uncapped bid is 2^192 + 3: capped at maxBid = 2^192 + 1, or not.
+      for (const [maxBid, expected] of [
+        [(1n << 192n) + 1n, 1n],
+        [1n << 200n, 3n],
+      ]) {
+        const input = { ...base, maxBid };
+        expect(calculateBidAmount(input)).to.equal(expected);
+        expect(
+          await harness.calculateBidAmount(maxBid, input.bidIndex, input.minBid)
+        ).to.equal(expected);
+      }
+    });
+
+    it('matches the contract at the threshold boundary', async function () {
+      const base: BidPricingInput = {
+        maxBid: hre.ethers.parseEther('1'),
+        bidIndex: 3n,
+        minBid: 1000n,
+        cacheSize: 200n,
+        queueSize: 0n,
+        decay: 7n,
+        cacheThreshold: 98n,
+        horizonSeconds: 3600n,
+        bidIncrement: 1n,
+      };
+
+      // 195/200 = 97.5% rounds down to 97, 196/200 is exactly 98.
+      for (const queueSize of [195n, 196n, 200n]) {
+        const input = { ...base, queueSize };
+        await applyMarket(harness, input);
+        expect(
+          await harness.calculateBidAmount(
+            input.maxBid,
+            input.bidIndex,
+            input.minBid
+          )
+        ).to.equal(calculateBidAmount(input));
+      }
+      expect(cacheUtilization(200n, 195n)).to.equal(97n);
+    });
+  });
+
+  describe('Parity with placeBids', function () {
+    it('predicts the BidPlaced amounts', async function () {
+      const deployment = await deployCMAWithMocks();
+      const cma = deployment.cacheManagerAutomation;
+      cacheManager = deployment.cacheManager;
+      const programs = [
+        '0x000000000000000000000000000000000000e001',
+        '0x000000000000000000000000000000000000e002',
+        '0x000000000000000000000000000000000000e003',
+      ].map((address) => hre.ethers.getAddress(address));
+      const maxBid = hre.ethers.parseEther('0.5');
+      for (const program of programs) {
+        await setProgramCode(program);
+        await cma.insertContract(program, maxBid, true, false, 0, {
+          value: hre.ethers.parseEther('10'),
+        });
+      }
+      const batch = programs.map((contractAddress) => ({
+        user: owner.address,
+        contractAddress,
+      }));
+
+      const random = createRandom(0xbeef);
+      for (let i = 0; i < 10; i++) {
+        const input = {
+          ...randomInput(random),
+          maxBid,
+          minBid: random.uint(56),
+          decay: random.uint(32),
+          horizonSeconds: 1n + random.uint(16),
+          bidIncrement: 1n + random.uint(32),
+        };
+        await applyMarket(cma, input);
+
+        const expected = batch
+          .map((request, bidIndex) => ({
+            contractAddress: request.contractAddress,
+            bidAmount: calculateBidAmount({
+              ...input,
+              bidIndex: BigInt(bidIndex),
+            }),
+          }))
+          .filter((bid) => bid.bidAmount >= input.minBid)
+          .map((bid) => [bid.contractAddress, bid.bidAmount]);
+
+        const receipt = await (await cma.placeBids(batch)).wait();
+        const placed = receipt!.logs
+          .map((log) => cma.interface.parseLog(log))
+          .filter((parsed) => parsed?.name === 'BidPlaced')
+          .map((parsed) => [
+            parsed!.args.contractAddress,
+            parsed!.args.bidAmount,
+          ]);
+        expect(placed, `case ${i}`).to.deep.equal(expected);
+      }
+    });
+  });
+
+  describe('Input validation', function () {
+    const valid: BidPricingInput = {
+      maxBid: 10n,
+      bidIndex: 0n,
+      minBid: 0n,
+      cacheSize: 100n,
+      queueSize: 100n,
+      decay: 0n,
+      cacheThreshold: 98n,
+      horizonSeconds: 1n,
+      bidIncrement: 1n,
+    };
+
+    it('rejects values outside their Solidity type', function () {
+      expect(() => calculateBidAmount({ ...valid, maxBid: -1n })).to.throw(
+        RangeError,
+        'maxBid'
+      );
+      expect(() =>
+        calculateBidAmount({ ...valid, minBid: UINT192_MAX + 1n })
+      ).to.throw(RangeError, 'minBid');
+      expect(() => calculateBidAmount({ ...valid, decay: 1n << 64n })).to.throw(
+        RangeError,
+        'decay'
+      );
+    });
+
+    it('returns 0 for an empty cache below a non-zero threshold', function () {
+      expect(
+        calculateBidAmount({ ...valid, cacheSize: 0n, queueSize: 0n })
+      ).to.equal(0n);
+    });
+  });
+});
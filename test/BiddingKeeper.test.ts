@@ -0,0 +1,208 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { BiddingKeeper, buildBidBatches } from '../src/keeper/bidding-keeper';
+
+describe('BiddingKeeper', function () {
+  let deployment: MockedCMADeployment;
+  let keeper: BiddingKeeper;
+  let user: HardhatEthersSigner;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const FUNDING = hre.ethers.parseEther('0.01');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000b001',
+    '0x000000000000000000000000000000000000b002',
+    '0x000000000000000000000000000000000000b003',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  // Silence round logs; failures still surface through assertions.
+  const logger = { log: () => {}, warn: () => {}, error: () => {} };
+
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    keeper = new BiddingKeeper({
+      cma: deployment.cacheManagerAutomation,
+      arbWasmCache: deployment.arbWasmCache,
+      intervalSeconds: 1,
+      logger,
+    });
+
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+  });
+
+  async function register(program: string, enabled = true) {
+    await deployment.cacheManagerAutomation
+      .connect(user)
+      .insertContract(program, MAX_BID, enabled, false, 0, {
+        value: FUNDING,
+      });
+  }
+
+  describe('buildBidBatches', function () {
+    it('splits requests into batches of maxBidsPerIteration', function () {
+      const requests = PROGRAMS.map((contractAddress) => ({
+        user: user.address,
+        contractAddress,
+      }));
+      const batches = buildBidBatches(requests, 2n);
+      expect(batches.map((b) => b.length)).to.deep.equal([2, 1]);
+      expect(batches.flat()).to.deep.equal(requests);
+    });
+
+    it('rejects a zero batch size', function () {
+      expect(() => buildBidBatches([], 0n)).to.throw(
+        'maxBidsPerIteration must be greater than 0'
+      );
+    });
+  });
+
+  describe('collectBidRequests', function () {
+    it('excludes disabled, code-less and cached registrations', async function () {
+      const codeless = hre.ethers.getAddress(
+        '0x000000000000000000000000000000000000c0de'
+      );
+      await register(PROGRAMS[0]);
+      await register(PROGRAMS[1], false);
+      await register(PROGRAMS[2]);
+      // Code can't be missing at registration; clear it afterwards.
+      await setProgramCode(codeless);
+      await register(codeless);
+      await setProgramCode(codeless, '0x');
+
+      const cachedCodehash = hre.ethers.keccak256(
+        await hre.ethers.provider.getCode(PROGRAMS[2])
+      );
+      await deployment.arbWasmCache.setCached(cachedCodehash, true);
+
+      const { requests, excluded } = await keeper.collectBidRequests();
+
+      expect(requests).to.deep.equal([
+        { user: user.address, contractAddress: PROGRAMS[0] },
+      ]);
+      expect(excluded).to.deep.equal([
+        {
+          user: user.address,
+          contractAddress: PROGRAMS[1],
+          reason: 'disabled',
+        },
+        {
+          user: user.address,
+          contractAddress: PROGRAMS[2],
+          reason: 'already cached',
+        },
+        { user: user.address, contractAddress: codeless, reason: 'no code' },
+      ]);
+    });
+
+    it('walks every page of getContractsPaginated', async function () {
+      await deployment.cacheManagerAutomation.setMaxUsersPerPage(1);
+      const signers = (await hre.ethers.getSigners()).slice(1, 4);
+      for (const [i, signer] of signers.entries()) {
+        await deployment.cacheManagerAutomation
+          .connect(signer)
+          .insertContract(PROGRAMS[i], MAX_BID, true, false, 0);
+      }
+
+      const { requests } = await keeper.collectBidRequests();
+      expect(requests.map((r) => r.user)).to.deep.equal(
+        signers.map((s) => s.address)
+      );
+    });
+  });
+
+  describe('codehash deduplication', function () {
+    const SHARED_CODE = '0xeff00000c0dec0de';
+
+    it('sends only the best-funded registration per codehash', async function () {
+      const [, , poorUser, richUser] = await hre.ethers.getSigners();
+      for (const program of PROGRAMS) {
+        await setProgramCode(program, SHARED_CODE);
+      }
+      const cma = deployment.cacheManagerAutomation;
+      await cma
+        .connect(poorUser)
+        .insertContract(PROGRAMS[0], MAX_BID, true, false, 0, { value: 1n });
+      await cma
+        .connect(richUser)
+        .insertContract(PROGRAMS[1], MAX_BID, true, false, 0, {
+          value: FUNDING,
+        });
+      // Same user, same code, another address.
+      await cma
+        .connect(richUser)
+        .insertContract(PROGRAMS[2], MAX_BID, true, false, 0);
+
+      const { requests, excluded } = await keeper.collectBidRequests();
+
+      const best = { user: richUser.address, contractAddress: PROGRAMS[1] };
+      expect(requests).to.deep.equal([best]);
+      expect(excluded).to.deep.equal([
+        {
+          user: poorUser.address,
+          contractAddress: PROGRAMS[0],
+          reason: 'shared code',
+          sharedWith: best,
+        },
+        {
+          user: richUser.address,
+          contractAddress: PROGRAMS[2],
+          reason: 'shared code',
+          sharedWith: best,
+        },
+      ]);
+    });
+
+    it('places a single bid for programs sharing code', async function () {
+      await setProgramCode(PROGRAMS[0], SHARED_CODE);
+      await setProgramCode(PROGRAMS[1], SHARED_CODE);
+      await register(PROGRAMS[0]);
+      await register(PROGRAMS[1]);
+      await register(PROGRAMS[2]);
+
+      const result = await keeper.runOnce();
+
+      expect(result.requested).to.equal(2);
+      expect(result.bidsPlaced).to.equal(2);
+      expect(result.excluded).to.equal(1);
+    });
+  });
+
+  describe('runOnce', function () {
+    it('submits one placeBids transaction per batch', async function () {
+      await deployment.cacheManagerAutomation.setMaxBidsPerIteration(2);
+      for (const program of PROGRAMS) {
+        await register(program);
+      }
+
+      const result = await keeper.runOnce();
+
+      expect(result).to.deep.equal({
+        requested: 3,
+        excluded: 0,
+        batches: 2,
+        failedBatches: 0,
+        bidsPlaced: 3,
+        bidErrors: 0,
+      });
+    });
+
+    it('does nothing when no registration needs a bid', async function () {
+      await register(PROGRAMS[0], false);
+
+      const result = await keeper.runOnce();
+
+      expect(result.batches).to.equal(0);
+      expect(result.excluded).to.equal(1);
+    });
+  });
+});
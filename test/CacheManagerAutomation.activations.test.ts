@@ -2,6 +2,7 @@ import { expect } from 'chai';
 import hre from 'hardhat';
 import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
 
+import { setProgramCode } from './helpers';
 import type {
   CacheManagerAutomation,
   MockArbWasm,
@@ -17,8 +18,8 @@ describe('CacheManagerAutomation — Activations', function () {
   let owner: HardhatEthersSigner;
   let user: HardhatEthersSigner;
 
-  // A program address. Using a non-precompile dummy address; the mock doesn't
-  // care about the address being a real Stylus program.
+  // Program addresses. The mocks don't care about the address; the CMA only
+  // checks the Stylus prefix, which setProgramCode gives them.
   const PROGRAM = hre.ethers.getAddress(
     '0x000000000000000000000000000000000000beef'
   );
@@ -57,6 +58,9 @@ describe('CacheManagerAutomation — Activations', function () {
       await arbWasmCache.getAddress(),
       await arbWasm.getAddress()
     )) as CacheManagerAutomation;
+
+    await setProgramCode(PROGRAM);
+    await setProgramCode(PROGRAM_2);
   });
 
   async function insertWithActivation(
@@ -140,6 +144,32 @@ describe('CacheManagerAutomation — Activations', function () {
         cma.connect(user).updateContract(PROGRAM, MAX_BID, true, true, aboveCap)
       ).to.be.revertedWithCustomError(cma, 'InvalidActivationCost');
     });
+
+    it('insertContract reverts NotStylusProgram for EOAs and EVM contracts', async function () {
+      for (const target of [owner.address, await cma.getAddress()]) {
+        await expect(
+          cma.connect(user).insertContract(target, MAX_BID, true, false, 0)
+        ).to.be.revertedWithCustomError(cma, 'NotStylusProgram');
+      }
+    });
+
+    it('insertContract checks the Stylus prefix, not just the presence of code', async function () {
+      // Prefix only, without the dictionary byte.
+      await setProgramCode(PROGRAM, '0xeff000');
+      await expect(
+        cma.connect(user).insertContract(PROGRAM, MAX_BID, true, false, 0)
+      ).to.be.revertedWithCustomError(cma, 'NotStylusProgram');
+
+      await setProgramCode(PROGRAM, '0xef000000');
+      await expect(
+        cma.connect(user).insertContract(PROGRAM, MAX_BID, true, false, 0)
+      ).to.be.revertedWithCustomError(cma, 'NotStylusProgram');
+
+      await setProgramCode(PROGRAM, '0xeff00000');
+      await expect(
+        cma.connect(user).insertContract(PROGRAM, MAX_BID, true, false, 0)
+      ).to.emit(cma, 'ContractAdded');
+    });
   });
 
   describe('receive()', function () {
@@ -1,6 +1,6 @@
 import { expect } from 'chai';
 import hre from 'hardhat';
-import { Wallet, Signer } from 'ethers';
+import { ContractTransactionReceipt, Wallet, Signer } from 'ethers';
 import dotenv from 'dotenv';
 
 import {
@@ -11,6 +11,12 @@ import {
   setCacheSize,
 } from './helpers';
 import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+  DecodedEvent,
+  eventDecoder,
+  filterEvents,
+  renderEvents,
+} from '../src/sdk/event-decoder';
 
 dotenv.config();
 
@@ -53,115 +59,19 @@ describe('cacheManagerAutomation', async function () {
 
   // Helper function to decode and display transaction logs
   function logTransactionEvents(
-    receipt: any,
+    receipt: ContractTransactionReceipt | null,
     showLogs: boolean = true
-  ): Array<{ eventName: string; args: any }> {
-    if (!receipt?.logs || receipt.logs.length === 0) {
-      if (showLogs) console.log('\tNo events emitted');
-      return [];
-    }
-
-    if (showLogs) {
-      console.log(`\n\t📋 Transaction Events (${receipt.logs.length} total):`);
-      console.log('\t' + '='.repeat(50));
-    }
-
-    // Calculate event signatures for BiddingEscrow events
-    const depositedSignature = hre.ethers.id('Deposited(address,uint256)');
-    const withdrawnSignature = hre.ethers.id('Withdrawn(address,uint256)');
-
-    const events: Array<{ eventName: string; args: any }> = [];
-
-    receipt.logs.forEach((log: any, index: number) => {
-      try {
-        // Try to decode with CacheManagerAutomation interface
-        const parsedLog =
-          cmaDeployment.cacheManagerAutomation.interface.parseLog({
-            topics: log.topics,
-            data: log.data,
-          });
-
-        if (parsedLog) {
-          if (showLogs) {
-            console.log(`\t${index + 1}. 🎯 ${parsedLog.name}`);
-            console.log(`\t   Contract: CacheManagerAutomation`);
-          }
-          events.push({
-            eventName: parsedLog.name,
-            args: parsedLog.args,
-          });
-          if (showLogs && parsedLog.args && parsedLog.args.length > 0) {
-            console.log(
-              `\t   Args: ${parsedLog.args
-                .map((arg: any) =>
-                  typeof arg === 'bigint'
-                    ? arg
-                    : typeof arg === 'string' && arg.startsWith('0x')
-                    ? arg
-                    : arg.toString()
-                )
-                .join(', ')}`
-            );
-          }
-        }
-      } catch (e1) {
-        // Check for BiddingEscrow events
-        const topic0 = log.topics[0];
-
-        if (topic0 === depositedSignature) {
-          if (showLogs) {
-            console.log(`\t${index + 1}. 💰 Deposited`);
-            console.log(`\t   Contract: BiddingEscrow`);
-          }
-          const payee = '0x' + log.topics[1].slice(26); // Remove padding
-          const amount = log.data;
-          events.push({
-            eventName: 'Deposited',
-            args: [payee, amount],
-          });
-          if (showLogs) {
-            console.log(
-              `\t   Args: ${payee.slice(0, 10)}..., ${hre.ethers.formatEther(
-                amount
-              )} ETH`
-            );
-          }
-        } else if (topic0 === withdrawnSignature) {
-          if (showLogs) {
-            console.log(`\t${index + 1}. 💰 Withdrawn`);
-            console.log(`\t   Contract: BiddingEscrow`);
-          }
-          const payee = '0x' + log.topics[1].slice(26); // Remove padding
-          const amount = log.data;
-          events.push({
-            eventName: 'Withdrawn',
-            args: [payee, amount],
-          });
-          if (showLogs) {
-            console.log(
-              `\t   Args: ${payee.slice(0, 10)}..., ${hre.ethers.formatEther(
-                amount
-              )} ETH`
-            );
-          }
-        } else {
-          if (showLogs) {
-            console.log(`\t${index + 1}. ❓ Unknown Event`);
-            console.log(`\t   Topic0: ${topic0}`);
-            console.log(`\t   Contract Address: ${log.address}`);
-          }
-          events.push({
-            eventName: 'Unknown',
-            args: [topic0, log.address],
-          });
-        }
-      }
-    });
-
+  ): DecodedEvent[] {
+    const events = eventDecoder.decodeReceipt(receipt);
     if (showLogs) {
-      console.log('\t' + '='.repeat(50));
+      console.log(`\n\t📋 Transaction Events (${events.length} total):`);
+      console.log(
+        '\t' +
+          renderEvents(events, {
+            labels: { [user.address]: 'user', [owner.address]: 'owner' },
+          }).replace(/\n/g, '\n\t')
+      );
     }
-
     return events;
   }
 
@@ -863,7 +773,7 @@ describe('cacheManagerAutomation', async function () {
         const events = logTransactionEvents(receipt);
 
         // Validate that the expected events were emitted
-        const eventNames = events.map((event) => event.eventName);
+        const eventNames = events.map((event) => event.name);
         expect(eventNames).to.include('BidPlaced');
       });
 
@@ -908,11 +818,13 @@ describe('cacheManagerAutomation', async function () {
         const events = logTransactionEvents(receipt);
 
         // Validate that the expected events were emitted
-        const bidPlacedEvent = events.find(
-          (event) => event.eventName === 'BidPlaced'
+        const [bidPlacedEvent] = filterEvents(
+          events,
+          'CacheManagerAutomation',
+          'BidPlaced'
         );
         expect(bidPlacedEvent).to.not.be.undefined;
-        const bidAmount = bidPlacedEvent?.args[2];
+        const bidAmount = bidPlacedEvent.args.bidAmount;
 
         const userBalance = await cmaDeployment.cacheManagerAutomation
           .connect(user)
@@ -1024,13 +936,15 @@ describe('cacheManagerAutomation', async function () {
         const receipt = await tx.wait();
         const events = logTransactionEvents(receipt);
         // expect to have 5 BidPlaced events
-        const bidPlacedEvents = events.filter(
-          (event) => event.eventName === 'BidPlaced'
+        const bidPlacedEvents = filterEvents(
+          events,
+          'CacheManagerAutomation',
+          'BidPlaced'
         );
         expect(bidPlacedEvents.length).to.equal(bidRequests.length);
 
         const bidPlacedTotalAmount = bidPlacedEvents.reduce(
-          (acc, event) => acc + event.args[2],
+          (acc, event) => acc + event.args.bidAmount,
           0n
         );
         const userBalance = await cmaDeployment.cacheManagerAutomation
@@ -0,0 +1,193 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { CmaClient, CmaClientError, CmaErrorCode } from '../src/sdk/cma-client';
+
+describe('CmaClient', function () {
+  let deployment: MockedCMADeployment;
+  let user: HardhatEthersSigner;
+  let client: CmaClient;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000c001',
+    '0x000000000000000000000000000000000000c002',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    client = new CmaClient(deployment.cacheManagerAutomation.connect(user));
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+  });
+
+  /** Expects a preflight rejection that didn't send any transaction. */
+  async function expectPreflight(
+    call: () => Promise<unknown>,
+    code: CmaErrorCode
+  ) {
+    const nonce = await hre.ethers.provider.getTransactionCount(user.address);
+    const error = await call().then(
+      () => expect.fail('expected a CmaClientError'),
+      (error) => error
+    );
+    expect(error).to.be.instanceOf(CmaClientError);
+    expect(error).to.include({ code, source: 'preflight' });
+    expect(
+      await hre.ethers.provider.getTransactionCount(user.address)
+    ).to.equal(nonce);
+  }
+
+  it('inserts, updates and removes contracts and reads them back', async function () {
+    await client.insertContract(PROGRAMS[0], { maxBid: MAX_BID }, MAX_BID);
+    expect(await client.getContract(PROGRAMS[0])).to.deep.equal({
+      contractAddress: PROGRAMS[0],
+      maxBid: MAX_BID,
+      enabled: true,
+      autoActivate: false,
+      maxActivationCost: 0n,
+    });
+    expect(await client.getUserBalance()).to.equal(MAX_BID);
+
+    await client.updateContract(PROGRAMS[0], {
+      maxBid: MAX_BID * 2n,
+      autoActivate: true,
+      maxActivationCost: MAX_BID,
+    });
+    expect((await client.getContract(PROGRAMS[0]))?.autoActivate).to.equal(
+      true
+    );
+
+    await client.removeContract(PROGRAMS[0]);
+    expect(await client.getUserContracts()).to.deep.equal([]);
+  });
+
+  describe('insertContract preflight', function () {
+    it('rejects the zero address', async function () {
+      await expectPreflight(
+        () =>
+          client.insertContract(hre.ethers.ZeroAddress, { maxBid: MAX_BID }),
+        'InvalidAddress'
+      );
+    });
+
+    it('rejects EOAs and EVM contracts', async function () {
+      await expectPreflight(
+        () => client.insertContract(user.address, { maxBid: MAX_BID }),
+        'NotStylusProgram'
+      );
+      const evmContract = await deployment.cacheManagerAutomation.getAddress();
+      await expectPreflight(
+        () => client.insertContract(evmContract, { maxBid: MAX_BID }),
+        'NotStylusProgram'
+      );
+    });
+
+    it('rejects a maxBid below minMaxBidAmount', async function () {
+      await deployment.cacheManagerAutomation.setMinMaxBidAmount(MAX_BID);
+      await expectPreflight(
+        () => client.insertContract(PROGRAMS[0], { maxBid: MAX_BID - 1n }),
+        'InvalidBid'
+      );
+    });
+
+    it('rejects autoActivate without a cost and costs above maxUserFunds', async function () {
+      await expectPreflight(
+        () =>
+          client.insertContract(PROGRAMS[0], {
+            maxBid: MAX_BID,
+            autoActivate: true,
+          }),
+        'InvalidActivationCost'
+      );
+      await expectPreflight(
+        () =>
+          client.insertContract(PROGRAMS[0], {
+            maxBid: MAX_BID,
+            maxActivationCost: hre.ethers.parseEther('2'),
+          }),
+        'InvalidActivationCost'
+      );
+    });
+
+    it('rejects more than maxContractsPerUser contracts', async function () {
+      await deployment.cacheManagerAutomation.setMaxContractsPerUser(1);
+      await client.insertContract(PROGRAMS[0], { maxBid: MAX_BID });
+      await expectPreflight(
+        () => client.insertContract(PROGRAMS[1], { maxBid: MAX_BID }),
+        'TooManyContracts'
+      );
+    });
+
+    it('rejects a contract that is already registered', async function () {
+      await client.insertContract(PROGRAMS[0], { maxBid: MAX_BID });
+      await expectPreflight(
+        () =>
+          client.insertContract(PROGRAMS[0].toLowerCase(), { maxBid: MAX_BID }),
+        'ContractAlreadyExists'
+      );
+    });
+  });
+
+  it('rejects updating or removing unregistered contracts', async function () {
+    await expectPreflight(
+      () => client.updateContract(PROGRAMS[0], { maxBid: MAX_BID }),
+      'ContractNotFound'
+    );
+    await expectPreflight(
+      () => client.removeContract(PROGRAMS[0]),
+      'ContractNotFound'
+    );
+    await expectPreflight(
+      () => client.removeAllContracts(),
+      'ContractNotFound'
+    );
+  });
+
+  describe('balance', function () {
+    it('rejects deposits below minFundAmount or above maxUserFunds', async function () {
+      await deployment.cacheManagerAutomation.setMinFundAmount(100);
+      await expectPreflight(() => client.fundBalance(99n), 'InvalidFundAmount');
+
+      await client.fundBalance(hre.ethers.parseEther('0.5'));
+      await expectPreflight(
+        () => client.fundBalance(hre.ethers.parseEther('0.6')),
+        'ExceedsMaxUserFunds'
+      );
+    });
+
+    it('withdraws the balance and rejects withdrawing nothing', async function () {
+      await expectPreflight(
+        () => client.withdrawBalance(),
+        'InsufficientBalance'
+      );
+
+      await client.fundBalance(MAX_BID);
+      await client.withdrawBalance();
+      expect(await client.getUserBalance()).to.equal(0n);
+    });
+  });
+
+  it('decodes a revert when the state changed after the checks', async function () {
+    await client.insertContract(PROGRAMS[0], { maxBid: MAX_BID });
+    // Simulate another transaction landing between the checks and the send.
+    client.getUserContracts = async () => [];
+
+    const error = await client
+      .insertContract(PROGRAMS[0], { maxBid: MAX_BID })
+      .catch((error) => error);
+    expect(error).to.be.instanceOf(CmaClientError);
+    expect(error).to.include({
+      code: 'ContractAlreadyExists',
+      source: 'revert',
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import type { ContractTransactionReceipt } from 'ethers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import type { ContractConfig } from '../src/sdk/cma-client';
+import { eventDecoder, filterEvents } from '../src/sdk/event-decoder';
+
+describe('cma tasks', function () {
+  let deployment: MockedCMADeployment;
+  let cma: string;
+
+  const PROGRAM = hre.ethers.getAddress(
+    '0x000000000000000000000000000000000000ca01'
+  );
+
+  beforeEach(async function () {
+    deployment = await deployCMAWithMocks();
+    cma = await deployment.cacheManagerAutomation.getAddress();
+    await setProgramCode(PROGRAM);
+  });
+
+  it('registers, updates and removes a contract with ETH amounts', async function () {
+    const inserted: ContractTransactionReceipt = await hre.run('cma:insert', {
+      cma,
+      contract: PROGRAM,
+      maxBid: '0.001',
+      value: '0.01',
+    });
+    const [added] = filterEvents(
+      eventDecoder.decodeReceipt(inserted),
+      'CacheManagerAutomation',
+      'ContractAdded'
+    );
+    expect(added.args.maxBid).to.equal(hre.ethers.parseEther('0.001'));
+    expect(await hre.run('cma:balance', { cma })).to.equal(
+      hre.ethers.parseEther('0.01')
+    );
+
+    await hre.run('cma:update', {
+      cma,
+      contract: PROGRAM,
+      maxBid: '0.002',
+      enabled: false,
+      autoActivate: true,
+      maxActivationCost: '0.0005',
+    });
+    const [config]: ContractConfig[] = await hre.run('cma:list', { cma });
+    expect(config).to.include({
+      contractAddress: PROGRAM,
+      maxBid: hre.ethers.parseEther('0.002'),
+      enabled: false,
+      autoActivate: true,
+      maxActivationCost: hre.ethers.parseEther('0.0005'),
+    });
+
+    // Settings that aren't passed keep their current value.
+    await hre.run('cma:update', { cma, contract: PROGRAM, maxBid: '0.003' });
+    const [updated]: ContractConfig[] = await hre.run('cma:list', { cma });
+    expect(updated).to.include({
+      maxBid: hre.ethers.parseEther('0.003'),
+      enabled: false,
+      autoActivate: true,
+      maxActivationCost: hre.ethers.parseEther('0.0005'),
+    });
+
+    await hre.run('cma:remove', { cma, all: true });
+    expect(await hre.run('cma:list', { cma })).to.deep.equal([]);
+    await expect(hre.run('cma:remove', { cma, all: false })).to.be.rejectedWith(
+      'Pass either --contract or --all'
+    );
+  });
+
+  it('funds and withdraws the escrow balance', async function () {
+    await hre.run('cma:fund', { cma, amount: '0.02' });
+    expect(await hre.run('cma:balance', { cma })).to.equal(
+      hre.ethers.parseEther('0.02')
+    );
+
+    await hre.run('cma:withdraw', { cma });
+    expect(await hre.run('cma:balance', { cma })).to.equal(0n);
+    await expect(hre.run('cma:withdraw', { cma })).to.be.rejectedWith(
+      'InsufficientBalance'
+    );
+  });
+
+  it('checks the cache through the ArbWasmCache the CMA uses', async function () {
+    expect(await hre.run('cma:is-cached', { cma, contract: PROGRAM })).to.equal(
+      false
+    );
+
+    const codehash = hre.ethers.keccak256(
+      await hre.ethers.provider.getCode(PROGRAM)
+    );
+    await deployment.arbWasmCache.setCached(codehash, true);
+    expect(await hre.run('cma:is-cached', { cma, contract: PROGRAM })).to.equal(
+      true
+    );
+  });
+});
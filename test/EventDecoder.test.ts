@@ -0,0 +1,138 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { Log } from 'ethers';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { ExternalInterfaces } from '../config/abis';
+import {
+  EventDecoder,
+  eventDecoder,
+  filterEvents,
+  renderEvent,
+  renderEvents,
+} from '../src/sdk/event-decoder';
+
+describe('EventDecoder', function () {
+  let deployment: MockedCMADeployment;
+  let user: HardhatEthersSigner;
+
+  const PROGRAM = hre.ethers.getAddress(
+    '0x000000000000000000000000000000000000e7e7'
+  );
+  const MAX_BID = hre.ethers.parseEther('0.001');
+
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    await setProgramCode(PROGRAM);
+  });
+
+  async function insertWithDeposit() {
+    const tx = await deployment.cacheManagerAutomation
+      .connect(user)
+      .insertContract(PROGRAM, MAX_BID, true, false, 0, { value: MAX_BID });
+    return (await tx.wait())!;
+  }
+
+  it('decodes CMA and BiddingEscrow logs of one receipt with typed args', async function () {
+    const events = eventDecoder.decodeReceipt(await insertWithDeposit());
+    const escrow = await deployment.cacheManagerAutomation.escrow();
+
+    const [deposited] = filterEvents(events, 'BiddingEscrow', 'Deposited');
+    expect(deposited).to.include({ address: escrow });
+    expect(deposited.args).to.deep.equal({
+      payee: user.address,
+      weiAmount: MAX_BID,
+    });
+
+    const [added] = filterEvents(
+      events,
+      'CacheManagerAutomation',
+      'ContractAdded'
+    );
+    expect(added.args).to.deep.equal({
+      user: user.address,
+      contractAddress: PROGRAM,
+      maxBid: MAX_BID,
+    });
+    expect(events.map((event) => event.contract)).to.not.include('Unknown');
+  });
+
+  it('decodes CacheManager InsertBid and DeleteBid logs', function () {
+    const cacheManager = ExternalInterfaces.CacheManager();
+    const codehash = hre.ethers.id('program');
+    const logs = [
+      cacheManager.encodeEventLog('InsertBid', [codehash, PROGRAM, 5n, 1024n]),
+      cacheManager.encodeEventLog('DeleteBid', [codehash, 5n, 1024n]),
+    ].map(
+      ({ topics, data }, index) =>
+        ({
+          address: PROGRAM,
+          topics,
+          data,
+          index,
+          transactionHash: hre.ethers.ZeroHash,
+          blockNumber: 1,
+        } as unknown as Log)
+    );
+
+    const [insert, remove] = eventDecoder.decodeReceipt({ logs });
+    expect(insert).to.include({ contract: 'CacheManager', name: 'InsertBid' });
+    expect(insert.args).to.deep.equal({
+      codehash,
+      program: PROGRAM,
+      bid: 5n,
+      size: 1024n,
+    });
+    expect(remove).to.include({ contract: 'CacheManager', name: 'DeleteBid' });
+  });
+
+  it('only decodes logs from a known address with that contract ABI', async function () {
+    const receipt = await insertWithDeposit();
+    const decoder = new EventDecoder({
+      BiddingEscrow: hre.ethers.ZeroAddress,
+    });
+    const names = decoder
+      .decodeReceipt(receipt)
+      .map((event) => `${event.contract}.${event.name}`);
+    // The real escrow isn't the configured one, and no other ABI declares
+    // Deposited.
+    expect(names).to.include('Unknown.Unknown');
+    expect(names).to.include('CacheManagerAutomation.ContractAdded');
+  });
+
+  it('renders ETH amounts, address labels and revert payloads', async function () {
+    const events = eventDecoder.decodeReceipt(await insertWithDeposit());
+    const labels = { [user.address.toLowerCase()]: 'alice' };
+    const [added] = filterEvents(
+      events,
+      'CacheManagerAutomation',
+      'ContractAdded'
+    );
+    expect(renderEvent(added, { labels })).to.equal(
+      `CacheManagerAutomation.ContractAdded user=alice contractAddress=${PROGRAM} maxBid=0.001 ETH`
+    );
+
+    const revert = {
+      ...added,
+      name: 'ActivationRevertData' as const,
+      args: {
+        user: user.address,
+        contractAddress: PROGRAM,
+        data: ExternalInterfaces.ArbWasm().encodeErrorResult('ProgramExpired', [
+          60,
+        ]),
+      },
+    };
+    expect(renderEvent(revert, { labels })).to.equal(
+      `CacheManagerAutomation.ActivationRevertData user=alice contractAddress=${PROGRAM} data=ProgramExpired(ageInSeconds=60)`
+    );
+    expect(renderEvents([])).to.equal('No events emitted');
+    expect(renderEvents(events).split('\n')).to.have.length(events.length);
+  });
+});
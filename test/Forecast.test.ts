@@ -0,0 +1,180 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+
+import { deployCMAWithMocks, setProgramCode } from './helpers';
+import {
+  ForecastContract,
+  FundingForecastInput,
+  forecastFunding,
+  loadForecastInput,
+  parseActivationCosts,
+} from '../src/sdk/forecast';
+
+describe('Funding forecast', function () {
+  const DAY = 24n * 3600n;
+  const ETH = hre.ethers.parseEther('1');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000fc01',
+    '0x000000000000000000000000000000000000fc02',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  function contract(overrides: Partial<ForecastContract> = {}) {
+    return {
+      contractAddress: PROGRAMS[0],
+      maxBid: ETH,
+      enabled: true,
+      autoActivate: false,
+      maxActivationCost: 0n,
+      minBid: 5_000n,
+      ...overrides,
+    };
+  }
+
+  function input(
+    overrides: Partial<FundingForecastInput> = {}
+  ): FundingForecastInput {
+    return {
+      contracts: [contract()],
+      // 50% utilization, below the 98% threshold.
+      market: {
+        cacheSize: 100n,
+        queueSize: 50n,
+        decay: 1_000n,
+        cacheThreshold: 98n,
+        horizonSeconds: 30n * DAY,
+      },
+      days: 60,
+      balance: 0n,
+      maxUserFunds: 10n * ETH,
+      minFundAmount: 0n,
+      ...overrides,
+    };
+  }
+
+  it('prices one bid per horizon in each scenario', function () {
+    const { scenarios } = forecastFunding(input());
+    const fullBid = 5_000n + 1_000n * 30n * DAY;
+
+    expect(scenarios.low).to.include({ bidCount: 2n, bids: 0n });
+    expect(scenarios.expected).to.include({
+      bidCount: 2n,
+      bids: 2n * fullBid,
+      total: 2n * fullBid,
+    });
+    expect(scenarios.high).to.include({ bids: 2n * ETH });
+
+    // maxBid below minBid: placeBids skips the contract in every scenario.
+    const skipped = forecastFunding(
+      input({ contracts: [contract({ maxBid: 4_000n })] })
+    );
+    expect(skipped.scenarios.high.total).to.equal(0n);
+  });
+
+  it('counts activations from the known expiry or one per expiry period', function () {
+    const forecast = forecastFunding(
+      input({
+        contracts: [
+          contract({
+            enabled: false,
+            autoActivate: true,
+            maxActivationCost: 5_000n,
+            activationCost: 1_000n,
+            timeLeft: 10n * DAY,
+          }),
+          contract({
+            contractAddress: PROGRAMS[1],
+            enabled: false,
+            autoActivate: true,
+            maxActivationCost: 5_000n,
+          }),
+        ],
+      })
+    );
+
+    const [known, unknown] = forecast.contracts;
+    expect(known.scenarios.low).to.include({
+      activationCount: 1n,
+      activations: 1_000n,
+    });
+    expect(known.scenarios.high.activations).to.equal(5_000n);
+    expect(unknown.scenarios.low.activationCount).to.equal(0n);
+    expect(unknown.scenarios.expected).to.include({
+      activationCount: 1n,
+      activations: 5_000n,
+    });
+    expect(forecast.scenarios.expected.total).to.equal(6_000n);
+  });
+
+  it('recommends a top-up within maxUserFunds and minFundAmount', function () {
+    const expected = forecastFunding(input()).scenarios.expected.total;
+
+    expect(
+      forecastFunding(input({ balance: expected / 2n })).recommendedTopUp
+    ).to.equal(expected - expected / 2n);
+    expect(
+      forecastFunding(input({ balance: expected })).recommendedTopUp
+    ).to.equal(0n);
+    expect(
+      forecastFunding(input({ balance: expected - 1n, minFundAmount: 100n }))
+        .recommendedTopUp
+    ).to.equal(100n);
+
+    const capped = forecastFunding(input({ maxUserFunds: expected / 4n }));
+    expect(capped).to.include({
+      recommendedTopUp: expected / 4n,
+      shortfall: expected - expected / 4n,
+      cappedByMaxUserFunds: true,
+    });
+  });
+
+  it('parses expected activation costs', function () {
+    expect(
+      parseActivationCosts(
+        ` ${PROGRAMS[0].toLowerCase()}=0.002, ${PROGRAMS[1]}=1 ,`
+      )
+    ).to.deep.equal({
+      [PROGRAMS[0]]: ETH / 500n,
+      [PROGRAMS[1]]: ETH,
+    });
+    expect(parseActivationCosts(undefined)).to.deep.equal({});
+    expect(parseActivationCosts('')).to.deep.equal({});
+    expect(() => parseActivationCosts(PROGRAMS[0])).to.throw(/address=eth/);
+    expect(() => parseActivationCosts('0x12=1')).to.throw(/address=eth/);
+  });
+
+  it('loads registrations, market and expiry from the chain', async function () {
+    const [, user] = await hre.ethers.getSigners();
+    const { cacheManagerAutomation, cacheManager, arbWasm } =
+      await deployCMAWithMocks();
+    for (const program of PROGRAMS) await setProgramCode(program);
+    await cacheManager.setCache(100, 99, 7);
+    await cacheManager.setMinBid(42);
+    await arbWasm.setTimeLeftFor(PROGRAMS[1], 3600);
+    await cacheManagerAutomation
+      .connect(user)
+      .insertContract(PROGRAMS[0], ETH / 1000n, true, false, 0, {
+        value: ETH / 100n,
+      });
+    await cacheManagerAutomation
+      .connect(user)
+      .insertContract(PROGRAMS[1], ETH / 1000n, true, true, ETH / 1000n);
+
+    const loaded = await loadForecastInput(
+      cacheManagerAutomation,
+      user.address,
+      { days: 7, activationCosts: { [PROGRAMS[1].toLowerCase()]: 123n } }
+    );
+    expect(loaded).to.include({ days: 7, balance: ETH / 100n });
+    expect(loaded.market).to.include({
+      cacheSize: 100n,
+      queueSize: 99n,
+      decay: 7n,
+    });
+    expect(loaded.contracts.map((c) => c.minBid)).to.deep.equal([42n, 42n]);
+    expect(loaded.contracts[0].timeLeft).to.equal(undefined);
+    expect(loaded.contracts[1]).to.include({
+      timeLeft: 3600n,
+      activationCost: 123n,
+    });
+  });
+});
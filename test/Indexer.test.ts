@@ -0,0 +1,221 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import path from 'path';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { INDEXER_MIGRATIONS } from '../src/db/migrations';
+import { openDatabase } from '../src/db/sqlite';
+import { CmaIndexer } from '../src/indexer/indexer';
+import { IndexerStore } from '../src/indexer/store';
+import { Logger } from '../src/keeper/types';
+
+describe('Event indexer', function () {
+  let deployment: MockedCMADeployment;
+  let user: HardhatEthersSigner;
+  let store: IndexerStore;
+  let indexer: CmaIndexer;
+  let logs: string[];
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const FUNDING = hre.ethers.parseEther('0.01');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000e101',
+    '0x000000000000000000000000000000000000e102',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  const logger: Logger = {
+    log: (...args: unknown[]) => logs.push(args.join(' ')),
+    warn: (...args: unknown[]) => logs.push(args.join(' ')),
+    error: (...args: unknown[]) => logs.push(args.join(' ')),
+  };
+
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+    logs = [];
+    store = await IndexerStore.open(':memory:');
+    indexer = new CmaIndexer({
+      cma: deployment.cacheManagerAutomation,
+      store,
+      fromBlock: await hre.ethers.provider.getBlockNumber(),
+      maxBlockRange: 2,
+      logger,
+    });
+  });
+
+  afterEach(async function () {
+    await store.close();
+  });
+
+  it('indexes registrations, bids, activations, parameters and escrow transfers', async function () {
+    const cma = deployment.cacheManagerAutomation;
+    await cma
+      .connect(user)
+      .insertContract(PROGRAMS[0], MAX_BID, true, true, MAX_BID, {
+        value: FUNDING,
+      });
+    await cma
+      .connect(user)
+      .updateContract(PROGRAMS[0], 2n * MAX_BID, true, true, MAX_BID);
+    await cma.placeBids([{ user: user.address, contractAddress: PROGRAMS[0] }]);
+    await deployment.arbWasm.setDataFee(1_000);
+    await deployment.arbWasm.setTimeLeftFor(PROGRAMS[0], 0);
+    await cma.placeActivations([
+      { user: user.address, contractAddress: PROGRAMS[0] },
+    ]);
+    await cma.setCacheThreshold(90);
+
+    const round = await indexer.runOnce();
+    expect(round.toBlock).to.equal(await hre.ethers.provider.getBlockNumber());
+    expect(await store.getLastIndexedBlock()).to.equal(round.toBlock);
+
+    expect(
+      (await store.getContractEvents({ user: user.address })).map(
+        ({ event }) => event
+      )
+    ).to.deep.equal([
+      'ContractAdded',
+      'ContractAutoActivateUpdated',
+      'ContractMaxActivationCostUpdated',
+      'ContractUpdated',
+      'ContractAutoActivateUpdated',
+      'ContractMaxActivationCostUpdated',
+    ]);
+    const [bid] = await store.getBids({ contractAddress: PROGRAMS[0] });
+    expect(bid).to.include({
+      user: user.address,
+      outcome: 'placed',
+      bidAmount: 0n,
+      maxBid: 2n * MAX_BID,
+    });
+    const [activation] = await store.getActivations();
+    expect(activation).to.include({
+      outcome: 'performed',
+      dataFee: 1_000n,
+      spent: MAX_BID,
+    });
+    expect(activation.timestamp).to.be.greaterThan(0);
+    expect(await store.getParameterUpdates()).to.have.length(1);
+    expect((await store.getParameterUpdates())[0]).to.include({
+      parameter: 'cacheThreshold',
+      oldValue: 98n,
+      newValue: 90n,
+    });
+    // The funding deposit, then the activation's pull from the escrow.
+    expect(
+      (await store.getEscrowTransfers({ user: user.address })).map(
+        ({ kind, amount }) => [kind, amount]
+      )
+    ).to.deep.equal([
+      ['deposit', FUNDING],
+      ['withdrawal', MAX_BID],
+    ]);
+    expect(
+      await store.getBalanceUpdates({ user: user.address })
+    ).to.have.length(1);
+  });
+
+  it('resumes after the checkpoint', async function () {
+    const cma = deployment.cacheManagerAutomation.connect(user);
+    await cma.insertContract(PROGRAMS[0], MAX_BID, true, false, 0);
+    const first = await indexer.runOnce();
+
+    await cma.insertContract(PROGRAMS[1], MAX_BID, true, false, 0);
+    const second = await indexer.runOnce();
+    expect(second.fromBlock).to.equal(first.toBlock + 1);
+    // ContractAdded, the two settings events, Deposited and BalanceUpdated.
+    expect(second.events).to.equal(5);
+
+    const idle = await indexer.runOnce();
+    expect(idle.fromBlock).to.be.greaterThan(idle.toBlock);
+    expect(
+      (await store.getContractEvents({ fromBlock: second.fromBlock })).map(
+        ({ contractAddress }) => contractAddress
+      )
+    ).to.deep.equal([PROGRAMS[1], PROGRAMS[1], PROGRAMS[1]]);
+  });
+
+  it('rolls back blocks replaced by a reorg', async function () {
+    const cma = deployment.cacheManagerAutomation.connect(user);
+    await indexer.runOnce();
+    const forkPoint = await hre.ethers.provider.getBlockNumber();
+    const snapshot = await hre.network.provider.send('evm_snapshot');
+    await cma.insertContract(PROGRAMS[0], MAX_BID, true, false, 0);
+    await indexer.runOnce();
+    expect(await store.getContractEvents()).to.have.length(3);
+
+    await hre.network.provider.send('evm_revert', [snapshot]);
+    await cma.insertContract(PROGRAMS[1], MAX_BID, true, false, 0);
+    await hre.network.provider.send('hardhat_mine', ['0x2']);
+
+    const round = await indexer.runOnce();
+    expect(round.rolledBackTo).to.equal(forkPoint);
+    expect(logs.some((line) => line.includes('Reorg'))).to.equal(true);
+    expect(
+      (await store.getContractEvents()).map(
+        ({ contractAddress }) => contractAddress
+      )
+    ).to.deep.equal([PROGRAMS[1], PROGRAMS[1], PROGRAMS[1]]);
+  });
+
+  it('refuses a database indexing another CMA', async function () {
+    await indexer.runOnce();
+    const other = await deployCMAWithMocks();
+    const otherIndexer = new CmaIndexer({
+      cma: other.cacheManagerAutomation,
+      store,
+      logger,
+    });
+    await expect(otherIndexer.runOnce()).to.be.rejectedWith(/database indexes/);
+  });
+
+  it('migrates snapshots that have no indexed block', async function () {
+    const file = path.join(__dirname, 'db', 'indexer-migration.test.db');
+    const remove = () => {
+      for (const suffix of ['', '-wal', '-shm']) {
+        fs.rmSync(file + suffix, { force: true });
+      }
+    };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    remove();
+    try {
+      // A v2 database, from before snapshots kept their own timestamp.
+      const db = await openDatabase(file, INDEXER_MIGRATIONS.slice(0, 2));
+      await db.run(
+        `INSERT INTO indexed_blocks (block_number, block_hash, timestamp)
+         VALUES (1, ?, 1000)`,
+        hre.ethers.ZeroHash
+      );
+      await db.run(
+        `INSERT INTO market_snapshots (block_number, cache_size, queue_size, decay)
+         VALUES (1, '100', '99', '7'), (2, '100', '98', '7')`
+      );
+      await db.close();
+
+      const migrated = await IndexerStore.open(file);
+      try {
+        expect(
+          (await migrated.getMarketSnapshots()).map(
+            ({ blockNumber, timestamp }) => [blockNumber, timestamp]
+          )
+        ).to.deep.equal([
+          [1, 1000],
+          [2, 0],
+        ]);
+      } finally {
+        await migrated.close();
+      }
+    } finally {
+      remove();
+    }
+  });
+});
@@ -0,0 +1,167 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { IndexerApiServer } from '../src/indexer/api';
+import { CmaIndexer } from '../src/indexer/indexer';
+import { IndexerStore } from '../src/indexer/store';
+
+describe('Indexer API', function () {
+  let deployment: MockedCMADeployment;
+  let user: HardhatEthersSigner;
+  let store: IndexerStore;
+  let server: IndexerApiServer;
+  let baseUrl: string;
+  let startBlock: number;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const FUNDING = hre.ethers.parseEther('0.01');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000e301',
+    '0x000000000000000000000000000000000000e302',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  const silent = { log: () => {}, warn: () => {}, error: () => {} };
+
+  async function get(path: string) {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: await response.json() };
+  }
+
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+    startBlock = await hre.ethers.provider.getBlockNumber();
+
+    const cma = deployment.cacheManagerAutomation;
+    await cma
+      .connect(user)
+      .insertContract(PROGRAMS[0], MAX_BID, true, false, 0, {
+        value: FUNDING,
+      });
+    await cma.connect(user).insertContract(PROGRAMS[1], MAX_BID, true, false, 0);
+    await cma
+      .connect(user)
+      .updateContract(PROGRAMS[0], 2n * MAX_BID, true, true, MAX_BID);
+    await cma.connect(user).removeContract(PROGRAMS[1]);
+    await deployment.cacheManager.setCache(100, 99, 7);
+    await deployment.cacheManager.setMinBid(1_000);
+    const requests = [{ user: user.address, contractAddress: PROGRAMS[0] }];
+    await cma.placeBids(requests);
+    await cma.placeBids(requests);
+    await cma.setCacheThreshold(90);
+
+    store = await IndexerStore.open(':memory:');
+    await new CmaIndexer({
+      cma,
+      store,
+      fromBlock: startBlock,
+      logger: silent,
+    }).runOnce();
+    server = new IndexerApiServer({ store, port: 0, logger: silent });
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+  });
+
+  afterEach(async function () {
+    await server.stop();
+    await store.close();
+  });
+
+  it('serves registrations rebuilt from their events', async function () {
+    const { status, body } = await get(
+      `/users/${user.address.toLowerCase()}/contracts`
+    );
+    expect(status).to.equal(200);
+    expect(body.items).to.have.length(1);
+    expect(body.items[0]).to.include({
+      contractAddress: PROGRAMS[0],
+      maxBid: (2n * MAX_BID).toString(),
+      autoActivate: true,
+      maxActivationCost: MAX_BID.toString(),
+    });
+    expect(body.lastIndexedBlock).to.equal(
+      await hre.ethers.provider.getBlockNumber()
+    );
+
+    // Before the update and the removal.
+    const earlier = await get(
+      `/users/${user.address}/contracts?toBlock=${startBlock + 2}`
+    );
+    expect(
+      earlier.body.items.map(({ maxBid }: { maxBid: string }) => maxBid)
+    ).to.deep.equal([MAX_BID.toString(), MAX_BID.toString()]);
+  });
+
+  it('pages bids and filters them by block', async function () {
+    const first = await get(`/contracts/${PROGRAMS[0]}/bids?limit=1`);
+    expect(first.body.items).to.have.length(1);
+    expect(first.body.items[0]).to.include({
+      user: user.address,
+      outcome: 'placed',
+    });
+    expect(first.body.nextOffset).to.equal(1);
+
+    const second = await get(`/contracts/${PROGRAMS[0]}/bids?limit=1&offset=1`);
+    expect(second.body.items).to.have.length(1);
+    expect(second.body.nextOffset).to.equal(null);
+    expect(second.body.items[0].blockNumber).to.be.greaterThan(
+      first.body.items[0].blockNumber
+    );
+
+    const ranged = await get(
+      `/contracts/${PROGRAMS[0]}/bids?fromBlock=${second.body.items[0].blockNumber}`
+    );
+    expect(ranged.body.items).to.deep.equal(second.body.items);
+  });
+
+  it('serves balance history, parameters and market snapshots', async function () {
+    const history = await get(`/users/${user.address}/balance-history`);
+    expect(history.body.items[0]).to.include({
+      kind: 'deposit',
+      amount: FUNDING.toString(),
+      balance: FUNDING.toString(),
+    });
+    expect(
+      history.body.items.map(({ kind }: { kind: string }) => kind)
+    ).to.deep.equal(['deposit', 'bid', 'bid']);
+
+    const params = await get('/params/history');
+    expect(params.body.items).to.have.length(1);
+    expect(params.body.items[0]).to.include({
+      parameter: 'cacheThreshold',
+      oldValue: '98',
+      newValue: '90',
+    });
+
+    const snapshots = await get('/market/snapshots');
+    const head = await hre.ethers.provider.getBlock(
+      snapshots.body.lastIndexedBlock
+    );
+    expect(snapshots.body.items).to.have.length(1);
+    expect(snapshots.body.items[0]).to.include({
+      blockNumber: head!.number,
+      timestamp: head!.timestamp,
+      cacheSize: '100',
+      queueSize: '99',
+      decay: '7',
+    });
+    expect((await get('/activations')).body.items).to.deep.equal([]);
+  });
+
+  it('rejects bad parameters and unknown routes', async function () {
+    expect((await get('/users/0x1234/contracts')).status).to.equal(400);
+    expect((await get('/activations?user=nope')).status).to.equal(400);
+    const badLimit = await get('/market/snapshots?limit=5000');
+    expect(badLimit.status).to.equal(400);
+    expect(badLimit.body.error).to.match(/limit/);
+    expect((await get('/unknown')).status).to.equal(404);
+  });
+});
@@ -0,0 +1,240 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import path from 'path';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { KEEPER_MIGRATIONS } from '../src/db/migrations';
+import { openDatabase } from '../src/db/sqlite';
+import { BiddingKeeper } from '../src/keeper/bidding-keeper';
+import { RegistrationSync } from '../src/keeper/registration-sync';
+import { KeeperStateStore, pairKey } from '../src/keeper/state-store';
+import { Logger } from '../src/keeper/types';
+import { fetchRegistrations } from '../src/sdk/registrations';
+
+describe('Keeper state', function () {
+  const DB_DIR = path.join(__dirname, 'db');
+  const DB_PATH = path.join(DB_DIR, 'keeper-state.test.db');
+
+  let deployment: MockedCMADeployment;
+  let user: HardhatEthersSigner;
+  let otherUser: HardhatEthersSigner;
+  let store: KeeperStateStore;
+  let logs: string[];
+  let logger: Logger;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000f001',
+    '0x000000000000000000000000000000000000f002',
+    '0x000000000000000000000000000000000000f003',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  function removeDatabase() {
+    for (const suffix of ['', '-wal', '-shm']) {
+      fs.rmSync(DB_PATH + suffix, { force: true });
+    }
+  }
+
+  async function register(
+    signer: HardhatEthersSigner,
+    program: string,
+    enabled = true
+  ) {
+    await deployment.cacheManagerAutomation
+      .connect(signer)
+      .insertContract(program, MAX_BID, enabled, false, 0, {
+        value: MAX_BID,
+      });
+  }
+
+  beforeEach(async function () {
+    [, user, otherUser] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+
+    fs.mkdirSync(DB_DIR, { recursive: true });
+    removeDatabase();
+    store = await KeeperStateStore.open(DB_PATH);
+    logs = [];
+    const record = (...args: unknown[]) => {
+      logs.push(args.join(' '));
+    };
+    logger = { log: record, warn: record, error: record };
+  });
+
+  afterEach(async function () {
+    await store.close();
+    removeDatabase();
+  });
+
+  describe('KeeperStateStore', function () {
+    it('persists registrations, the processed block and attempts', async function () {
+      const cmaAddress = await deployment.cacheManagerAutomation.getAddress();
+      const registration = {
+        user: user.address,
+        contractAddress: PROGRAMS[0],
+        maxBid: 2n ** 200n,
+        enabled: true,
+        autoActivate: false,
+        maxActivationCost: 0n,
+      };
+      await store.replaceRegistrations(cmaAddress, [registration], 42);
+      await store.recordBidAttempts([
+        {
+          user: user.address,
+          contractAddress: PROGRAMS[0],
+          attemptedAt: 1000,
+          blockNumber: 41,
+          txHash: hre.ethers.ZeroHash,
+          outcome: 'BidPlaced',
+          bidAmount: 5n,
+          nextCheckAt: 1600,
+        },
+      ]);
+      await store.close();
+
+      store = await KeeperStateStore.open(DB_PATH);
+      expect(await store.getLastProcessedBlock()).to.equal(42);
+      expect(await store.getCmaAddress()).to.equal(cmaAddress);
+      expect(await store.loadRegistrations()).to.deep.equal([registration]);
+      const attempt = (await store.loadBidAttempts()).get(
+        pairKey({ user: user.address, contractAddress: PROGRAMS[0] })
+      );
+      expect(attempt?.outcome).to.equal('BidPlaced');
+      expect(attempt?.bidAmount).to.equal(5n);
+      expect(attempt?.nextCheckAt).to.equal(1600);
+    });
+
+    it('drops attempts when the snapshot switches to another CMA', async function () {
+      await store.replaceRegistrations(PROGRAMS[1], [], 1);
+      await store.recordBidAttempts([
+        {
+          user: user.address,
+          contractAddress: PROGRAMS[0],
+          attemptedAt: 1,
+          blockNumber: 1,
+          txHash: hre.ethers.ZeroHash,
+          outcome: 'Skipped',
+          nextCheckAt: 2,
+        },
+      ]);
+
+      await store.replaceRegistrations(PROGRAMS[2], [], 2);
+      expect((await store.loadBidAttempts()).size).to.equal(0);
+    });
+
+    it('only creates the keeper tables', async function () {
+      await store.close();
+      const db = await openDatabase(DB_PATH, KEEPER_MIGRATIONS);
+      try {
+        const tables = await db.all<{ name: string }[]>(
+          "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name"
+        );
+        expect(tables.map(({ name }) => name)).to.deep.equal([
+          'bid_attempts',
+          'keeper_meta',
+          'registrations',
+        ]);
+        expect(await db.get('PRAGMA user_version')).to.deep.equal({
+          user_version: KEEPER_MIGRATIONS.length,
+        });
+      } finally {
+        await db.close();
+      }
+      store = await KeeperStateStore.open(DB_PATH);
+    });
+  });
+
+  describe('RegistrationSync', function () {
+    it('scans once, then only re-reads users with registration events', async function () {
+      const cma = deployment.cacheManagerAutomation;
+      await register(user, PROGRAMS[0]);
+      await register(otherUser, PROGRAMS[1]);
+
+      const sync = new RegistrationSync({ cma, store, logger });
+      expect(await sync.sync()).to.deep.equal(await fetchRegistrations(cma));
+      expect(logs.filter((line) => line.includes('Full'))).to.have.length(1);
+
+      await register(user, PROGRAMS[2], false);
+      await cma.connect(otherUser).removeContract(PROGRAMS[1]);
+
+      // A restarted keeper picks up from the stored block.
+      const restarted = new RegistrationSync({
+        cma,
+        store,
+        maxBlockRange: 1,
+        logger,
+      });
+      const registrations = await restarted.sync();
+      expect(logs.filter((line) => line.includes('Full'))).to.have.length(1);
+      expect(logs).to.include(
+        `🔄 Synced registrations of 2 users up to block ${await hre.ethers.provider.getBlockNumber()}`
+      );
+      expect(
+        registrations.map((r) => [r.contractAddress, r.enabled])
+      ).to.deep.equal([
+        [PROGRAMS[0], true],
+        [PROGRAMS[2], false],
+      ]);
+    });
+  });
+
+  describe('BiddingKeeper with state', function () {
+    function createKeeper() {
+      const cma = deployment.cacheManagerAutomation;
+      return new BiddingKeeper({
+        cma,
+        arbWasmCache: deployment.arbWasmCache,
+        intervalSeconds: 1,
+        registrations: new RegistrationSync({ cma, store, logger }),
+        state: store,
+        bidCooldownSeconds: 3600,
+        logger,
+      });
+    }
+
+    it('records outcomes and does not resubmit them after a restart', async function () {
+      await register(user, PROGRAMS[0]);
+      await register(user, PROGRAMS[1]);
+
+      const first = await createKeeper().runOnce();
+      expect(first.requested).to.equal(2);
+
+      const attempts = await store.loadBidAttempts();
+      const attempt = attempts.get(
+        pairKey({ user: user.address, contractAddress: PROGRAMS[0] })
+      );
+      expect(attempt?.outcome).to.equal('BidPlaced');
+      expect(attempt?.bidAmount).to.equal(0n);
+      expect(attempt!.nextCheckAt - attempt!.attemptedAt).to.equal(3600);
+
+      const { requests, excluded } = await createKeeper().collectBidRequests();
+      expect(requests).to.deep.equal([]);
+      expect(excluded.map((e) => e.reason)).to.deep.equal([
+        'recently attempted',
+        'recently attempted',
+      ]);
+    });
+
+    it('records requests the contract skipped without an event', async function () {
+      await register(user, PROGRAMS[0]);
+      // Free bids are below any non-zero minBid, so _shouldBid rejects them.
+      await deployment.cacheManager.setMinBid(1);
+
+      const result = await createKeeper().runOnce();
+      expect(result.bidsPlaced + result.bidErrors).to.equal(0);
+
+      const [attempt] = (await store.loadBidAttempts()).values();
+      expect(attempt.outcome).to.equal('Skipped');
+      expect(attempt.bidAmount).to.equal(undefined);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre from 'hardhat';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { CmaClient } from '../src/sdk/cma-client';
+import {
+  executeImport,
+  ManifestRow,
+  parseManifest,
+  planImport,
+} from '../src/sdk/manifest';
+
+describe('Registration manifest', function () {
+  let deployment: MockedCMADeployment;
+  let client: CmaClient;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000d001',
+    '0x000000000000000000000000000000000000d002',
+    '0x000000000000000000000000000000000000d003',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  function row(overrides: Partial<ManifestRow> = {}): ManifestRow {
+    return {
+      line: 1,
+      contractAddress: PROGRAMS[0],
+      maxBid: MAX_BID,
+      enabled: true,
+      autoActivate: false,
+      maxActivationCost: 0n,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async function () {
+    const [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    client = new CmaClient(deployment.cacheManagerAutomation.connect(user));
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+  });
+
+  it('parses CSV and JSON manifests with ETH amounts and defaults', function () {
+    const csv = parseManifest(
+      [
+        '# team programs',
+        'address,maxBid,enabled,autoActivate,maxActivationCost',
+        `${PROGRAMS[0]},0.001,,,`,
+        '',
+        `${PROGRAMS[1]},0.002,false,yes,0.0005`,
+      ].join('\n')
+    );
+    expect(csv).to.deep.equal([
+      row({ line: 3 }),
+      row({
+        line: 5,
+        contractAddress: PROGRAMS[1],
+        maxBid: 2n * MAX_BID,
+        enabled: false,
+        autoActivate: true,
+        maxActivationCost: hre.ethers.parseEther('0.0005'),
+      }),
+    ]);
+
+    expect(
+      parseManifest(
+        JSON.stringify([{ address: PROGRAMS[0], maxBid: '0.001' }]),
+        'manifest.json'
+      )
+    ).to.deep.equal([row()]);
+
+    expect(() => parseManifest('address,bid\n')).to.throw(
+      'manifest.csv:1: unknown column(s) bid'
+    );
+    expect(() =>
+      parseManifest(`address,maxBid,enabled\n${PROGRAMS[0]},0.001,maybe`)
+    ).to.throw('manifest.csv:2: enabled must be true or false');
+    expect(() => parseManifest(`address,maxBid\n${PROGRAMS[0]},lots`)).to.throw(
+      'maxBid must be an ETH amount'
+    );
+  });
+
+  it('plans inserts, updates and removals and refuses invalid rows', async function () {
+    await client.insertContract(PROGRAMS[0], { maxBid: MAX_BID });
+    await client.insertContract(PROGRAMS[1], { maxBid: MAX_BID });
+    const { minMaxBidAmount } = await client.getLimits();
+    const [owner] = await hre.ethers.getSigners();
+
+    const plan = await planImport(
+      client,
+      [
+        row({ line: 1 }),
+        row({ line: 2, contractAddress: PROGRAMS[2], maxBid: 2n * MAX_BID }),
+        row({ line: 3, contractAddress: owner.address }),
+        row({ line: 4, contractAddress: PROGRAMS[2] }),
+        row({ line: 5, maxBid: minMaxBidAmount - 1n }),
+        row({ line: 6, autoActivate: true }),
+      ],
+      { removeMissing: true }
+    );
+
+    expect(
+      plan.map(({ action, row, errors }) => [
+        row?.line,
+        action,
+        errors.map((error) => error.split(':')[0]),
+      ])
+    ).to.deep.equal([
+      [undefined, 'remove', []],
+      [1, 'unchanged', []],
+      [2, 'insert', []],
+      [3, 'insert', ['NotStylusProgram']],
+      [4, 'insert', ['duplicate of an earlier row']],
+      [5, 'update', ['duplicate of an earlier row', 'InvalidBid']],
+      [6, 'update', ['duplicate of an earlier row', 'InvalidActivationCost']],
+    ]);
+    expect(plan[0].contractAddress).to.equal(PROGRAMS[1]);
+  });
+
+  it('refuses inserts beyond maxContractsPerUser from the end', async function () {
+    await deployment.cacheManagerAutomation.setMaxContractsPerUser(2);
+    await client.insertContract(PROGRAMS[0], { maxBid: MAX_BID });
+
+    const plan = await planImport(client, [
+      row({ line: 1, contractAddress: PROGRAMS[1] }),
+      row({ line: 2, contractAddress: PROGRAMS[2] }),
+    ]);
+    expect(plan.map(({ errors }) => errors.length)).to.deep.equal([0, 1]);
+    expect(plan[1].errors[0]).to.match(/^TooManyContracts/);
+
+    // Removing the unlisted registration frees its slot.
+    const withRemoval = await planImport(
+      client,
+      [
+        row({ line: 1, contractAddress: PROGRAMS[1] }),
+        row({ line: 2, contractAddress: PROGRAMS[2] }),
+      ],
+      { removeMissing: true }
+    );
+    expect(withRemoval.every(({ errors }) => errors.length === 0)).to.equal(
+      true
+    );
+  });
+
+  it('applies the plan and reports per-row results', async function () {
+    await client.insertContract(PROGRAMS[0], { maxBid: MAX_BID });
+    await client.insertContract(PROGRAMS[1], { maxBid: MAX_BID });
+
+    const plan = await planImport(
+      client,
+      [
+        row({ line: 1, maxBid: 3n * MAX_BID, enabled: false }),
+        row({ line: 2, contractAddress: PROGRAMS[2] }),
+        row({ line: 3, contractAddress: hre.ethers.ZeroAddress }),
+      ],
+      { removeMissing: true }
+    );
+    const results = await executeImport(client, plan);
+
+    expect(
+      results.map(({ action, status, line }) => [line, action, status])
+    ).to.deep.equal([
+      [undefined, 'remove', 'done'],
+      [1, 'update', 'done'],
+      [2, 'insert', 'done'],
+      [3, 'insert', 'invalid'],
+    ]);
+    expect(results[0].transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(results[3].detail).to.equal('InvalidAddress: the zero address');
+    expect(await client.getUserContracts()).to.deep.equal([
+      {
+        contractAddress: PROGRAMS[0],
+        maxBid: 3n * MAX_BID,
+        enabled: false,
+        autoActivate: false,
+        maxActivationCost: 0n,
+      },
+      {
+        contractAddress: PROGRAMS[2],
+        maxBid: MAX_BID,
+        enabled: true,
+        autoActivate: false,
+        maxActivationCost: 0n,
+      },
+    ]);
+  });
+
+  it('runs cma:import from a CSV file', async function () {
+    const cma = await deployment.cacheManagerAutomation.getAddress();
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'cma-import-')),
+      'manifest.csv'
+    );
+    fs.writeFileSync(
+      file,
+      `address,maxBid\n${PROGRAMS[0]},0.001\n${PROGRAMS[1]},0.001\n`
+    );
+
+    const planned = await hre.run('cma:import', { cma, file, dryRun: true });
+    expect(planned).to.have.length(2);
+    expect(await deployment.cacheManagerAutomation.getUserContracts()).to.be
+      .empty;
+
+    const results = await hre.run('cma:import', { cma, file });
+    expect(
+      results.map(({ status }: { status: string }) => status)
+    ).to.deep.equal(['done', 'done']);
+    expect(
+      await deployment.cacheManagerAutomation.getUserContracts()
+    ).to.have.length(2);
+  });
+});
@@ -0,0 +1,184 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { BiddingKeeper } from '../src/keeper/bidding-keeper';
+import { Histogram, KeeperMetrics, MetricsServer } from '../src/keeper/metrics';
+
+describe('Keeper metrics', function () {
+  let deployment: MockedCMADeployment;
+  let operator: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let metrics: KeeperMetrics;
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const FUNDING = hre.ethers.parseEther('0.01');
+  const PROGRAM = hre.ethers.getAddress(
+    '0x000000000000000000000000000000000000d001'
+  );
+
+  const logger = { log: () => {}, warn: () => {}, error: () => {} };
+
+  beforeEach(async function () {
+    [operator, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    metrics = new KeeperMetrics();
+  });
+
+  describe('KeeperMetrics', function () {
+    it('exports counters at 0 before anything happened', function () {
+      const text = metrics.render();
+      expect(text).to.include('# TYPE cma_bids_placed_total counter\n');
+      expect(text).to.include('cma_bids_placed_total 0\n');
+      expect(text).to.include('cma_failed_batches_total{kind="bids"} 0\n');
+      expect(text).to.include(
+        'cma_failed_batches_total{kind="activations"} 0\n'
+      );
+      // Gauges only appear once they have been read.
+      expect(text).not.to.match(/^cma_cache_decay /m);
+    });
+
+    it('renders cumulative histogram buckets', function () {
+      const histogram = new Histogram('test_latency', 'Latency', [5, 1]);
+      histogram.observe(0.5, { kind: 'bids' });
+      histogram.observe(3, { kind: 'bids' });
+      histogram.observe(10, { kind: 'bids' });
+
+      expect(histogram.render()).to.deep.equal([
+        '# HELP test_latency Latency',
+        '# TYPE test_latency histogram',
+        'test_latency_bucket{kind="bids",le="1"} 1',
+        'test_latency_bucket{kind="bids",le="5"} 2',
+        'test_latency_bucket{kind="bids",le="+Inf"} 3',
+        'test_latency_sum{kind="bids"} 13.5',
+        'test_latency_count{kind="bids"} 3',
+      ]);
+    });
+  });
+
+  describe('MetricsServer', function () {
+    let server: MetricsServer;
+    let port: number;
+
+    beforeEach(async function () {
+      server = new MetricsServer({
+        port: 0,
+        targets: [
+          {
+            metrics,
+            cacheManager: deployment.cacheManager,
+            provider: hre.ethers.provider,
+            operatorAddress: operator.address,
+            escrowAddress: await deployment.cacheManagerAutomation.escrow(),
+          },
+        ],
+        logger,
+      });
+      port = await server.start();
+    });
+
+    afterEach(async function () {
+      await server.stop();
+    });
+
+    it('refreshes the chain gauges on every scrape', async function () {
+      await deployment.cacheManager.setCache(1000, 900, 7);
+      await deployment.cacheManagerAutomation
+        .connect(user)
+        .insertContract(PROGRAM, MAX_BID, true, false, 0, { value: FUNDING });
+
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(response.status).to.equal(200);
+      expect(response.headers.get('content-type')).to.include('version=0.0.4');
+
+      const text = await response.text();
+      expect(text).to.include('cma_cache_utilization_ratio 0.9\n');
+      expect(text).to.include('cma_cache_decay 7\n');
+      expect(text).to.include(`cma_escrow_balance_wei ${FUNDING}\n`);
+      expect(metrics.operatorBalance.get()).to.equal(
+        Number(await hre.ethers.provider.getBalance(operator.address))
+      );
+    });
+
+    it('merges the series of several networks under one header', async function () {
+      const other = new KeeperMetrics({ network: 'arbitrumSepolia' });
+      other.bidsPlaced.inc(3);
+      server.addTarget({ metrics: other });
+
+      const text = await (
+        await fetch(`http://127.0.0.1:${port}/metrics`)
+      ).text();
+      expect(text.match(/# TYPE cma_bids_placed_total /g)).to.have.length(1);
+      expect(text).to.include('cma_bids_placed_total 0\n');
+      expect(text).to.include(
+        'cma_bids_placed_total{network="arbitrumSepolia"} 3\n'
+      );
+    });
+
+    it('does not wait for a target whose reads hang', async function () {
+      const warnings: unknown[][] = [];
+      const hung = new MetricsServer({
+        port: 0,
+        targets: [
+          {
+            metrics: new KeeperMetrics({ network: 'hung' }),
+            provider: {
+              getBalance: () => new Promise<bigint>(() => {}),
+            } as unknown as typeof hre.ethers.provider,
+            operatorAddress: operator.address,
+          },
+          { metrics },
+        ],
+        refreshTimeoutMs: 50,
+        logger: { ...logger, warn: (...args) => warnings.push(args) },
+      });
+      metrics.bidsPlaced.inc();
+
+      const hungPort = await hung.start();
+      try {
+        const text = await (
+          await fetch(`http://127.0.0.1:${hungPort}/metrics`)
+        ).text();
+        expect(text).to.include('cma_bids_placed_total 1\n');
+        expect(warnings).to.have.length(1);
+      } finally {
+        await hung.stop();
+      }
+    });
+
+    it('answers 404 outside /metrics', async function () {
+      const response = await fetch(`http://127.0.0.1:${port}/`);
+      expect(response.status).to.equal(404);
+    });
+  });
+
+  it('counts events and gas of keeper batches', async function () {
+    await setProgramCode(PROGRAM);
+    await deployment.cacheManagerAutomation
+      .connect(user)
+      .insertContract(PROGRAM, MAX_BID, true, false, 0, { value: FUNDING });
+
+    const keeper = new BiddingKeeper({
+      cma: deployment.cacheManagerAutomation,
+      arbWasmCache: deployment.arbWasmCache,
+      intervalSeconds: 1,
+      metrics,
+      logger,
+    });
+    await keeper.runOnce();
+
+    expect(metrics.bidsPlaced.get()).to.equal(1);
+    expect(metrics.bidErrors.get()).to.equal(0);
+    expect(metrics.render()).to.include(
+      'cma_batch_gas_used_count{kind="bids"} 1\n'
+    );
+    expect(metrics.render()).to.include(
+      'cma_submission_latency_seconds_count{kind="bids"} 1\n'
+    );
+  });
+});
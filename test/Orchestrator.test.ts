@@ -0,0 +1,276 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import path from 'path';
+import hre from 'hardhat';
+
+import { deployCMAWithMocks, setProgramCode } from './helpers';
+import { getDeploymentConfig } from '../config/deployment-config';
+import { readDeployedCmaAddress } from '../src/keeper/deployments';
+import { NetworkKeeper, parseMetricsPort } from '../src/keeper/network-keeper';
+import { KeeperHandle, KeeperOrchestrator } from '../src/keeper/orchestrator';
+import { PollingService } from '../src/keeper/polling-service';
+
+describe('Multi-network keeper', function () {
+  const DB_DIR = path.join(__dirname, 'db');
+
+  const logger = { log: () => {}, warn: () => {}, error: () => {} };
+  const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  async function waitFor(condition: () => boolean, timeoutMs = 5000) {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting');
+      await sleep(20);
+    }
+  }
+
+  describe('readDeployedCmaAddress', function () {
+    const DEPLOYMENTS_DIR = path.join(DB_DIR, 'deployments');
+
+    function writeDeployment(chainId: number, addresses: object) {
+      const dir = path.join(DEPLOYMENTS_DIR, `chain-${chainId}`);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(
+        path.join(dir, 'deployed_addresses.json'),
+        JSON.stringify(addresses)
+      );
+    }
+
+    afterEach(function () {
+      fs.rmSync(DEPLOYMENTS_DIR, { recursive: true, force: true });
+    });
+
+    it('reads the committed Arbitrum Sepolia deployment', function () {
+      expect(readDeployedCmaAddress(421614)).to.equal(
+        '0x87ADAFD87F7F77e42182e877d6D90475DFeF5076'
+      );
+    });
+
+    it('picks the highest version unless one is requested', function () {
+      writeDeployment(1, {
+        'CacheManagerAutomation_1_2_0#CacheManagerAutomation': '0x12',
+        'CacheManagerAutomation_1_10_0#CacheManagerAutomation': '0x110',
+        'CacheManagerAutomation_1_0_0#CacheManagerAutomation': '0x10',
+        'Other_9_9_9#Other': '0x99',
+      });
+
+      expect(readDeployedCmaAddress(1, DEPLOYMENTS_DIR)).to.equal('0x110');
+      expect(readDeployedCmaAddress(1, DEPLOYMENTS_DIR, '1.2.0')).to.equal(
+        '0x12'
+      );
+      expect(() =>
+        readDeployedCmaAddress(1, DEPLOYMENTS_DIR, '2.0.0')
+      ).to.throw('No CacheManagerAutomation 2.0.0 deployment');
+    });
+
+    it('rejects chains without a deployment', function () {
+      expect(() => readDeployedCmaAddress(2, DEPLOYMENTS_DIR)).to.throw(
+        'No ignition deployment for chain 2'
+      );
+    });
+  });
+
+  describe('parseMetricsPort', function () {
+    it('treats an unset or empty KEEPER_METRICS_PORT as the default', function () {
+      expect(parseMetricsPort(undefined, 9464)).to.equal(9464);
+      // dotenv reads `KEEPER_METRICS_PORT= # ...` from .env.example as ''.
+      expect(parseMetricsPort('', 9464)).to.equal(9464);
+      expect(parseMetricsPort(' ', 9464)).to.equal(9464);
+    });
+
+    it('keeps 0 as disabled and rejects non-ports', function () {
+      expect(parseMetricsPort('0', 9464)).to.equal(0);
+      expect(parseMetricsPort('9100', 9464)).to.equal(9100);
+      expect(() => parseMetricsPort('metrics', 9464)).to.throw(/port number/);
+      expect(() => parseMetricsPort('70000', 9464)).to.throw(/port number/);
+    });
+  });
+
+  describe('KeeperOrchestrator', function () {
+    let orchestrator: KeeperOrchestrator<FakeKeeper> | undefined;
+
+    class FakeKeeper implements KeeperHandle {
+      started = false;
+      stopped = false;
+      async start() {
+        this.started = true;
+      }
+      async stop() {
+        this.stopped = true;
+      }
+    }
+
+    afterEach(async function () {
+      await orchestrator?.stop();
+      orchestrator = undefined;
+    });
+
+    it('keeps healthy networks running while others fail or hang', async function () {
+      const healthy = new FakeKeeper();
+      const recovered = new FakeKeeper();
+      let attempts = 0;
+      const started: string[] = [];
+
+      orchestrator = new KeeperOrchestrator({
+        networks: [
+          { name: 'hanging', connect: () => new Promise(() => {}) },
+          {
+            name: 'flaky',
+            connect: async () => {
+              if (++attempts < 3) throw new Error('RPC down');
+              return recovered;
+            },
+          },
+          { name: 'healthy', connect: async () => healthy },
+        ],
+        retrySeconds: 0.01,
+        onStarted: (name) => started.push(name),
+        logger,
+      });
+      orchestrator.start();
+
+      await waitFor(() => started.length === 2);
+      expect(started).to.deep.equal(['healthy', 'flaky']);
+      expect(attempts).to.equal(3);
+      expect(healthy.started && recovered.started).to.equal(true);
+      expect(
+        orchestrator.status().map(({ name, state }) => [name, state])
+      ).to.deep.equal([
+        ['hanging', 'connecting'],
+        ['flaky', 'running'],
+        ['healthy', 'running'],
+      ]);
+
+      await orchestrator.stop();
+      expect(healthy.stopped && recovered.stopped).to.equal(true);
+    });
+
+    it('backs off exponentially and stops retrying once stopped', async function () {
+      let attempts = 0;
+      orchestrator = new KeeperOrchestrator<FakeKeeper>({
+        networks: [
+          {
+            name: 'down',
+            connect: async () => {
+              attempts++;
+              throw new Error('RPC down');
+            },
+          },
+        ],
+        retrySeconds: 0.05,
+        maxRetrySeconds: 0.1,
+        logger,
+      });
+      orchestrator.start();
+
+      await waitFor(() => attempts === 3);
+      const [status] = orchestrator.status();
+      expect(status.failures).to.equal(3);
+      expect((status.lastError as Error).message).to.equal('RPC down');
+
+      await orchestrator.stop();
+      await sleep(250);
+      expect(attempts).to.equal(3);
+    });
+
+    it('rejects a network listed twice', function () {
+      const network = { name: 'arbitrumOne', connect: async () => ({}) };
+      expect(
+        () =>
+          new KeeperOrchestrator({
+            networks: [network, network] as never,
+          })
+      ).to.throw('Network arbitrumOne is listed twice');
+    });
+  });
+
+  describe('PollingService', function () {
+    class GatedService extends PollingService {
+      protected readonly name = 'Gated';
+      release = () => {};
+      rounds = 0;
+
+      constructor() {
+        super(0.01, logger);
+      }
+
+      runOnce(): Promise<void> {
+        this.rounds++;
+        return new Promise((resolve) => (this.release = resolve));
+      }
+    }
+
+    it('stops once the round in flight settles', async function () {
+      const service = new GatedService();
+      service.start();
+      await waitFor(() => service.rounds === 1);
+
+      let stopped = false;
+      const stopping = service.stop().then(() => (stopped = true));
+      await sleep(50);
+      expect(stopped).to.equal(false);
+
+      service.release();
+      await stopping;
+      await sleep(50);
+      expect(service.rounds).to.equal(1);
+    });
+  });
+
+  describe('NetworkKeeper', function () {
+    const DB_PATH = path.join(DB_DIR, 'network-keeper.test.db');
+
+    function removeDatabase() {
+      for (const suffix of ['', '-wal', '-shm']) {
+        fs.rmSync(DB_PATH + suffix, { force: true });
+      }
+    }
+
+    beforeEach(function () {
+      fs.mkdirSync(DB_DIR, { recursive: true });
+      removeDatabase();
+    });
+
+    afterEach(removeDatabase);
+
+    it('runs the services of one network and labels its metrics', async function () {
+      const [operator, user] = await hre.ethers.getSigners();
+      const deployment = await deployCMAWithMocks();
+      const program = hre.ethers.getAddress(
+        '0x000000000000000000000000000000000000e001'
+      );
+      await setProgramCode(program);
+      const maxBid = hre.ethers.parseEther('0.001');
+      await deployment.cacheManagerAutomation
+        .connect(user)
+        .insertContract(program, maxBid, true, false, 0, { value: maxBid });
+
+      const keeper = new NetworkKeeper({
+        network: 'hardhat',
+        config: {
+          ...getDeploymentConfig('hardhat'),
+          cacheManagerAddress: await deployment.cacheManager.getAddress(),
+          arbWasmCacheAddress: await deployment.arbWasmCache.getAddress(),
+          arbWasmAddress: await deployment.arbWasm.getAddress(),
+        },
+        signer: operator,
+        cmaAddress: await deployment.cacheManagerAutomation.getAddress(),
+        dbPath: DB_PATH,
+        logger,
+      });
+      await keeper.start();
+      try {
+        await waitFor(() => keeper.metrics.bidsPlaced.get() === 1);
+        expect(keeper.metrics.render()).to.include(
+          'cma_bids_placed_total{network="hardhat"} 1\n'
+        );
+        expect(keeper.metricsTarget().escrowAddress).to.equal(
+          await deployment.cacheManagerAutomation.escrow()
+        );
+      } finally {
+        await keeper.stop();
+      }
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre from 'hardhat';
+
+import { deployCMAWithMocks, MockedCMADeployment } from './helpers';
+import {
+  applyParameterChanges,
+  diffParameters,
+  parseDesiredParameters,
+  readParameters,
+  renderParameterDiff,
+} from '../src/sdk/parameters';
+
+describe('CMA parameters', function () {
+  let deployment: MockedCMADeployment;
+
+  beforeEach(async function () {
+    deployment = await deployCMAWithMocks();
+  });
+
+  it('parses YAML and JSON desired states', function () {
+    const fromYaml = parseDesiredParameters(
+      [
+        'cacheThreshold: 95',
+        'maxUserFunds: 2.5 ETH',
+        'bidIncrement: "1000000000000000000000"',
+      ].join('\n')
+    );
+    expect(fromYaml).to.deep.equal({
+      cacheThreshold: 95n,
+      maxUserFunds: hre.ethers.parseEther('2.5'),
+      bidIncrement: 10n ** 21n,
+    });
+    expect(
+      parseDesiredParameters('{"horizonSeconds": 86400}', 'params.json')
+    ).to.deep.equal({ horizonSeconds: 86400n });
+
+    expect(() => parseDesiredParameters('maxBids: 1')).to.throw(
+      'unknown parameter maxBids'
+    );
+    expect(() => parseDesiredParameters('cacheThreshold: 101')).to.throw(
+      'cacheThreshold must be <= 100'
+    );
+    expect(() => parseDesiredParameters('maxUsersPerPage: 0')).to.throw(
+      'maxUsersPerPage must be greater than 0'
+    );
+    expect(() => parseDesiredParameters('horizonSeconds: 1 ETH')).to.throw(
+      'horizonSeconds must be an integer'
+    );
+    expect(() =>
+      parseDesiredParameters('maxUserFunds: 1000000000000000000')
+    ).to.throw('quote values above');
+  });
+
+  it('diffs only the listed parameters that differ', async function () {
+    const current = await readParameters(deployment.cacheManagerAutomation);
+    const changes = diffParameters(current, {
+      cacheThreshold: current.cacheThreshold,
+      maxUsersPerPage: current.maxUsersPerPage + 1n,
+      minFundAmount: hre.ethers.parseEther('0.5'),
+    });
+
+    expect(changes.map((change) => change.name)).to.deep.equal([
+      'minFundAmount',
+      'maxUsersPerPage',
+    ]);
+    expect(renderParameterDiff(changes)).to.equal(
+      [
+        `~ minFundAmount: ${current.minFundAmount} (${hre.ethers.formatEther(
+          current.minFundAmount
+        )} ETH) -> 500000000000000000 (0.5 ETH)`,
+        `~ maxUsersPerPage: ${current.maxUsersPerPage} -> ${
+          current.maxUsersPerPage + 1n
+        }`,
+      ].join('\n')
+    );
+    expect(renderParameterDiff([])).to.equal('No changes');
+  });
+
+  it('applies changes and checks their Updated events', async function () {
+    const cma = deployment.cacheManagerAutomation;
+    const current = await readParameters(cma);
+    const changes = diffParameters(current, {
+      horizonSeconds: 3600n,
+      bidIncrement: 7n,
+    });
+
+    const applied = await applyParameterChanges(cma, changes);
+    expect(applied.map(({ name }) => name)).to.deep.equal([
+      'horizonSeconds',
+      'bidIncrement',
+    ]);
+    expect(await readParameters(cma)).to.include({
+      horizonSeconds: 3600n,
+      bidIncrement: 7n,
+    });
+
+    // Replaying the stale plan: the event's oldValue no longer matches.
+    await expect(applyParameterChanges(cma, changes)).to.be.rejectedWith(
+      'does not match the planned'
+    );
+  });
+
+  it('runs cma:admin as a dry run or with --yes', async function () {
+    const cma = await deployment.cacheManagerAutomation.getAddress();
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'cma-admin-')),
+      'params.yaml'
+    );
+    fs.writeFileSync(file, 'cacheThreshold: 90\nmaxContractsPerUser: 3\n');
+
+    await hre.run('cma:admin', { cma, file, dryRun: true });
+    expect(
+      await deployment.cacheManagerAutomation.cacheThreshold()
+    ).to.not.equal(90n);
+
+    const applied = await hre.run('cma:admin', { cma, file, yes: true });
+    expect(applied).to.have.length(2);
+    expect(await readParameters(deployment.cacheManagerAutomation)).to.include({
+      cacheThreshold: 90n,
+      maxContractsPerUser: 3n,
+    });
+    expect(await hre.run('cma:admin', { cma, file, yes: true })).to.deep.equal(
+      []
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import type { CacheManagerAutomation } from '../build/typechain-types';
+import {
+  fetchRegistrations,
+  iterateRegistrations,
+  RegistrationPage,
+} from '../src/sdk/registrations';
+
+describe('Registrations', function () {
+  let deployment: MockedCMADeployment;
+  let users: HardhatEthersSigner[];
+
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000d001',
+    '0x000000000000000000000000000000000000d002',
+    '0x000000000000000000000000000000000000d003',
+    '0x000000000000000000000000000000000000d004',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  beforeEach(async function () {
+    users = (await hre.ethers.getSigners()).slice(1, 4);
+    deployment = await deployCMAWithMocks();
+    for (const program of PROGRAMS) {
+      await setProgramCode(program);
+    }
+    for (const [i, user] of users.entries()) {
+      await deployment.cacheManagerAutomation
+        .connect(user)
+        .insertContract(PROGRAMS[i], MAX_BID, true, false, 0);
+    }
+  });
+
+  async function collect(
+    cma: CacheManagerAutomation,
+    options: Parameters<typeof iterateRegistrations>[1] = {}
+  ): Promise<RegistrationPage[]> {
+    const pages: RegistrationPage[] = [];
+    for await (const page of iterateRegistrations(cma, options)) {
+      pages.push(page);
+    }
+    return pages;
+  }
+
+  it('sizes pages from maxUsersPerPage and caps a requested size', async function () {
+    const cma = deployment.cacheManagerAutomation;
+    await cma.setMaxUsersPerPage(2);
+
+    const pages = await collect(cma, { pageSize: 5n });
+    expect(pages.map((page) => page.offset)).to.deep.equal([0, 2]);
+    expect(pages.map((page) => page.users.length)).to.deep.equal([2, 1]);
+    expect(pages[0]).to.include({ totalUsers: 3 });
+
+    expect(await collect(cma, { pageSize: 1n })).to.have.length(3);
+  });
+
+  it('reads every page at the block the walk started on', async function () {
+    const cma = deployment.cacheManagerAutomation;
+    await cma.setMaxUsersPerPage(1);
+    const pinned = await hre.ethers.provider.getBlockNumber();
+    const walk = iterateRegistrations(cma);
+
+    const first = (await walk.next()).value as RegistrationPage;
+    // Removing the first user swaps the last one into its slot at latest.
+    await cma.connect(users[0]).removeAllContracts();
+    const rest: RegistrationPage[] = [];
+    for await (const page of walk) rest.push(page);
+
+    expect(first.blockNumber).to.equal(pinned);
+    expect(
+      [first, ...rest].flatMap((page) => page.users.map((u) => u.user))
+    ).to.deep.equal(users.map((u) => u.address));
+    expect(
+      (await fetchRegistrations(cma)).map((r) => r.contractAddress)
+    ).to.have.members([PROGRAMS[1], PROGRAMS[2]]);
+    expect(await fetchRegistrations(cma, pinned)).to.have.length(3);
+  });
+
+  it('throws when the user count moves during the walk', async function () {
+    const cma = deployment.cacheManagerAutomation;
+    await cma.setMaxUsersPerPage(1);
+    // Stands in for an RPC whose nodes answer at different heights.
+    let reads = 0;
+    const inconsistent = new Proxy(cma, {
+      get(target, property, receiver) {
+        if (property === 'getTotalUsersCount') {
+          return async () => (reads++ < 2 ? 3n : 4n);
+        }
+        return Reflect.get(target, property, receiver);
+      },
+    });
+
+    await expect(collect(inconsistent)).to.be.rejectedWith(
+      'Registered users changed from 3 to 4'
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+
+import { deployCMAWithMocks, MockedCMADeployment } from './helpers';
+import { ExternalInterfaces } from '../config/abis';
+import { TransactionManager } from '../src/keeper/transaction-manager';
+import {
+  ContractRevertError,
+  DecodedError,
+  revertDecoder,
+} from '../src/sdk/revert-decoder';
+
+describe('RevertDecoder', function () {
+  const builtins = new hre.ethers.Interface([
+    'error Error(string)',
+    'error Panic(uint256)',
+  ]);
+
+  it('decodes CMA, CacheManager and ArbWasm errors with typed args', async function () {
+    const { cacheManagerAutomation } = await deployCMAWithMocks();
+
+    expect(
+      revertDecoder.decode(
+        cacheManagerAutomation.interface.encodeErrorResult('TooManyBids')
+      )
+    ).to.include({
+      name: 'TooManyBids',
+      source: 'CacheManagerAutomation',
+      signature: 'TooManyBids()',
+    });
+
+    const bidTooSmall = revertDecoder.decode(
+      ExternalInterfaces.CacheManager().encodeErrorResult(
+        'BidTooSmall',
+        [5, 10]
+      )
+    );
+    expect(bidTooSmall).to.include({
+      name: 'BidTooSmall',
+      source: 'CacheManager',
+    });
+    expect(bidTooSmall?.args).to.deep.equal({ bid: 5n, min: 10n });
+
+    const expired = revertDecoder.decode(
+      ExternalInterfaces.ArbWasm().encodeErrorResult('ProgramExpired', [86400])
+    ) as DecodedError;
+    expect(expired.selector).to.equal('0xc9b12e52');
+    if (expired.name !== 'ProgramExpired') expect.fail(expired.name);
+    expect(expired.args.ageInSeconds).to.equal(86400n);
+  });
+
+  it('describes reverts as readable reasons', function () {
+    expect(
+      revertDecoder.describe(builtins.encodeErrorResult('Error', ['nope']))
+    ).to.equal('nope');
+    expect(
+      revertDecoder.describe(builtins.encodeErrorResult('Panic', [0x11]))
+    ).to.equal('Panic(0x11)');
+    expect(
+      revertDecoder.describe(
+        ExternalInterfaces.ArbWasm().encodeErrorResult('ProgramExpired', [
+          86400,
+        ])
+      )
+    ).to.equal('ProgramExpired(ageInSeconds=86400)');
+    expect(
+      revertDecoder.describe(
+        ExternalInterfaces.CacheManager().encodeErrorResult('AlreadyCached', [
+          hre.ethers.ZeroHash,
+        ])
+      )
+    ).to.equal(`AlreadyCached(codehash=${hre.ethers.ZeroHash})`);
+    expect(revertDecoder.describe('0xdeadbeef')).to.equal(
+      'unknown error 0xdeadbeef'
+    );
+    // A known selector with a truncated payload.
+    expect(revertDecoder.decode('0xc9b12e52')).to.equal(undefined);
+  });
+
+  it('turns a send the node refuses into a ContractRevertError', async function () {
+    const deployment: MockedCMADeployment = await deployCMAWithMocks();
+    const [signer] = await hre.ethers.getSigners();
+    const manager = new TransactionManager({
+      signer,
+      requiredConfirmations: 1,
+      logger: { log: () => {}, warn: () => {}, error: () => {} },
+    });
+    await deployment.arbWasm.setShouldRevert(true);
+
+    const error = await manager
+      .send({
+        to: await deployment.arbWasm.getAddress(),
+        data: deployment.arbWasm.interface.encodeFunctionData(
+          'activateProgram',
+          [signer.address]
+        ),
+      })
+      .catch((error) => error);
+    expect(error).to.be.instanceOf(ContractRevertError);
+    expect(error.decoded).to.include({
+      name: 'Error',
+      source: 'Solidity',
+    });
+    expect(error.message).to.equal('Transaction reverted with activate revert');
+  });
+});
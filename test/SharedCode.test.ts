@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+
+import { setProgramCode } from './helpers';
+import {
+  biddingPower,
+  findSharedCode,
+  selectBestFunded,
+} from '../src/keeper/shared-code';
+import { Registration } from '../src/sdk/registrations';
+
+describe('Shared code', function () {
+  const USERS = [
+    '0x00000000000000000000000000000000000a0001',
+    '0x00000000000000000000000000000000000a0002',
+  ].map((address) => hre.ethers.getAddress(address));
+  const PROGRAMS = [
+    '0x00000000000000000000000000000000000c0001',
+    '0x00000000000000000000000000000000000c0002',
+    '0x00000000000000000000000000000000000c0003',
+    '0x00000000000000000000000000000000000c0004',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  function registration(
+    user: string,
+    contractAddress: string,
+    maxBid = 10n
+  ): Registration {
+    return {
+      user,
+      contractAddress,
+      maxBid,
+      enabled: true,
+      autoActivate: false,
+      maxActivationCost: 0n,
+    };
+  }
+
+  it('groups registrations whose programs have the same code', async function () {
+    const shared = await setProgramCode(PROGRAMS[0], '0xeff0000001');
+    await setProgramCode(PROGRAMS[1], '0xeff0000001');
+    await setProgramCode(PROGRAMS[2], '0xeff0000002');
+    // PROGRAMS[3] has no code.
+
+    const registrations = [
+      registration(USERS[0], PROGRAMS[0]),
+      registration(USERS[1], PROGRAMS[1]),
+      registration(USERS[1], PROGRAMS[2]),
+      registration(USERS[0], PROGRAMS[3]),
+      registration(USERS[1], PROGRAMS[0]),
+    ];
+
+    expect(
+      await findSharedCode(hre.ethers.provider, registrations)
+    ).to.deep.equal([
+      {
+        codehash: shared,
+        registrations: [registrations[0], registrations[1], registrations[4]],
+      },
+    ]);
+  });
+
+  it('prefers the highest maxBid capped by balance, first on ties', function () {
+    const candidates = [
+      { ...registration(USERS[0], PROGRAMS[0], 100n), balance: 5n },
+      { ...registration(USERS[1], PROGRAMS[1], 7n), balance: 50n },
+      { ...registration(USERS[1], PROGRAMS[2], 9n), balance: 7n },
+    ];
+
+    expect(candidates.map(biddingPower)).to.deep.equal([5n, 7n, 7n]);
+    expect(selectBestFunded(candidates)).to.equal(candidates[1]);
+    expect(() => selectBestFunded([])).to.throw();
+  });
+});
@@ -0,0 +1,210 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { CmaIndexer } from '../src/indexer/indexer';
+import {
+  buildStatement,
+  findLastBlockBefore,
+  reconcileStatement,
+  Statement,
+  statementToCsv,
+} from '../src/indexer/statement';
+import { IndexerStore } from '../src/indexer/store';
+import { BiddingEscrow__factory } from '../build/typechain-types';
+
+describe('Escrow statements', function () {
+  let deployment: MockedCMADeployment;
+  let user: HardhatEthersSigner;
+  let startBlock: number;
+
+  const DAY = 24n * 3600n;
+  const MAX_BID = hre.ethers.parseEther('0.001');
+  const ACTIVATION_COST = hre.ethers.parseEther('0.002');
+  const FUNDING = hre.ethers.parseEther('0.01');
+  const TOP_UP = hre.ethers.parseEther('0.005');
+  const DATA_FEE = 500n;
+  // minBid + decay × horizonSeconds, above the 98% threshold.
+  const BID = 1_000n + 30n * DAY;
+  const PROGRAM = hre.ethers.getAddress(
+    '0x000000000000000000000000000000000000e201'
+  );
+
+  const silent = { log: () => {}, warn: () => {}, error: () => {} };
+
+  async function index(filename = ':memory:', fromBlock = startBlock) {
+    const store = await IndexerStore.open(filename);
+    await new CmaIndexer({
+      cma: deployment.cacheManagerAutomation,
+      store,
+      fromBlock,
+      logger: silent,
+    }).runOnce();
+    return store;
+  }
+
+  async function reconcile(statement: Statement) {
+    const escrow = BiddingEscrow__factory.connect(
+      await deployment.cacheManagerAutomation.escrow(),
+      hre.ethers.provider
+    );
+    return reconcileStatement(statement, escrow);
+  }
+
+  beforeEach(async function () {
+    [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    await setProgramCode(PROGRAM);
+    startBlock = await hre.ethers.provider.getBlockNumber();
+
+    const cma = deployment.cacheManagerAutomation;
+    const requests = [{ user: user.address, contractAddress: PROGRAM }];
+    await cma
+      .connect(user)
+      .insertContract(PROGRAM, MAX_BID, true, true, ACTIVATION_COST, {
+        value: FUNDING,
+      });
+    await deployment.cacheManager.setCache(100, 99, 1);
+    await deployment.cacheManager.setMinBid(1_000);
+    await cma.placeBids(requests);
+    // Pulled, then deposited back when placeBid reverts.
+    await deployment.cacheManager.setShouldRevert(true);
+    await cma.placeBids(requests);
+    await deployment.arbWasm.setDataFee(DATA_FEE);
+    await deployment.arbWasm.setRefundExcess(true);
+    await deployment.arbWasm.setTimeLeftFor(PROGRAM, 0);
+    await cma.placeActivations(requests);
+    await cma.connect(user).fundBalance({ value: TOP_UP });
+  });
+
+  it('labels escrow transfers and reconciles with depositsOf', async function () {
+    const store = await index();
+    const toBlock = await hre.ethers.provider.getBlockNumber();
+    const statement = await reconcile(
+      await buildStatement(store, user.address, { fromBlock: 0, toBlock })
+    );
+
+    expect(
+      statement.entries.map(({ kind, amount }) => [kind, amount])
+    ).to.deep.equal([
+      ['deposit', FUNDING],
+      ['bid', -BID],
+      ['bid', -BID],
+      ['bid-refund', BID],
+      ['activation', -ACTIVATION_COST],
+      ['activation-refund', ACTIVATION_COST - DATA_FEE],
+      ['deposit', TOP_UP],
+    ]);
+    expect(statement.entries[1].contractAddress).to.equal(PROGRAM);
+    expect(statement.totals).to.deep.equal({
+      deposits: FUNDING + TOP_UP,
+      bids: BID,
+      activations: DATA_FEE,
+      withdrawals: 0n,
+    });
+    expect(statement.closingBalance).to.equal(
+      FUNDING + TOP_UP - BID - DATA_FEE
+    );
+    expect(statement.reconciliation).to.deep.equal({
+      onChainBalance: statement.closingBalance,
+      difference: 0n,
+      balanced: true,
+    });
+
+    const csv = statementToCsv(statement).trim().split('\n');
+    expect(csv[0]).to.equal(
+      'block,timestamp,tx_hash,kind,contract,amount_eth,balance_eth'
+    );
+    expect(csv[1]).to.equal('0,,,opening,,,0.0');
+    expect(csv[2]).to.match(/,deposit,,0\.01,0\.01$/);
+    expect(csv).to.have.length(statement.entries.length + 3);
+    await store.close();
+  });
+
+  it('opens a later range with the earlier closing balance', async function () {
+    const closing = FUNDING + TOP_UP - BID - DATA_FEE;
+    const fromBlock = (await hre.ethers.provider.getBlockNumber()) + 1;
+    await deployment.cacheManagerAutomation.connect(user).withdrawBalance();
+    const store = await index();
+
+    const statement = await reconcile(
+      await buildStatement(store, user.address, {
+        fromBlock,
+        toBlock: fromBlock,
+      })
+    );
+    expect(statement.openingBalance).to.equal(closing);
+    expect(statement.entries.map(({ kind }) => kind)).to.deep.equal([
+      'withdrawal',
+    ]);
+    expect(statement.totals.withdrawals).to.equal(closing);
+    expect(statement.reconciliation?.balanced).to.equal(true);
+
+    await expect(
+      buildStatement(store, user.address, { fromBlock, toBlock: fromBlock + 5 })
+    ).to.be.rejectedWith(/only reaches block/);
+    await store.close();
+  });
+
+  it('flags a ledger missing the deposits before the index start', async function () {
+    const store = await index(':memory:', startBlock + 2);
+    const toBlock = await hre.ethers.provider.getBlockNumber();
+    const statement = await reconcile(
+      await buildStatement(store, user.address, { fromBlock: 0, toBlock })
+    );
+    expect(statement.reconciliation).to.include({
+      difference: FUNDING,
+      balanced: false,
+    });
+    await store.close();
+  });
+
+  it('finds blocks by timestamp and runs cma:statement', async function () {
+    const head = await hre.ethers.provider.getBlock('latest');
+    expect(
+      await findLastBlockBefore(hre.ethers.provider, head!.timestamp)
+    ).to.equal(head!.number - 1);
+    expect(
+      await findLastBlockBefore(hre.ethers.provider, head!.timestamp + 1)
+    ).to.equal(head!.number);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'statements-'));
+    const db = path.join(dir, 'indexer.db');
+    await (await index(db)).close();
+
+    const statements: Statement[] = await hre.run('cma:statement', {
+      db,
+      user: user.address,
+      from: String(startBlock),
+      format: 'json',
+      out: dir,
+    });
+    expect(statements).to.have.length(1);
+    const file = path.join(
+      dir,
+      `statement-${user.address}-${startBlock}-${head!.number}.json`
+    );
+    const written = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(written.totals.activations).to.equal(DATA_FEE.toString());
+    expect(written.reconciliation.balanced).to.equal(true);
+  });
+
+  it('asks for an indexer run on an empty database', async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'statements-'));
+    await expect(
+      hre.run('cma:statement', {
+        db: path.join(dir, 'indexer.db'),
+        format: 'json',
+        out: dir,
+      })
+    ).to.be.rejectedWith(/run the indexer first/);
+  });
+});
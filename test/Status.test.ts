@@ -0,0 +1,159 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { CmaClient } from '../src/sdk/cma-client';
+import { loadCmaStatus, renderCmaStatus } from '../src/sdk/status';
+
+describe('CMA status', function () {
+  let deployment: MockedCMADeployment;
+
+  const DAY = 24n * 3600n;
+  const MAX_BID = hre.ethers.parseEther('1');
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000cb01',
+    '0x000000000000000000000000000000000000cb02',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  beforeEach(async function () {
+    const [, user] = await hre.ethers.getSigners();
+    deployment = await deployCMAWithMocks();
+    const client = new CmaClient(
+      deployment.cacheManagerAutomation.connect(user)
+    );
+    await deployment.arbWasmCache.setCached(
+      await setProgramCode(PROGRAMS[0]),
+      true
+    );
+    await setProgramCode(PROGRAMS[1]);
+    await client.insertContract(
+      PROGRAMS[0],
+      { maxBid: MAX_BID },
+      hre.ethers.parseEther('0.5')
+    );
+    await client.insertContract(PROGRAMS[1], {
+      maxBid: MAX_BID,
+      enabled: false,
+    });
+  });
+
+  async function uncache(program: string) {
+    await deployment.arbWasmCache.setCached(
+      hre.ethers.keccak256(await hre.ethers.provider.getCode(program)),
+      false
+    );
+  }
+
+  it('reads the market and prices the user registrations', async function () {
+    const [, user] = await hre.ethers.getSigners();
+    // 99% full, above the 98% threshold.
+    await deployment.cacheManager.setCache(100, 99, 10);
+    await deployment.cacheManager.setMinBid(5_000);
+    await deployment.cacheManager.setPaused(true);
+    await deployment.cacheManager.addEntry(hre.ethers.ZeroHash, 4096, 7);
+    await deployment.arbWasm.setTimeLeftFor(PROGRAMS[0], 2n * DAY);
+    await deployment.arbWasm.setTimeLeftFor(PROGRAMS[1], 0);
+
+    const status = await loadCmaStatus(
+      deployment.cacheManagerAutomation,
+      user.address
+    );
+
+    expect(status.balance).to.equal(hre.ethers.parseEther('0.5'));
+    expect(status.market).to.deep.include({
+      cacheSize: 100n,
+      queueSize: 99n,
+      decay: 10n,
+      isPaused: true,
+      utilization: 99n,
+      cacheThreshold: 98n,
+      smallestEntries: [
+        { codehash: hre.ethers.ZeroHash, size: 4096n, bid: 7n },
+      ],
+    });
+    expect(status.contracts).to.have.length(2);
+    // placeBids skips contracts that are already cached.
+    expect(status.contracts[0]).to.include({
+      contractAddress: PROGRAMS[0],
+      cached: true,
+      minBid: 5_000n,
+      predictedBid: undefined,
+      timeLeft: 2n * DAY,
+    });
+    // Disabled registrations are never bid for.
+    expect(status.contracts[1]).to.include({
+      cached: false,
+      predictedBid: undefined,
+      timeLeft: 0n,
+    });
+
+    const rendered = renderCmaStatus(status);
+    expect(rendered).to.include('paused:       yes');
+    expect(rendered).to.include('99% (threshold 98%, CMA bidding)');
+    expect(rendered).to.include(`${PROGRAMS[0]}  cached`);
+    expect(rendered).to.include('expires in 2d 0h');
+    expect(rendered).to.include(`${PROGRAMS[1]}  not cached, disabled`);
+    expect(rendered).to.include('expires now (expired)');
+
+    await uncache(PROGRAMS[0]);
+    const uncached = await loadCmaStatus(
+      deployment.cacheManagerAutomation,
+      user.address
+    );
+    expect(uncached.contracts[0].predictedBid).to.equal(
+      5_000n + 10n * 30n * DAY
+    );
+  });
+
+  it('predicts no bid when placeBids would skip the contract', async function () {
+    const [, user] = await hre.ethers.getSigners();
+    await uncache(PROGRAMS[0]);
+    await deployment.cacheManager.setCache(100, 99, 10);
+    // maxBid is below minBid.
+    await deployment.cacheManager.setMinBid(2n * MAX_BID);
+
+    const status = await loadCmaStatus(
+      deployment.cacheManagerAutomation,
+      user.address
+    );
+    expect(status.contracts[0]).to.include({
+      minBid: 2n * MAX_BID,
+      predictedBid: undefined,
+    });
+    expect(renderCmaStatus(status)).to.include('predicted bid skip');
+
+    // The bid fits under maxBid but not in the 0.5 ETH escrow balance.
+    await deployment.cacheManager.setMinBid(hre.ethers.parseEther('0.6'));
+    const unfunded = await loadCmaStatus(
+      deployment.cacheManagerAutomation,
+      user.address
+    );
+    expect(unfunded.contracts[0].predictedBid).to.equal(undefined);
+
+    // Below the threshold the bid is 0, under any non-zero minBid.
+    await deployment.cacheManager.setCache(100, 10, 10);
+    await deployment.cacheManager.setMinBid(1);
+    const idle = await loadCmaStatus(
+      deployment.cacheManagerAutomation,
+      user.address
+    );
+    expect(idle.contracts[0].predictedBid).to.equal(undefined);
+  });
+
+  it('runs cma:status for the signer', async function () {
+    const status = await hre.run('cma:status', {
+      cma: await deployment.cacheManagerAutomation.getAddress(),
+    });
+    // The signer is the deployer, who registered nothing.
+    expect(status.contracts).to.be.empty;
+    expect(status.market).to.deep.include({
+      utilization: 0n,
+      isPaused: false,
+      smallestEntries: [],
+    });
+  });
+});
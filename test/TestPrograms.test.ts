@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import hre from 'hardhat';
+
+import {
+  deployCMAWithMocks,
+  MockedCMADeployment,
+  setProgramCode,
+} from './helpers';
+import { isStylusProgram } from '../src/sdk/cma-client';
+import {
+  buildTestProgramWasm,
+  placeCacheManagerBids,
+  stylusInitCode,
+} from '../src/dev/test-programs';
+
+describe('Test programs', function () {
+  let deployment: MockedCMADeployment;
+
+  const PROGRAMS = [
+    '0x000000000000000000000000000000000000e001',
+    '0x000000000000000000000000000000000000e002',
+  ].map((address) => hre.ethers.getAddress(address));
+
+  beforeEach(async function () {
+    deployment = await deployCMAWithMocks();
+  });
+
+  it('builds valid WASM whose entrypoint returns 0, distinct per nonce', async function () {
+    const wasm = new Uint8Array(buildTestProgramWasm(-(2n ** 63n)));
+    expect(WebAssembly.validate(wasm)).to.equal(true);
+
+    const { instance } = await WebAssembly.instantiate(wasm);
+    const entrypoint = instance.exports.user_entrypoint as (
+      length: number
+    ) => number;
+    expect(entrypoint(0)).to.equal(0);
+    expect(instance.exports.memory).to.be.instanceOf(WebAssembly.Memory);
+
+    expect(Buffer.from(buildTestProgramWasm(1n))).to.not.deep.equal(
+      Buffer.from(buildTestProgramWasm(2n))
+    );
+  });
+
+  it('wraps the compressed module behind the Stylus prefix', function () {
+    const wasm = buildTestProgramWasm(42n);
+    const initCode = stylusInitCode(wasm);
+    const runtime = hre.ethers.dataSlice(initCode, 12);
+
+    // Constructor returning everything after itself; the deploy path needs an
+    // Arbitrum node (EIP-3541 rejects 0xEF code elsewhere) and is exercised by
+    // deployDummyWASMContracts in the localArb suites.
+    expect(hre.ethers.dataSlice(initCode, 0, 12)).to.equal(
+      hre.ethers.concat([
+        '0x61',
+        hre.ethers.toBeHex(hre.ethers.dataLength(runtime), 2),
+        '0x80600c6000396000f3',
+      ])
+    );
+    expect(isStylusProgram(runtime)).to.equal(true);
+    expect(hre.ethers.dataSlice(runtime, 0, 4)).to.equal('0xeff00000');
+    expect(
+      zlib.brotliDecompressSync(hre.ethers.getBytes(runtime).slice(4))
+    ).to.deep.equal(Buffer.from(wasm));
+  });
+
+  it('bids on the CacheManager, skipping cached and codeless programs', async function () {
+    const [bidder] = await hre.ethers.getSigners();
+    const [cached, fresh] = PROGRAMS;
+    await deployment.arbWasmCache.setCached(await setProgramCode(cached), true);
+    await setProgramCode(fresh);
+    const codeless = hre.ethers.Wallet.createRandom().address;
+    const options = {
+      cacheManagerAddress: await deployment.cacheManager.getAddress(),
+      arbWasmCacheAddress: await deployment.arbWasmCache.getAddress(),
+      minBid: 100n,
+      maxBid: 200n,
+    };
+
+    const results = await placeCacheManagerBids(
+      bidder,
+      [cached, codeless, fresh],
+      options
+    );
+    expect(results.map(({ status }) => status)).to.deep.equal([
+      'cached',
+      'no-code',
+      'placed',
+    ]);
+    expect(results[2].bid! >= 100n && results[2].bid! <= 200n).to.equal(true);
+    const tx = await hre.ethers.provider.getTransaction(
+      results[2].transactionHash!
+    );
+    expect(tx!.value).to.equal(results[2].bid);
+
+    await deployment.cacheManager.setShouldRevert(true);
+    const [failed] = await placeCacheManagerBids(bidder, [fresh], options);
+    expect(failed).to.include({ status: 'failed', error: 'placeBid revert' });
+  });
+
+  it('runs dev:place-bids on addresses from a file', async function () {
+    await setProgramCode(PROGRAMS[0]);
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'place-bids-')),
+      'addresses.txt'
+    );
+    fs.writeFileSync(file, `# deployed programs\n\n${PROGRAMS[0]}\n`);
+
+    const results = await hre.run('dev:place-bids', {
+      file,
+      cacheManager: await deployment.cacheManager.getAddress(),
+      arbWasmCache: await deployment.arbWasmCache.getAddress(),
+      minBid: '0.0001',
+      maxBid: '0.001',
+    });
+    expect(results).to.have.length(1);
+    expect(results[0]).to.include({
+      contractAddress: PROGRAMS[0],
+      status: 'placed',
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  bumpFees,
+  TransactionManager,
+  TransactionManagerOptions,
+} from '../src/keeper/transaction-manager';
+import { Logger } from '../src/keeper/types';
+
+describe('TransactionManager', function () {
+  let sender: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+  let logs: string[];
+  let logger: Logger;
+
+  const setAutomine = (enabled: boolean) =>
+    hre.network.provider.send('evm_setAutomine', [enabled]);
+  const mine = (blocks = 1) =>
+    hre.network.provider.send('hardhat_mine', [hre.ethers.toQuantity(blocks)]);
+
+  async function waitUntil(condition: () => boolean | Promise<boolean>) {
+    const deadline = Date.now() + 5000;
+    while (!(await condition())) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  const pendingCount = () =>
+    hre.ethers.provider.getTransactionCount(sender.address, 'pending');
+  const latestCount = () =>
+    hre.ethers.provider.getTransactionCount(sender.address, 'latest');
+
+  function createManager(options: Partial<TransactionManagerOptions> = {}) {
+    return new TransactionManager({
+      signer: sender,
+      requiredConfirmations: 1,
+      replaceAfterSeconds: 0.1,
+      pollIntervalMs: 10,
+      logger,
+      ...options,
+    });
+  }
+
+  beforeEach(async function () {
+    [, , , sender, recipient] = await hre.ethers.getSigners();
+    logs = [];
+    const record = (...args: unknown[]) => {
+      logs.push(args.join(' '));
+    };
+    logger = { log: record, warn: record, error: record };
+  });
+
+  afterEach(async function () {
+    // Never leave pending transactions behind for the other suites.
+    await mine();
+    await setAutomine(true);
+  });
+
+  it('bumps fees by the configured percentage', function () {
+    expect(
+      bumpFees({ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n }, 20)
+    ).to.deep.equal({ maxFeePerGas: 120n, maxPriorityFeePerGas: 12n });
+    expect(
+      bumpFees({ maxFeePerGas: 100n, maxPriorityFeePerGas: 1n }, 20, {
+        maxFeePerGas: 500n,
+        maxPriorityFeePerGas: 1n,
+      })
+    ).to.deep.equal({ maxFeePerGas: 500n, maxPriorityFeePerGas: 2n });
+    expect(bumpFees({ gasPrice: 0n }, 20)).to.deep.equal({ gasPrice: 1n });
+  });
+
+  it('replaces a stuck transaction with bumped EIP-1559 fees', async function () {
+    await setAutomine(false);
+    const manager = createManager({ feeBumpPercent: 25 });
+    const nonce = await latestCount();
+    const balanceBefore = await hre.ethers.provider.getBalance(recipient);
+    const feesBefore = await hre.ethers.provider.getFeeData();
+
+    const sending = manager.send({ to: recipient.address, value: 1n });
+    await waitUntil(() => logs.some((line) => line.includes('🔁')));
+    await mine();
+    const receipt = await sending;
+
+    const mined = await hre.ethers.provider.getTransaction(receipt.hash);
+    expect(mined!.nonce).to.equal(nonce);
+    expect(mined!.maxFeePerGas).to.be.at.least(
+      (feesBefore.maxFeePerGas! * 125n) / 100n
+    );
+    // Only one of the broadcasts executed.
+    expect(
+      (await hre.ethers.provider.getBalance(recipient)) - balanceBefore
+    ).to.equal(1n);
+  });
+
+  it('waits for the required confirmation depth', async function () {
+    await setAutomine(false);
+    const manager = createManager({
+      requiredConfirmations: 3,
+      replaceAfterSeconds: 60,
+    });
+
+    let confirmed = false;
+    const sending = manager.send({ to: recipient.address, value: 1n });
+    void sending.then(() => (confirmed = true));
+    await waitUntil(async () => (await pendingCount()) > (await latestCount()));
+
+    await mine(2);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(confirmed).to.equal(false);
+
+    await mine();
+    await sending;
+    expect(confirmed).to.equal(true);
+  });
+
+  it('replaces transactions left pending by a previous run', async function () {
+    await setAutomine(false);
+    const stuck = await sender.sendTransaction({
+      to: recipient.address,
+      value: 1n,
+    });
+    const balanceBefore = await hre.ethers.provider.getBalance(recipient);
+
+    const sending = createManager().send({ to: recipient.address, value: 2n });
+    await waitUntil(() => logs.some((line) => line.includes('⚠️')));
+    await waitUntil(async () => {
+      const pending = await hre.ethers.provider.getTransaction(stuck.hash);
+      return pending === null;
+    });
+    await mine();
+    const receipt = await sending;
+
+    const mined = await hre.ethers.provider.getTransaction(receipt.hash);
+    expect(mined!.nonce).to.equal(stuck.nonce);
+    expect(
+      (await hre.ethers.provider.getBalance(recipient)) - balanceBefore
+    ).to.equal(2n);
+    expect(await latestCount()).to.equal(stuck.nonce + 1);
+  });
+
+  it('gives up on a stuck transaction without skipping its nonce', async function () {
+    await setAutomine(false);
+    const manager = createManager({ maxReplacements: 0 });
+    const first = await latestCount();
+
+    await expect(
+      manager.send({ to: recipient.address, value: 1n })
+    ).to.be.rejectedWith('still unmined');
+    // The node drops it, e.g. after a restart.
+    const pending = await hre.network.provider.send('eth_getBlockByNumber', [
+      'pending',
+      false,
+    ]);
+    for (const hash of pending.transactions) {
+      await hre.network.provider.send('hardhat_dropTransaction', [hash]);
+    }
+
+    await setAutomine(true);
+    const receipt = await manager.send({ to: recipient.address, value: 2n });
+    expect(
+      (await hre.ethers.provider.getTransaction(receipt.hash))!.nonce
+    ).to.equal(first);
+  });
+
+  it('keeps its nonce when a send times out during another broadcast', async function () {
+    await setAutomine(false);
+    // Holds broadcasts back while `gate` is pending.
+    let gate: Promise<void> | undefined;
+    let release = () => {};
+    const gated = Object.create(sender) as HardhatEthersSigner;
+    gated.sendTransaction = async (transaction) => {
+      await gate;
+      return sender.sendTransaction(transaction);
+    };
+    const manager = createManager({
+      signer: gated,
+      replaceAfterSeconds: 0.2,
+      maxReplacements: 0,
+    });
+    const first = await latestCount();
+
+    const stuck = manager.send({ to: recipient.address, value: 1n });
+    void stuck.catch(() => {});
+    await waitUntil(async () => (await pendingCount()) > first);
+    gate = new Promise((resolve) => (release = resolve));
+    const concurrent = manager.send({ to: recipient.address, value: 2n });
+    // Let the first send give up while the second is broadcasting.
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    release();
+    await waitUntil(async () => (await pendingCount()) > first + 1);
+    await mine();
+    await concurrent;
+    await expect(stuck).to.be.rejectedWith('still unmined');
+
+    await setAutomine(true);
+    const receipt = await manager.send({ to: recipient.address, value: 3n });
+    expect(
+      (await hre.ethers.provider.getTransaction(receipt.hash))!.nonce
+    ).to.equal(first + 2);
+  });
+
+  it('assigns consecutive nonces to concurrent sends', async function () {
+    const manager = createManager();
+    const first = await latestCount();
+
+    const receipts = await Promise.all(
+      [1n, 2n, 3n].map((value) =>
+        manager.send({ to: recipient.address, value })
+      )
+    );
+
+    const nonces = await Promise.all(
+      receipts.map(
+        async (r) => (await hre.ethers.provider.getTransaction(r.hash))!.nonce
+      )
+    );
+    expect(nonces).to.deep.equal([first, first + 1, first + 2]);
+  });
+
+  it('rejects when the mined transaction reverts', async function () {
+    const reverting = await (
+      await hre.ethers.getContractFactory('MockArbWasm')
+    ).deploy();
+    await reverting.setShouldRevert(true);
+
+    await expect(
+      createManager().send({
+        to: await reverting.getAddress(),
+        data: reverting.interface.encodeFunctionData('activateProgram', [
+          recipient.address,
+        ]),
+        gasLimit: 100000,
+      })
+    ).to.be.rejectedWith('reverted');
+  });
+
+  it('does not consume a nonce when the node rejects a send', async function () {
+    const manager = createManager();
+    const first = await latestCount();
+    const balance = await hre.ethers.provider.getBalance(sender);
+
+    await expect(manager.send({ to: recipient.address, value: balance * 2n }))
+      .to.be.rejected;
+
+    const receipt = await manager.send({ to: recipient.address, value: 1n });
+    expect(
+      (await hre.ethers.provider.getTransaction(receipt.hash))!.nonce
+    ).to.equal(first);
+  });
+});
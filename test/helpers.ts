@@ -1,15 +1,18 @@
-import { exec } from 'child_process';
-import util from 'util';
 import hre from 'hardhat';
 import { Signer, Provider, Contract } from 'ethers';
 import dotenv from 'dotenv';
 
 dotenv.config();
-const execPromise = util.promisify(exec);
 
 import cacheManagerABIJson from '../abis/external/cacheManager.abi.json';
 import arbWasmCacheABIJson from '../abis/external/arbWasmCache.abi.json';
-import type { CacheManagerAutomation } from '../build/typechain-types';
+import { deployTestPrograms } from '../src/dev/test-programs';
+import type {
+  CacheManagerAutomation,
+  MockArbWasm,
+  MockArbWasmCache,
+  MockCacheManager,
+} from '../build/typechain-types';
 
 export interface CMADeployment {
   cacheManagerAutomation: CacheManagerAutomation;
@@ -73,12 +76,71 @@ export async function deployCMA(): Promise<CMADeployment> {
   };
 }
 
+export interface MockedCMADeployment {
+  cacheManagerAutomation: CacheManagerAutomation;
+  cacheManager: MockCacheManager;
+  arbWasmCache: MockArbWasmCache;
+  arbWasm: MockArbWasm;
+  owner: Signer;
+}
+
+/**
+ * Deploys a Cache Manager Automation contract wired to the mock CacheManager,
+ * ArbWasmCache and ArbWasm contracts, for tests on the in-process network.
+ *
+ * @returns {Promise<MockedCMADeployment>} The CMA instance, its mocks and the owner signer.
+ */
+export async function deployCMAWithMocks(): Promise<MockedCMADeployment> {
+  const [owner] = await hre.ethers.getSigners();
+
+  const cacheManager = await (
+    await hre.ethers.getContractFactory('MockCacheManager')
+  ).deploy();
+  const arbWasmCache = await (
+    await hre.ethers.getContractFactory('MockArbWasmCache')
+  ).deploy();
+  const arbWasm = await (
+    await hre.ethers.getContractFactory('MockArbWasm')
+  ).deploy();
+
+  const cacheManagerAutomation = await (
+    await hre.ethers.getContractFactory('CacheManagerAutomation')
+  ).deploy(
+    await cacheManager.getAddress(),
+    await arbWasmCache.getAddress(),
+    await arbWasm.getAddress()
+  );
+
+  return {
+    cacheManagerAutomation,
+    cacheManager,
+    arbWasmCache,
+    arbWasm,
+    owner,
+  };
+}
+
+/**
+ * Places runtime code at an address on the in-process network.
+ *
+ * @param address Address to place the code at
+ * @param code Runtime bytecode (defaults to a unique dummy payload per address)
+ * @returns The keccak256 codehash of the placed code
+ */
+export async function setProgramCode(
+  address: string,
+  code: string = hre.ethers.concat(['0xeff000', address])
+): Promise<string> {
+  await hre.network.provider.send('hardhat_setCode', [address, code]);
+  return hre.ethers.keccak256(code);
+}
+
 /**
  * Deploys dummy WASM contracts.
  *
- * @description This function executes a deployment script which deploys a given number of dummy WASM contracts.
- * The number of contracts to deploy is determined by the DUMMY_CONTRACTS_AMOUNT environment variable.
- * If the environment variable is not set, it defaults to 4 contracts.
+ * @description This function deploys and activates the given number of test Stylus programs,
+ * each with distinct code, using the first signer and the ArbWasm precompile at
+ * ARB_WASM_ADDRESS (defaults to 0x71).
  * The function returns an array of contract addresses.
  *
  * @returns {Promise<string[]>} An array of contract addresses.
@@ -86,21 +148,14 @@ export async function deployCMA(): Promise<CMADeployment> {
 export async function deployDummyWASMContracts(
   amount: number = 1
 ): Promise<string[]> {
-  try {
-    const { stdout, stderr } = await execPromise(
-      `bash test/utils/deploy-dummy-wasm.sh -e .env -i ${amount}`
-    );
-
-    if (stderr) {
-      console.error('Deployment script error:', stderr);
-    }
-    const ansiRegex = /\x1B\[[0-9;]*[mK]/g;
-    const cleanedOutput = stdout.replace(ansiRegex, '').trim();
-    return cleanedOutput.split('\n').filter((line) => line.startsWith('0x'));
-  } catch (error) {
-    console.error('Failed to execute deployment script:', error);
-    throw error; // Fail the test setup if deployment fails
-  }
+  const [deployer] = await hre.ethers.getSigners();
+  const programs = await deployTestPrograms(deployer, {
+    count: amount,
+    arbWasmAddress:
+      process.env.ARB_WASM_ADDRESS ||
+      '0x0000000000000000000000000000000000000071',
+  });
+  return programs.map((program) => program.address);
 }
 
 /**